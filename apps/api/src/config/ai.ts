@@ -0,0 +1,146 @@
+/**
+ * AI configuration for backend
+ * Reads the narrative provider chain and per-provider settings from the
+ * environment and validates them with Zod, so a bad setup fails at startup
+ * rather than on the first reading.
+ *
+ * AI_PROVIDERS lists providers in failover order, e.g. "anthropic,openai".
+ */
+
+import dotenv from "dotenv";
+import { z } from "zod";
+import type { NarrativeProviderName } from "../types/narrative";
+
+dotenv.config();
+
+const ProviderNameSchema = z.enum(["openai", "anthropic", "local", "mock"]);
+
+const optionalString = z
+  .string()
+  .optional()
+  .transform((value) => (value?.trim() ? value.trim() : undefined));
+
+const AiEnvSchema = z
+  .object({
+    AI_PROVIDERS: z
+      .string()
+      .default("openai")
+      .transform((value) =>
+        value
+          .split(",")
+          .map((name) => name.trim())
+          .filter(Boolean)
+      )
+      .pipe(z.array(ProviderNameSchema).min(1, "list at least one provider")),
+    AI_TEMPERATURE: z.coerce.number().min(0).max(2).default(0.7),
+    AI_MAX_TOKENS: z.coerce.number().int().min(64).max(8000).default(1000),
+    AI_TIMEOUT_MS: z.coerce.number().int().min(1000).default(60000),
+    AI_CHAT_HISTORY_TOKENS: z.coerce.number().int().min(200).default(2000),
+
+    OPENAI_API_KEY: optionalString,
+    OPENAI_MODEL: z.string().default("gpt-4o-mini"),
+    OPENAI_BASE_URL: optionalString.pipe(z.string().url().optional()),
+
+    ANTHROPIC_API_KEY: optionalString,
+    ANTHROPIC_MODEL: z.string().default("claude-3-5-haiku-latest"),
+
+    LOCAL_AI_BASE_URL: z.string().url().default("http://localhost:11434/v1"),
+    LOCAL_AI_MODEL: z.string().default("llama3.1"),
+    LOCAL_AI_API_KEY: optionalString,
+  })
+  .superRefine((env, ctx) => {
+    const requiredKeys: Partial<Record<NarrativeProviderName, keyof typeof env>> = {
+      openai: "OPENAI_API_KEY",
+      anthropic: "ANTHROPIC_API_KEY",
+    };
+    for (const provider of env.AI_PROVIDERS) {
+      const key = requiredKeys[provider];
+      if (key && !env[key]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `required when AI_PROVIDERS includes "${provider}"`,
+        });
+      }
+    }
+  });
+
+/**
+ * Settings for one provider in the chain
+ */
+export type ProviderConfig =
+  | { name: "openai"; apiKey: string; model: string; baseUrl?: string }
+  | { name: "anthropic"; apiKey: string; model: string }
+  | { name: "local"; baseUrl: string; model: string; apiKey?: string }
+  | { name: "mock"; model: string };
+
+export interface AiConfig {
+  /** Providers in failover order */
+  providers: ProviderConfig[];
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  /** Budget for follow-up chat history; older messages beyond it are dropped */
+  chatHistoryTokens: number;
+}
+
+/**
+ * Thrown when the AI environment variables are missing or invalid
+ */
+export class AiConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid AI configuration: ${issues.join("; ")}`);
+    this.name = "AiConfigError";
+  }
+}
+
+/**
+ * Parse and validate the AI configuration
+ * Throws AiConfigError listing every problem found
+ */
+export function loadAiConfig(env: NodeJS.ProcessEnv = process.env): AiConfig {
+  const parsed = AiEnvSchema.safeParse(env);
+  if (!parsed.success) {
+    throw new AiConfigError(
+      parsed.error.errors.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    );
+  }
+  const values = parsed.data;
+
+  const providers = Array.from(new Set(values.AI_PROVIDERS)).map(
+    (name): ProviderConfig => {
+      switch (name) {
+        case "openai":
+          return {
+            name,
+            apiKey: values.OPENAI_API_KEY!,
+            model: values.OPENAI_MODEL,
+            baseUrl: values.OPENAI_BASE_URL,
+          };
+        case "anthropic":
+          return {
+            name,
+            apiKey: values.ANTHROPIC_API_KEY!,
+            model: values.ANTHROPIC_MODEL,
+          };
+        case "local":
+          return {
+            name,
+            baseUrl: values.LOCAL_AI_BASE_URL,
+            model: values.LOCAL_AI_MODEL,
+            apiKey: values.LOCAL_AI_API_KEY,
+          };
+        case "mock":
+          return { name, model: "mock" };
+      }
+    }
+  );
+
+  return {
+    providers,
+    temperature: values.AI_TEMPERATURE,
+    maxTokens: values.AI_MAX_TOKENS,
+    timeoutMs: values.AI_TIMEOUT_MS,
+    chatHistoryTokens: values.AI_CHAT_HISTORY_TOKENS,
+  };
+}
@@ -6,13 +6,32 @@
 import express from "express";
 import cors from "cors";
 import dotenv from "dotenv";
-import { pinoHttp } from "./utils/logger";
+import { logger, pinoHttp } from "./utils/logger";
+import { AiConfigError, loadAiConfig } from "./config/ai";
 import aiRoutes from "./routes/ai";
 import solanaRoutes from "./routes/solana";
 
 // Load environment variables
 dotenv.config();
 
+// Fail fast on a bad AI setup instead of on the first reading
+let aiProviderChain: string;
+try {
+  const aiConfig = loadAiConfig();
+  aiProviderChain = aiConfig.providers
+    .map((provider) => `${provider.name} (${provider.model})`)
+    .join(" → ");
+  logger.info("ai.config.loaded", {
+    providers: aiConfig.providers.map((provider) => provider.name),
+  });
+} catch (error) {
+  if (error instanceof AiConfigError) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
+
 const app = express();
 const PORT = process.env.PORT || 3000;
 
@@ -29,7 +48,9 @@ app.use(
 );
 
 // Body parsing middleware
-app.use(express.json());
+// Chat requests carry the reading, its narrative and recent messages, which can
+// pass express's 100kb default
+app.use(express.json({ limit: "256kb" }));
 
 // Request logging middleware
 app.use(pinoHttp());
@@ -62,6 +83,7 @@ app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📡 Health check: http://localhost:${PORT}/health`);
   console.log(`🤖 AI endpoint: http://localhost:${PORT}/v1/ai/reading`);
+  console.log(`🧠 AI providers: ${aiProviderChain}`);
   console.log(`💰 Solana endpoint: http://localhost:${PORT}/v1/solana/verify-and-grant`);
 });
 
@@ -6,13 +6,14 @@
 import { Request, Response, NextFunction } from "express";
 import { ZodSchema, ZodError } from "zod";
 import { logger } from "../utils/logger";
+import type { ApiErrorResponse } from "../types/api";
 
 /**
  * Create validation middleware for request body
  * Validates against a Zod schema and returns 400 if invalid
  */
 export function validateBody<T>(schema: ZodSchema<T>) {
-  return (req: Request, res: Response, next: NextFunction): void => {
+  return (req: Request, res: Response<ApiErrorResponse>, next: NextFunction): void => {
     try {
       // Validate and transform request body
       req.body = schema.parse(req.body);
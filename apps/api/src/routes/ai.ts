@@ -1,17 +1,61 @@
 /**
  * AI reading routes
- * Handles POST /v1/ai/reading for narrative generation
+ * Handles POST /v1/ai/reading for narrative generation,
+ * POST /v1/ai/reading/stream for the same narrative as Server-Sent Events, and
+ * POST /v1/ai/reading/:readingId/messages for follow-up questions
  */
 
 import { Router, Request, Response } from "express";
 import { z } from "zod";
 import { validateBody } from "../middleware/validation";
-import { generateTarotNarrative } from "../services/aiService";
+import {
+  answerReadingQuestion,
+  generateTarotNarrative,
+  streamTarotNarrative,
+} from "../services/aiService";
+import { NARRATIVE_TONE_IDS } from "../services/narrativeTones";
 import { logger } from "../utils/logger";
-import type { AiReadingRequest, AiReadingResponse } from "../types/ai";
+import type { ApiErrorResponse } from "../types/api";
+import type {
+  AiChatRequest,
+  AiChatResponse,
+  AiReadingRequest,
+  AiReadingResponse,
+  AiReadingStreamEvent,
+} from "../types/ai";
 
 const router = Router();
 
+/**
+ * Zod schema for on-device reading patterns
+ */
+const ReadingPatternsSchema = z.object({
+  suits: z.record(z.number()),
+  elements: z.record(z.number()),
+  majorCount: z.number(),
+  minorCount: z.number(),
+  courtCardIds: z.array(z.string()),
+  repeatedNumbers: z.array(
+    z.object({
+      number: z.number(),
+      cardIds: z.array(z.string()),
+    })
+  ),
+  numerology: z.object({
+    total: z.number(),
+    reduced: z.number(),
+    cardId: z.string().optional(),
+  }),
+  dignities: z.array(
+    z.object({
+      fromPositionIndex: z.number(),
+      toPositionIndex: z.number(),
+      elements: z.tuple([z.string(), z.string()]),
+      dignity: z.enum(["strengthening", "friendly", "neutral", "weakening"]),
+    })
+  ),
+});
+
 /**
  * Zod schema for AI reading request validation
  */
@@ -19,7 +63,8 @@ const AiReadingRequestSchema = z.object({
   readingId: z.string().uuid(),
   question: z.string().nullable(),
   spread: z.object({
-    id: z.enum(["one_card", "three_card", "celtic_cross"]),
+    // Built-in IDs or user-designed "custom_<uuid>" spreads
+    id: z.string().min(1).max(100),
     positions: z.array(
       z.object({
         index: z.number(),
@@ -37,10 +82,63 @@ const AiReadingRequestSchema = z.object({
       isReversed: z.boolean(),
       meaning: z.string(),
       description: z.string(),
+      categoryMeaning: z.string().optional(),
     })
   ),
-  tone: z.literal("heavenly_clean"),
-  outputFormat: z.literal("text"),
+  focusCategory: z.enum(["love", "health", "moneyCareer", "spirituality"]).optional(),
+  significator: z
+    .object({
+      cardId: z.string(),
+      name: z.string(),
+      label: z.string(),
+      prompt: z.string(),
+      meaning: z.string(),
+    })
+    .optional(),
+  patterns: ReadingPatternsSchema.optional(),
+  combinations: z
+    .array(
+      z.object({
+        kind: z.enum(["pair", "triad", "rank"]),
+        title: z.string(),
+        meaning: z.string(),
+      })
+    )
+    .optional(),
+  tone: z.enum(NARRATIVE_TONE_IDS),
+  outputFormat: z.enum(["text", "json"]),
+});
+
+/**
+ * Longest model-written text accepted back from the client (a narrative or an
+ * earlier answer): AI_MAX_TOKENS allows up to 8000 tokens, at ~4 characters each
+ */
+const MAX_GENERATED_TEXT_LENGTH = 40000;
+
+/**
+ * Zod schema for follow-up chat requests
+ */
+const AiChatRequestSchema = z.object({
+  reading: AiReadingRequestSchema.omit({ outputFormat: true }),
+  narrative: z.string().max(MAX_GENERATED_TEXT_LENGTH).optional(),
+  messages: z
+    .array(
+      z.discriminatedUnion("role", [
+        z.object({
+          role: z.literal("user"),
+          content: z.string().trim().min(1).max(4000),
+        }),
+        z.object({
+          role: z.literal("assistant"),
+          content: z.string().trim().min(1).max(MAX_GENERATED_TEXT_LENGTH),
+        }),
+      ])
+    )
+    .min(1)
+    .max(100)
+    .refine((messages) => messages[messages.length - 1].role === "user", {
+      message: "The last message must be the user's question",
+    }),
 });
 
 /**
@@ -50,7 +148,10 @@ const AiReadingRequestSchema = z.object({
 router.post(
   "/reading",
   validateBody(AiReadingRequestSchema),
-  async (req: Request<{}, AiReadingResponse, AiReadingRequest>, res: Response) => {
+  async (
+    req: Request<{}, AiReadingResponse | ApiErrorResponse, AiReadingRequest>,
+    res: Response<AiReadingResponse | ApiErrorResponse>
+  ) => {
     const requestId = req.headers["x-request-id"] as string || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
     try {
@@ -58,7 +159,7 @@ router.post(
 
       const response: AiReadingResponse = {
         readingId: req.body.readingId,
-        aiNarrative: narrative,
+        ...narrative,
       };
 
       res.json(response);
@@ -73,7 +174,120 @@ router.post(
       res.status(500).json({
         error: "Failed to generate narrative",
         requestId,
-      } as any);
+      });
+    }
+  }
+);
+
+/**
+ * Write one Server-Sent Event
+ */
+function sendEvent(res: Response, { event, data }: AiReadingStreamEvent): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * POST /v1/ai/reading/stream
+ * Streams the AI narrative as Server-Sent Events: start, delta..., then done or error.
+ * Validation failures are still plain 400 JSON, since no stream has started yet.
+ * The upstream model call is cancelled if the client disconnects.
+ */
+router.post(
+  "/reading/stream",
+  validateBody(AiReadingRequestSchema),
+  async (req: Request<{}, unknown, AiReadingRequest>, res: Response) => {
+    const requestId = req.headers["x-request-id"] as string || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const { readingId } = req.body;
+
+    const upstream = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        logger.info("ai.route.stream.disconnect", { requestId, readingId });
+        upstream.abort();
+      }
+    });
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stop reverse proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    sendEvent(res, { event: "start", data: { readingId } });
+
+    try {
+      const narrative = await streamTarotNarrative(
+        req.body,
+        (text) => sendEvent(res, { event: "delta", data: { readingId, text } }),
+        upstream.signal
+      );
+      sendEvent(res, { event: "done", data: { readingId, ...narrative } });
+    } catch (error) {
+      if (upstream.signal.aborted) return;
+
+      logger.error("ai.route.error", {
+        requestId,
+        readingId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      sendEvent(res, {
+        event: "error",
+        data: { readingId, error: "Failed to generate narrative", requestId },
+      });
+    }
+    res.end();
+  }
+);
+
+/**
+ * POST /v1/ai/reading/:readingId/messages
+ * Answers a follow-up question about a reading
+ * Credits are charged on the device before the request is sent.
+ */
+router.post(
+  "/reading/:readingId/messages",
+  validateBody(AiChatRequestSchema),
+  async (
+    req: Request<{ readingId: string }, AiChatResponse | ApiErrorResponse, AiChatRequest>,
+    res: Response<AiChatResponse | ApiErrorResponse>
+  ) => {
+    const requestId = req.headers["x-request-id"] as string || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const { readingId } = req.params;
+
+    if (req.body.reading.readingId !== readingId) {
+      res.status(400).json({
+        error: "Validation error",
+        details: [{ path: ["reading", "readingId"], message: "Does not match the URL" }],
+      });
+      return;
+    }
+
+    const upstream = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) upstream.abort();
+    });
+
+    try {
+      const answer = await answerReadingQuestion(req.body, upstream.signal);
+      const response: AiChatResponse = {
+        readingId,
+        message: { role: "assistant", content: answer },
+      };
+      res.json(response);
+    } catch (error) {
+      if (upstream.signal.aborted) return;
+
+      logger.error("ai.route.error", {
+        requestId,
+        readingId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: "Failed to answer question",
+        requestId,
+      });
     }
   }
 );
@@ -0,0 +1,47 @@
+import { estimateTokens, trimHistoryToTokens } from "../chatHistory";
+import type { NarrativeMessage } from "../../types/narrative";
+
+/** A message of `tokens` estimated tokens */
+function message(role: NarrativeMessage["role"], tokens: number): NarrativeMessage {
+  return { role, content: "x".repeat(tokens * 4) };
+}
+
+describe("estimateTokens", () => {
+  it("counts about four characters per token, rounding up", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("trimHistoryToTokens", () => {
+  it("keeps everything that fits", () => {
+    const messages = [message("user", 10), message("assistant", 10), message("user", 10)];
+    expect(trimHistoryToTokens(messages, 30)).toEqual(messages);
+  });
+
+  it("drops the oldest messages past the budget", () => {
+    const messages = [
+      message("user", 10),
+      message("assistant", 10),
+      message("user", 10),
+      message("assistant", 10),
+      message("user", 10),
+    ];
+    expect(trimHistoryToTokens(messages, 30)).toEqual(messages.slice(2));
+  });
+
+  it("never starts with an assistant message", () => {
+    const messages = [message("user", 10), message("assistant", 10), message("user", 10)];
+    expect(trimHistoryToTokens(messages, 20)).toEqual(messages.slice(2));
+  });
+
+  it("always keeps the latest message, even over budget", () => {
+    const messages = [message("user", 10), message("assistant", 10), message("user", 50)];
+    expect(trimHistoryToTokens(messages, 20)).toEqual(messages.slice(2));
+  });
+
+  it("handles an empty history", () => {
+    expect(trimHistoryToTokens([], 100)).toEqual([]);
+  });
+});
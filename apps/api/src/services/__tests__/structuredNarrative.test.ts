@@ -0,0 +1,104 @@
+import {
+  formatStructuredNarrative,
+  parseStructuredNarrative,
+  structuredNarrativeInstructions,
+} from "../structuredNarrative";
+import type { AiReadingRequest } from "../../types/ai";
+
+const cards: AiReadingRequest["cards"] = [0, 1, 2].map((positionIndex) => ({
+  cardId: `card_${positionIndex}`,
+  name: `Card ${positionIndex}`,
+  positionIndex,
+  positionLabel: ["Past", "Present", "Future"][positionIndex],
+  isReversed: false,
+  meaning: "",
+  description: "",
+}));
+
+function narrative(positions: number[]) {
+  return {
+    overview: "An overview.",
+    positions: positions.map((positionIndex) => ({
+      positionIndex,
+      interpretation: `About position ${positionIndex}.`,
+    })),
+    advice: "Some advice.",
+    takeaways: ["One", "Two", "Three"],
+    disclaimer: "For reflection only.",
+  };
+}
+
+describe("parseStructuredNarrative", () => {
+  it("parses valid JSON and sorts the positions", () => {
+    const result = parseStructuredNarrative(JSON.stringify(narrative([2, 0, 1])), cards);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.narrative.positions.map((position) => position.positionIndex)).toEqual([
+      0, 1, 2,
+    ]);
+  });
+
+  it("strips code fences and text around the object", () => {
+    const text = `Here you go:\n\`\`\`json\n${JSON.stringify(narrative([0, 1, 2]))}\n\`\`\`\nEnjoy!`;
+    expect(parseStructuredNarrative(text, cards).success).toBe(true);
+  });
+
+  it("repairs trailing commas and smart quotes", () => {
+    const json = JSON.stringify(narrative([0, 1, 2]), null, 2)
+      .replace(/"One"/, "“One”")
+      .replace(/("Three")/, "$1,")
+      .replace(/("disclaimer": "For reflection only.")/, "$1,");
+    const result = parseStructuredNarrative(json, cards);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.narrative.takeaways).toEqual(["One", "Two", "Three"]);
+  });
+
+  it("reports text that isn't JSON", () => {
+    const result = parseStructuredNarrative("The cards say hello.", cards);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues[0]).toMatch(/^not valid JSON/);
+  });
+
+  it("reports schema issues by path", () => {
+    const result = parseStructuredNarrative(
+      JSON.stringify({ ...narrative([0, 1, 2]), advice: " " }),
+      cards
+    );
+    expect(result).toEqual({
+      success: false,
+      issues: ["advice: String must contain at least 1 character(s)"],
+    });
+  });
+
+  it("reports missing, duplicate and unexpected positions", () => {
+    const result = parseStructuredNarrative(JSON.stringify(narrative([0, 0, 5])), cards);
+    expect(result).toEqual({
+      success: false,
+      issues: [
+        "positions: duplicate positionIndex 0",
+        "positions: unexpected positionIndex 5",
+        "positions: missing positionIndex 1",
+        "positions: missing positionIndex 2",
+      ],
+    });
+  });
+});
+
+describe("structuredNarrativeInstructions", () => {
+  it("lists every position index to cover", () => {
+    expect(structuredNarrativeInstructions(cards)).toContain(
+      "position indexes: 0 (Past), 1 (Present), 2 (Future)."
+    );
+  });
+});
+
+describe("formatStructuredNarrative", () => {
+  it("renders the text format's layout", () => {
+    const parsed = narrative([0]);
+    expect(formatStructuredNarrative(parsed)).toBe(
+      "An overview.\n\nSome advice.\n\n- One\n- Two\n- Three\n\nFor reflection only."
+    );
+  });
+});
@@ -1,33 +1,137 @@
 /**
- * AI Service - Handles OpenAI API calls
- * Uses OpenAI Responses API (recommended for new projects)
- * Generates tarot reading narratives based on cards and spread
+ * AI Service - Generates tarot reading narratives based on cards and spread
+ * Calls go through the configured NarrativeProvider chain (OpenAI, Anthropic,
+ * a local OpenAI-compatible server, or the offline mock)
  */
 
-import OpenAI from "openai";
+import { loadAiConfig, type AiConfig } from "../config/ai";
+import { createNarrativeProvider } from "./providers";
+import { NARRATIVE_TONES, toneSystemPrompt } from "./narrativeTones";
+import { trimHistoryToTokens } from "./chatHistory";
+import {
+  StructuredNarrativeError,
+  formatStructuredNarrative,
+  parseStructuredNarrative,
+  structuredNarrativeInstructions,
+} from "./structuredNarrative";
 import { logger } from "../utils/logger";
-import type { AiReadingRequest } from "../types/ai";
+import type {
+  NarrativeDeltaHandler,
+  NarrativeProvider,
+  NarrativeRequest,
+  NarrativeResult,
+} from "../types/narrative";
+import type {
+  AiChatRequest,
+  AiReadingContext,
+  AiReadingRequest,
+  AiReadingResponse,
+  ReadingCategory,
+  ReadingPatterns,
+} from "../types/ai";
 
 /**
- * Initialize OpenAI client
- * API key must be set in environment variable
+ * Generated narrative, as returned to the client (minus the readingId)
  */
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+export type NarrativeOutput = Omit<AiReadingResponse, "readingId">;
 
 /**
- * Build prompt text for OpenAI
- * Combines spread positions, card meanings, and user question
+ * Model attempts for JSON output: the first answer plus one repair request
  */
-function buildPrompt(request: AiReadingRequest): string {
-  const { question, spread, cards } = request;
+const MAX_JSON_ATTEMPTS = 2;
+
+/**
+ * AI config and provider chain, created on first use
+ */
+let aiConfig: AiConfig | null = null;
+let narrativeProvider: NarrativeProvider | null = null;
+
+function getNarrativeProvider(): { config: AiConfig; provider: NarrativeProvider } {
+  if (!aiConfig || !narrativeProvider) {
+    aiConfig = loadAiConfig();
+    narrativeProvider = createNarrativeProvider(aiConfig);
+  }
+  return { config: aiConfig, provider: narrativeProvider };
+}
+
+/**
+ * How each focus category is named in the prompt
+ */
+const CATEGORY_NAMES: Record<ReadingCategory, string> = {
+  love: "love and relationships",
+  health: "health and wellbeing",
+  moneyCareer: "money and career",
+  spirituality: "spirituality and personal growth",
+};
 
-  // Start with tone and disclaimer
-  let prompt = `You are a compassionate and insightful tarot reader. Provide readings in a heavenly, clean, calm, and supportive tone. Always include a disclaimer that readings are for reflection and entertainment purposes only, not medical, legal, or financial advice.\n\n`;
+/**
+ * Describe on-device reading patterns for the prompt
+ * Card IDs are resolved to names from the request's cards (IDs outside the spread read as words)
+ */
+function describePatterns(
+  patterns: ReadingPatterns,
+  cards: AiReadingRequest["cards"]
+): string {
+  const nameOf = (cardId: string) =>
+    cards.find((card) => card.cardId === cardId)?.name ??
+    cardId.replace(/_/g, " ");
+  const labelOf = (positionIndex: number) =>
+    cards.find((card) => card.positionIndex === positionIndex)?.positionLabel ??
+    `Position ${positionIndex + 1}`;
+  const counts = (values: Record<string, number>) =>
+    Object.entries(values)
+      .filter(([, count]) => count > 0)
+      .map(([key, count]) => `${key} ${count}`)
+      .join(", ");
 
-  // Add spread context
-  prompt += `Spread: ${spread.id} (${spread.positions.length} cards)\n\n`;
+  let text = "Reading patterns:\n";
+  text += `- Suits: ${counts(patterns.suits)}\n`;
+  text += `- Elements: ${counts(patterns.elements) || "none"}\n`;
+  text += `- Major vs Minor: ${patterns.majorCount} Major, ${patterns.minorCount} Minor\n`;
+  text += `- Court cards: ${patterns.courtCardIds.map(nameOf).join(", ") || "none"}\n`;
+  for (const repeated of patterns.repeatedNumbers) {
+    text += `- Repeated number ${repeated.number}: ${repeated.cardIds.map(nameOf).join(", ")}\n`;
+  }
+  const numerologyCard = patterns.numerology.cardId
+    ? ` (${nameOf(patterns.numerology.cardId)})`
+    : "";
+  text += `- Numerology: ${patterns.numerology.total} reduces to ${patterns.numerology.reduced}${numerologyCard}\n`;
+  for (const pair of patterns.dignities) {
+    text += `- ${labelOf(pair.fromPositionIndex)} to ${labelOf(pair.toPositionIndex)}: ${pair.elements[0]} and ${pair.elements[1]}, ${pair.dignity}\n`;
+  }
+  return text;
+}
+
+/**
+ * Describe the reading for the model
+ * Combines spread positions, card meanings, patterns and the user's question;
+ * shared by the narrative prompt and follow-up chat
+ */
+function describeReading(request: AiReadingContext): string {
+  const {
+    question,
+    spread,
+    cards,
+    significator,
+    patterns,
+    combinations,
+    focusCategory,
+  } = request;
+  const focus = focusCategory ? CATEGORY_NAMES[focusCategory] : null;
+
+  // Tone and disclaimer travel in the system prompt
+  let prompt = `Spread: ${spread.id} (${spread.positions.length} cards)\n\n`;
+
+  if (focus) {
+    prompt += `Focus: ${focus}. The querent wants this reading to speak to this area of life.\n\n`;
+  }
+
+  // The significator is the querent's card, set aside before the shuffle
+  if (significator) {
+    prompt += `${significator.label} (the querent's card): ${significator.name}\n`;
+    prompt += `  Meaning: ${significator.meaning}\n`;
+    prompt += `  Context: ${significator.prompt}\n\n`;
+  }
 
   // Add each card with its position and meaning
   prompt += "Cards drawn:\n";
@@ -36,35 +140,122 @@ function buildPrompt(request: AiReadingRequest): string {
     prompt += `\n- ${card.name}${card.isReversed ? " (Reversed)" : ""} — ${card.positionLabel}\n`;
     prompt += `  Meaning: ${card.meaning}\n`;
     prompt += `  Description: ${card.description}\n`;
+    if (focus && card.categoryMeaning) {
+      prompt += `  Meaning for ${focus}: ${card.categoryMeaning}\n`;
+    }
     if (position) {
       prompt += `  Position Context: ${position.prompt}\n`;
     }
   }
 
+  if (patterns) {
+    prompt += `\n${describePatterns(patterns, cards)}`;
+  }
+
+  if (combinations && combinations.length > 0) {
+    prompt += "\nNotable combinations:\n";
+    for (const combination of combinations) {
+      prompt += `- ${combination.title}: ${combination.meaning}\n`;
+    }
+  }
+
   // Add user question if provided
   if (question) {
     prompt += `\n\nUser's Question: ${question}\n`;
   }
 
+  return prompt;
+}
+
+/**
+ * Build prompt text for the narrative provider
+ * The reading description followed by output instructions for the requested format
+ */
+function buildPrompt(request: AiReadingRequest): string {
+  const focus = request.focusCategory ? CATEGORY_NAMES[request.focusCategory] : null;
+  let prompt = describeReading(request);
+
+  if (request.outputFormat === "json") {
+    if (focus) {
+      prompt += `\n\nFrame every card through ${focus}, drawing on each card's meaning for it.`;
+    }
+    prompt += structuredNarrativeInstructions(request.cards);
+    return prompt;
+  }
+
   // Add output instructions
   prompt += `\n\nPlease provide a cohesive narrative reading that:\n`;
   prompt += `1. Integrates all cards and their positions into a meaningful story\n`;
   prompt += `2. Addresses the user's question if provided\n`;
-  prompt += `3. Maintains a supportive, calm, and heavenly tone\n`;
+  prompt += `3. Maintains ${NARRATIVE_TONES[request.tone].voice}\n`;
   prompt += `4. Includes a brief disclaimer about entertainment/reflection purposes\n`;
   prompt += `5. Concludes with 3-5 short bullet points of key takeaways\n`;
+  if (focus) {
+    prompt += `6. Frames every card through ${focus}, drawing on each card's meaning for it\n`;
+  }
   prompt += `\nFormat your response as a single narrative paragraph followed by bullet points.`;
 
   return prompt;
 }
 
 /**
- * Generate tarot reading narrative using OpenAI
- * Uses Responses API (gpt-4o-mini or similar model)
+ * Ask for JSON, validate it, and ask the model to fix invalid output
+ * With onDelta the first answer is streamed as raw JSON; a repair answer is not,
+ * and the client takes the validated narrative from the result either way.
+ * Throws StructuredNarrativeError when no attempt validates
  */
-export async function generateTarotNarrative(
-  request: AiReadingRequest
-): Promise<string> {
+async function generateStructuredNarrative(
+  provider: NarrativeProvider,
+  narrativeRequest: NarrativeRequest,
+  request: AiReadingRequest,
+  requestId: string,
+  onDelta?: NarrativeDeltaHandler
+): Promise<{ output: NarrativeOutput; result: NarrativeResult }> {
+  const messages = [...narrativeRequest.messages];
+  let issues: string[] = [];
+  for (let attempt = 1; attempt <= MAX_JSON_ATTEMPTS; attempt++) {
+    const result =
+      onDelta && attempt === 1
+        ? await provider.stream({ ...narrativeRequest, messages }, onDelta)
+        : await provider.generate({ ...narrativeRequest, messages });
+    const parsed = parseStructuredNarrative(result.text, request.cards);
+    if (parsed.success) {
+      return {
+        output: {
+          aiNarrative: formatStructuredNarrative(parsed.narrative),
+          structuredNarrative: parsed.narrative,
+        },
+        result,
+      };
+    }
+
+    issues = parsed.issues;
+    logger.warn("ai.reading.json.invalid", {
+      requestId,
+      readingId: request.readingId,
+      attempt,
+      issues,
+    });
+    messages.push(
+      { role: "assistant", content: result.text },
+      {
+        role: "user",
+        content: `That response was not valid: ${issues.join("; ")}. Reply again with only the corrected JSON object.`,
+      }
+    );
+  }
+  throw new StructuredNarrativeError(issues);
+}
+
+/**
+ * Run the prompt through the configured provider, streaming when onDelta is given
+ * JSON output streams as raw JSON text and is validated once complete.
+ */
+async function runNarrative(
+  request: AiReadingRequest,
+  signal?: AbortSignal,
+  onDelta?: NarrativeDeltaHandler
+): Promise<NarrativeOutput> {
   const requestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
   logger.info("ai.reading.request", {
@@ -73,52 +264,152 @@ export async function generateTarotNarrative(
     spreadId: request.spread.id,
     cardCount: request.cards.length,
     hasQuestion: !!request.question,
+    hasSignificator: !!request.significator,
+    focusCategory: request.focusCategory ?? null,
+    outputFormat: request.outputFormat,
+    tone: request.tone,
+    toneVersion: NARRATIVE_TONES[request.tone].version,
+    streaming: !!onDelta,
   });
 
   try {
-    const promptText = buildPrompt(request);
-
-    // Use OpenAI Responses API
-    // Note: If Responses API is not available, fall back to Chat Completions
-    // For now, we'll use chat completions as Responses API may not be available yet
-    const response = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL || "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a compassionate and insightful tarot reader. Provide readings in a heavenly, clean, calm, and supportive tone. Always include a disclaimer that readings are for reflection and entertainment purposes only, not medical, legal, or financial advice.",
-        },
-        {
-          role: "user",
-          content: promptText,
-        },
-      ],
-      temperature: 0.7,
-      max_tokens: 1000,
-    });
-
-    const narrative = response.choices[0]?.message?.content;
+    const { config, provider } = getNarrativeProvider();
+    const narrativeRequest: NarrativeRequest = {
+      system: toneSystemPrompt(NARRATIVE_TONES[request.tone]),
+      messages: [{ role: "user", content: buildPrompt(request) }],
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      signal,
+    };
 
-    if (!narrative) {
-      throw new Error("No narrative generated from OpenAI");
+    let output: NarrativeOutput;
+    let result: NarrativeResult;
+    if (request.outputFormat === "json") {
+      ({ output, result } = await generateStructuredNarrative(
+        provider,
+        narrativeRequest,
+        request,
+        requestId,
+        onDelta
+      ));
+    } else {
+      result = onDelta
+        ? await provider.stream(narrativeRequest, onDelta)
+        : await provider.generate(narrativeRequest);
+      output = { aiNarrative: result.text };
     }
 
     logger.info("ai.reading.success", {
       requestId,
       readingId: request.readingId,
-      tokensUsed: response.usage?.total_tokens,
+      provider: result.provider,
+      model: result.model,
+      tokensUsed: result.tokensUsed,
     });
 
-    return narrative;
+    return output;
   } catch (error) {
-    logger.error("ai.reading.error", {
+    if (signal?.aborted) {
+      logger.info("ai.reading.aborted", {
+        requestId,
+        readingId: request.readingId,
+      });
+    } else {
+      logger.error("ai.reading.error", {
+        requestId,
+        readingId: request.readingId,
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generate tarot reading narrative with the configured provider
+ * Pass a signal to cancel the upstream call
+ */
+export async function generateTarotNarrative(
+  request: AiReadingRequest,
+  signal?: AbortSignal
+): Promise<NarrativeOutput> {
+  return runNarrative(request, signal);
+}
+
+/**
+ * Stream tarot reading narrative, calling onDelta with each piece of text
+ * Resolves with the full narrative; abort the signal to cancel the upstream call.
+ * JSON output sends raw JSON deltas and resolves once validated.
+ */
+export async function streamTarotNarrative(
+  request: AiReadingRequest,
+  onDelta: NarrativeDeltaHandler,
+  signal?: AbortSignal
+): Promise<NarrativeOutput> {
+  return runNarrative(request, signal, onDelta);
+}
+
+/**
+ * Answer a follow-up question about a reading
+ * The reading and its narrative go in the system prompt so they always survive
+ * history trimming; older messages are dropped to fit the configured token budget.
+ */
+export async function answerReadingQuestion(
+  request: AiChatRequest,
+  signal?: AbortSignal
+): Promise<string> {
+  const requestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const { reading } = request;
+
+  try {
+    const { config, provider } = getNarrativeProvider();
+    const history = trimHistoryToTokens(request.messages, config.chatHistoryTokens);
+
+    logger.info("ai.chat.request", {
       requestId,
-      readingId: request.readingId,
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
+      readingId: reading.readingId,
+      tone: reading.tone,
+      messageCount: request.messages.length,
+      keptMessages: history.length,
     });
+
+    let system = `${toneSystemPrompt(NARRATIVE_TONES[reading.tone])}\n\n`;
+    system += `You are answering follow-up questions about a tarot reading you gave. `;
+    system += `Stay grounded in the cards below, keep answers to a few short paragraphs, `;
+    system += `and gently decline questions unrelated to the reading.\n\n`;
+    system += describeReading(reading);
+    if (request.narrative) {
+      system += `\n\nYour reading:\n${request.narrative}`;
+    }
+
+    const result = await provider.generate({
+      system,
+      messages: history,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      signal,
+    });
+
+    logger.info("ai.chat.success", {
+      requestId,
+      readingId: reading.readingId,
+      provider: result.provider,
+      model: result.model,
+      tokensUsed: result.tokensUsed,
+    });
+
+    return result.text;
+  } catch (error) {
+    if (signal?.aborted) {
+      logger.info("ai.chat.aborted", { requestId, readingId: reading.readingId });
+    } else {
+      logger.error("ai.chat.error", {
+        requestId,
+        readingId: reading.readingId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
     throw error;
   }
 }
-
@@ -0,0 +1,39 @@
+/**
+ * Chat history - Keep follow-up conversations within a token budget
+ * Token counts are estimated from length (about 4 characters per token), which
+ * is close enough across providers to keep requests under their limits.
+ */
+
+import type { NarrativeMessage } from "../types/narrative";
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Rough token count for a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Most recent messages that fit in maxTokens, oldest first
+ * The latest message is always kept, and the result always starts with a user
+ * message (some providers reject a conversation that opens with the assistant).
+ */
+export function trimHistoryToTokens(
+  messages: NarrativeMessage[],
+  maxTokens: number
+): NarrativeMessage[] {
+  let start = messages.length - 1;
+  let tokens = estimateTokens(messages[start]?.content ?? "");
+  while (start > 0) {
+    const next = tokens + estimateTokens(messages[start - 1].content);
+    if (next > maxTokens) break;
+    tokens = next;
+    start--;
+  }
+  while (start < messages.length - 1 && messages[start].role !== "user") {
+    start++;
+  }
+  return messages.slice(start);
+}
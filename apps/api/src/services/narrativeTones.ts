@@ -0,0 +1,85 @@
+/**
+ * Narrative tones - Catalog of reader personas
+ * Each tone is a versioned prompt template. Bump a tone's version whenever its
+ * wording changes so logged readings can be traced to the prompt that wrote them.
+ */
+
+import type { NarrativeTone } from "../types/ai";
+
+/**
+ * Prompt template for one tone
+ */
+export interface NarrativeToneTemplate {
+  id: NarrativeTone;
+  version: number;
+  /** Who the model is and how it speaks (system prompt) */
+  persona: string;
+  /** How the tone is described in the reading instructions */
+  voice: string;
+}
+
+/**
+ * Safety rule appended to every persona
+ */
+const DISCLAIMER_RULE =
+  "Always include a disclaimer that readings are for reflection and entertainment purposes only, not medical, legal, or financial advice.";
+
+export const NARRATIVE_TONES: Record<NarrativeTone, NarrativeToneTemplate> = {
+  heavenly_clean: {
+    id: "heavenly_clean",
+    version: 1,
+    persona:
+      "You are a compassionate and insightful tarot reader. Provide readings in a heavenly, clean, calm, and supportive tone.",
+    voice: "a supportive, calm, and heavenly tone",
+  },
+  practical_coach: {
+    id: "practical_coach",
+    version: 1,
+    persona:
+      "You are a grounded life coach who reads tarot. Turn each card into concrete, doable next steps, and keep the language plain and encouraging.",
+    voice: "a practical, encouraging coaching tone focused on actionable steps",
+  },
+  poetic_mystic: {
+    id: "poetic_mystic",
+    version: 1,
+    persona:
+      "You are a poetic mystic who reads tarot. Speak in vivid imagery and gentle metaphor, weaving the cards into a lyrical story while staying clear enough to follow.",
+    voice: "a lyrical, image-rich mystical tone",
+  },
+  blunt_direct: {
+    id: "blunt_direct",
+    version: 1,
+    persona:
+      "You are a blunt, no-nonsense tarot reader. Say plainly what the cards suggest, including uncomfortable truths, without cruelty or fatalism. Keep it short.",
+    voice: "a direct, concise, honest tone without sugar-coating",
+  },
+  jungian: {
+    id: "jungian",
+    version: 1,
+    persona:
+      "You are a tarot reader with a Jungian, psychological lens. Read the cards as archetypes, shadow material and inner dynamics, and invite self-reflection rather than predicting events.",
+    voice: "a reflective, psychological tone that treats cards as archetypes",
+  },
+  kid_friendly: {
+    id: "kid_friendly",
+    version: 1,
+    persona:
+      "You are a warm storyteller reading tarot for a young audience. Use simple words, short sentences and hopeful framing, and avoid frightening imagery, romance and adult themes.",
+    voice: "a simple, cheerful, kid-friendly tone",
+  },
+};
+
+/**
+ * Tone IDs accepted by the API, for the request schema
+ */
+export const NARRATIVE_TONE_IDS = Object.keys(NARRATIVE_TONES) as [
+  NarrativeTone,
+  ...NarrativeTone[],
+];
+
+/**
+ * System prompt for a tone: its persona plus the shared disclaimer rule
+ */
+export function toneSystemPrompt(template: NarrativeToneTemplate): string {
+  return `${template.persona} ${DISCLAIMER_RULE}`;
+}
@@ -0,0 +1,80 @@
+import { createMockProvider } from "../mockProvider";
+import {
+  parseStructuredNarrative,
+  structuredNarrativeInstructions,
+} from "../../structuredNarrative";
+import type { AiReadingRequest } from "../../../types/ai";
+import type { NarrativeRequest } from "../../../types/narrative";
+
+const cards: AiReadingRequest["cards"] = [
+  {
+    cardId: "fool",
+    name: "The Fool",
+    positionIndex: 0,
+    positionLabel: "Past",
+    isReversed: false,
+    meaning: "",
+    description: "",
+  },
+  {
+    cardId: "star",
+    name: "The Star",
+    positionIndex: 1,
+    positionLabel: "Present",
+    isReversed: false,
+    meaning: "",
+    description: "",
+  },
+];
+
+const READING_PROMPT = "Cards drawn:\n- The Fool — Past\n- The Star — Present";
+
+function request(prompt: string): NarrativeRequest {
+  return {
+    system: "",
+    messages: [{ role: "user", content: prompt }],
+    temperature: 0.7,
+    maxTokens: 1000,
+  };
+}
+
+describe("createMockProvider", () => {
+  it("gives the same narrative for the same request", async () => {
+    const provider = createMockProvider();
+    const first = await provider.generate(request(READING_PROMPT));
+    const second = await provider.generate(request(READING_PROMPT));
+    expect(first).toEqual(second);
+    expect(first.text).toContain("The Fool in Past, then The Star in Present");
+    expect(first.provider).toBe("mock");
+  });
+
+  it("streams exactly the text it would generate", async () => {
+    const provider = createMockProvider();
+    const deltas: string[] = [];
+    const streamed = await provider.stream(request(READING_PROMPT), (delta) =>
+      deltas.push(delta)
+    );
+    const generated = await provider.generate(request(READING_PROMPT));
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join("")).toBe(generated.text);
+    expect(streamed.text).toBe(generated.text);
+  });
+
+  it("answers JSON prompts with a narrative that validates", async () => {
+    const provider = createMockProvider();
+    const prompt = READING_PROMPT + structuredNarrativeInstructions(cards);
+    const result = await provider.generate(request(prompt));
+    const parsed = parseStructuredNarrative(result.text, cards);
+    expect(parsed.success).toBe(true);
+    if (!parsed.success) return;
+    expect(parsed.narrative.positions[1].interpretation).toMatch(/^The Star in Present/);
+  });
+
+  it("stops when the request is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      createMockProvider().generate({ ...request(READING_PROMPT), signal: controller.signal })
+    ).rejects.toThrow("Request aborted");
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Anthropic narrative provider
+ * Uses the Messages API; the system prompt is a top-level field rather than a message.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type {
+  NarrativeDeltaHandler,
+  NarrativeProvider,
+  NarrativeRequest,
+  NarrativeResult,
+} from "../../types/narrative";
+
+export interface AnthropicProviderOptions {
+  model: string;
+  apiKey: string;
+  timeoutMs: number;
+}
+
+/**
+ * Create a provider backed by Anthropic's Messages API
+ */
+export function createAnthropicProvider(
+  options: AnthropicProviderOptions
+): NarrativeProvider {
+  const client = new Anthropic({
+    apiKey: options.apiKey,
+    timeout: options.timeoutMs,
+    maxRetries: 1,
+  });
+
+  return {
+    name: "anthropic",
+    model: options.model,
+    async generate(request: NarrativeRequest): Promise<NarrativeResult> {
+      const response = await client.messages.create(
+        {
+          model: options.model,
+          system: request.system,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+        },
+        { signal: request.signal }
+      );
+
+      const text = response.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("")
+        .trim();
+      if (!text) {
+        throw new Error("No narrative generated from anthropic");
+      }
+
+      return {
+        text,
+        provider: "anthropic",
+        model: response.model,
+        tokensUsed: response.usage.input_tokens + response.usage.output_tokens,
+      };
+    },
+    async stream(
+      request: NarrativeRequest,
+      onDelta: NarrativeDeltaHandler
+    ): Promise<NarrativeResult> {
+      const stream = await client.messages.create(
+        {
+          model: options.model,
+          system: request.system,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          stream: true,
+        },
+        { signal: request.signal }
+      );
+
+      let text = "";
+      let model = options.model;
+      let inputTokens = 0;
+      let outputTokens = 0;
+      for await (const event of stream) {
+        if (event.type === "message_start") {
+          model = event.message.model;
+          inputTokens = event.message.usage.input_tokens;
+        } else if (event.type === "message_delta") {
+          outputTokens = event.usage.output_tokens;
+        } else if (
+          event.type === "content_block_delta" &&
+          event.delta.type === "text_delta"
+        ) {
+          text += event.delta.text;
+          onDelta(event.delta.text);
+        }
+      }
+      if (!text.trim()) {
+        throw new Error("No narrative generated from anthropic");
+      }
+
+      return {
+        text,
+        provider: "anthropic",
+        model,
+        tokensUsed: inputTokens + outputTokens,
+      };
+    },
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Narrative providers
+ * Builds the configured provider chain and wraps it in failover:
+ * each provider is tried in order until one succeeds.
+ */
+
+import { logger } from "../../utils/logger";
+import type { AiConfig, ProviderConfig } from "../../config/ai";
+import type {
+  NarrativeDeltaHandler,
+  NarrativeProvider,
+  NarrativeRequest,
+  NarrativeResult,
+} from "../../types/narrative";
+import { createAnthropicProvider } from "./anthropicProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAiProvider } from "./openaiProvider";
+
+/**
+ * Create a single provider from its config
+ */
+export function createProvider(
+  config: ProviderConfig,
+  timeoutMs: number
+): NarrativeProvider {
+  switch (config.name) {
+    case "openai":
+      return createOpenAiProvider({ ...config, timeoutMs });
+    case "local":
+      return createOpenAiProvider({ ...config, timeoutMs });
+    case "anthropic":
+      return createAnthropicProvider({ ...config, timeoutMs });
+    case "mock":
+      return createMockProvider();
+  }
+}
+
+/**
+ * Try providers in order, falling through on failure
+ * Aborted requests are not retried on the next provider, and neither is a
+ * stream that already sent text (the client would see it twice).
+ * Throws the last provider's error when all fail.
+ */
+export function createFailoverProvider(
+  providers: NarrativeProvider[]
+): NarrativeProvider {
+  const [primary] = providers;
+  return {
+    name: primary.name,
+    model: primary.model,
+    async generate(request: NarrativeRequest): Promise<NarrativeResult> {
+      let lastError: unknown;
+      for (const provider of providers) {
+        try {
+          return await provider.generate(request);
+        } catch (error) {
+          lastError = error;
+          if (request.signal?.aborted) break;
+          logger.warn("ai.provider.failed", {
+            provider: provider.name,
+            model: provider.model,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      throw lastError;
+    },
+    async stream(
+      request: NarrativeRequest,
+      onDelta: NarrativeDeltaHandler
+    ): Promise<NarrativeResult> {
+      let lastError: unknown;
+      for (const provider of providers) {
+        let sentText = false;
+        try {
+          return await provider.stream(request, (text) => {
+            sentText = true;
+            onDelta(text);
+          });
+        } catch (error) {
+          lastError = error;
+          if (request.signal?.aborted || sentText) break;
+          logger.warn("ai.provider.failed", {
+            provider: provider.name,
+            model: provider.model,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      throw lastError;
+    },
+  };
+}
+
+/**
+ * Build the provider chain described by the AI config
+ */
+export function createNarrativeProvider(config: AiConfig): NarrativeProvider {
+  const providers = config.providers.map((provider) =>
+    createProvider(provider, config.timeoutMs)
+  );
+  return providers.length === 1 ? providers[0] : createFailoverProvider(providers);
+}
@@ -0,0 +1,131 @@
+/**
+ * Mock narrative provider
+ * Deterministic offline text for tests, demos and development without API keys.
+ * The same request always produces the same narrative.
+ */
+
+import type {
+  NarrativeDeltaHandler,
+  NarrativeProvider,
+  NarrativeRequest,
+  NarrativeResult,
+} from "../../types/narrative";
+
+const OPENINGS = [
+  "The cards settle into a quiet, unhurried story.",
+  "A gentle thread runs through this spread.",
+  "This reading unfolds like a calm morning.",
+];
+
+const DISCLAIMER =
+  "This reading is for reflection and entertainment only, not medical, legal, or financial advice.";
+
+/**
+ * Small stable string hash (FNV-1a) used to pick phrasing
+ */
+function hashText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Card lines from the reading prompt, formatted "- Name — Position"
+ */
+function cardLines(prompt: string): string[] {
+  return prompt
+    .split("\n")
+    .map((line) => line.match(/^- (.+) — (.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => `${match[1]} in ${match[2]}`);
+}
+
+const TAKEAWAYS = [
+  "Notice what feels steady",
+  "Let one small step be enough",
+  "Return to this reading when you need it",
+];
+
+/**
+ * Position indexes a JSON prompt asks for ("... position indexes: 0 (Past), 1 (Present).")
+ * Null when the prompt wants text
+ */
+function requestedPositions(prompt: string): number[] | null {
+  const line = prompt.match(/position indexes: (.+)\.$/m);
+  if (!line) return null;
+  return Array.from(line[1].matchAll(/(\d+) \(/g), (match) => Number(match[1]));
+}
+
+/**
+ * Narrative for a request: an opening picked from the prompt, the cards in order, a disclaimer and takeaways
+ * JSON prompts get the same content as a structured object.
+ */
+function mockNarrative(request: NarrativeRequest): string {
+  // The reading prompt is the first message; later ones are follow-ups
+  const prompt = request.messages[0]?.content ?? "";
+  const opening = OPENINGS[hashText(prompt) % OPENINGS.length];
+  const cards = cardLines(prompt);
+
+  const positions = requestedPositions(prompt);
+  if (positions) {
+    return JSON.stringify({
+      overview: opening,
+      positions: positions.map((positionIndex, i) => ({
+        positionIndex,
+        interpretation: `${cards[i] ?? "This card"} asks for patience and a gentle eye.`,
+      })),
+      advice: "Move at your own pace.",
+      takeaways: TAKEAWAYS,
+      disclaimer: DISCLAIMER,
+    });
+  }
+
+  let text = opening;
+  if (cards.length > 0) {
+    text += ` ${cards.join(", then ")} invite you to move at your own pace.`;
+  }
+  text += ` ${DISCLAIMER}\n\n`;
+  text += TAKEAWAYS.map((takeaway) => `- ${takeaway}`).join("\n");
+  return text;
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error("Request aborted");
+  }
+}
+
+/**
+ * Create the offline provider
+ */
+export function createMockProvider(): NarrativeProvider {
+  return {
+    name: "mock",
+    model: "mock",
+    async generate(request: NarrativeRequest): Promise<NarrativeResult> {
+      throwIfAborted(request.signal);
+      return {
+        text: mockNarrative(request),
+        provider: "mock",
+        model: "mock",
+        tokensUsed: 0,
+      };
+    },
+    async stream(
+      request: NarrativeRequest,
+      onDelta: NarrativeDeltaHandler
+    ): Promise<NarrativeResult> {
+      const text = mockNarrative(request);
+      // Word by word, yielding between words like a real stream
+      for (const delta of text.match(/\S+\s*/g) ?? []) {
+        throwIfAborted(request.signal);
+        onDelta(delta);
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      return { text, provider: "mock", model: "mock", tokensUsed: 0 };
+    },
+  };
+}
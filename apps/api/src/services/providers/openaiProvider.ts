@@ -0,0 +1,104 @@
+/**
+ * OpenAI narrative provider
+ * Uses Chat Completions, which OpenAI-compatible local servers (Ollama,
+ * llama.cpp, LM Studio, vLLM) also implement, so the same client serves both.
+ */
+
+import OpenAI from "openai";
+import type {
+  NarrativeDeltaHandler,
+  NarrativeProvider,
+  NarrativeProviderName,
+  NarrativeRequest,
+  NarrativeResult,
+} from "../../types/narrative";
+
+export interface OpenAiProviderOptions {
+  name: Extract<NarrativeProviderName, "openai" | "local">;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  timeoutMs: number;
+}
+
+/**
+ * Create a provider backed by an OpenAI-compatible Chat Completions endpoint
+ */
+export function createOpenAiProvider(options: OpenAiProviderOptions): NarrativeProvider {
+  const client = new OpenAI({
+    // Local servers ignore the key but the client insists on one
+    apiKey: options.apiKey ?? "not-needed",
+    baseURL: options.baseUrl,
+    timeout: options.timeoutMs,
+    maxRetries: 1,
+  });
+
+  return {
+    name: options.name,
+    model: options.model,
+    async generate(request: NarrativeRequest): Promise<NarrativeResult> {
+      const response = await client.chat.completions.create(
+        {
+          model: options.model,
+          messages: [
+            { role: "system", content: request.system },
+            ...request.messages,
+          ],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+        },
+        { signal: request.signal }
+      );
+
+      const text = response.choices[0]?.message?.content;
+      if (!text) {
+        throw new Error(`No narrative generated from ${options.name}`);
+      }
+
+      return {
+        text,
+        provider: options.name,
+        model: response.model || options.model,
+        tokensUsed: response.usage?.total_tokens,
+      };
+    },
+    async stream(
+      request: NarrativeRequest,
+      onDelta: NarrativeDeltaHandler
+    ): Promise<NarrativeResult> {
+      const stream = await client.chat.completions.create(
+        {
+          model: options.model,
+          messages: [
+            { role: "system", content: request.system },
+            ...request.messages,
+          ],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          stream: true,
+          // Local servers may not send usage; tokensUsed is then left unset
+          stream_options: { include_usage: true },
+        },
+        { signal: request.signal }
+      );
+
+      let text = "";
+      let model = options.model;
+      let tokensUsed: number | undefined;
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+        tokensUsed = chunk.usage?.total_tokens ?? tokensUsed;
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      }
+      if (!text) {
+        throw new Error(`No narrative generated from ${options.name}`);
+      }
+
+      return { text, provider: options.name, model, tokensUsed };
+    },
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Structured narrative - JSON output format for AI readings
+ * Describes the expected JSON to the model, validates what comes back with Zod,
+ * repairs common formatting slips and renders the parts as plain text.
+ */
+
+import { z } from "zod";
+import type { AiReadingRequest, StructuredNarrative } from "../types/ai";
+
+/**
+ * Zod schema for the model's JSON output
+ */
+export const StructuredNarrativeSchema = z.object({
+  overview: z.string().trim().min(1),
+  positions: z
+    .array(
+      z.object({
+        positionIndex: z.number().int().min(0),
+        interpretation: z.string().trim().min(1),
+      })
+    )
+    .min(1),
+  advice: z.string().trim().min(1),
+  takeaways: z.array(z.string().trim().min(1)).min(1).max(5),
+  disclaimer: z.string().trim().min(1),
+});
+
+/**
+ * Result of parsing model output
+ */
+export type StructuredNarrativeParse =
+  | { success: true; narrative: StructuredNarrative }
+  | { success: false; issues: string[] };
+
+/**
+ * Thrown when the model never produced valid JSON, even after a retry
+ */
+export class StructuredNarrativeError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid structured narrative: ${issues.join("; ")}`);
+    this.name = "StructuredNarrativeError";
+  }
+}
+
+/**
+ * Prompt instructions asking for JSON, listing the position indexes to cover
+ */
+export function structuredNarrativeInstructions(
+  cards: AiReadingRequest["cards"]
+): string {
+  const positions = cards
+    .map((card) => `${card.positionIndex} (${card.positionLabel})`)
+    .join(", ");
+
+  let text = `\n\nRespond with only a JSON object, no markdown or code fences, in this shape:\n`;
+  text += `{\n`;
+  text += `  "overview": "a cohesive narrative paragraph integrating all cards",\n`;
+  text += `  "positions": [{ "positionIndex": 0, "interpretation": "what this card means in this position" }],\n`;
+  text += `  "advice": "one or two sentences of gentle guidance",\n`;
+  text += `  "takeaways": ["3-5 short key takeaways"],\n`;
+  text += `  "disclaimer": "reflection and entertainment only, not medical, legal, or financial advice"\n`;
+  text += `}\n`;
+  text += `Include exactly one "positions" entry for each of these position indexes: ${positions}.`;
+  return text;
+}
+
+/**
+ * Parse the JSON object in model text
+ * Strips code fences and text around the object; if that still doesn't parse,
+ * retries with trailing commas removed, then with smart quotes straightened too.
+ */
+function parseJsonObject(text: string): unknown {
+  let json = text.replace(/```(?:json)?/gi, "");
+  const start = json.indexOf("{");
+  const end = json.lastIndexOf("}");
+  if (start !== -1 && end > start) {
+    json = json.slice(start, end + 1);
+  }
+  const withoutTrailingCommas = json.replace(/,\s*([}\]])/g, "$1");
+  const repairs = [
+    json,
+    withoutTrailingCommas,
+    withoutTrailingCommas.replace(/[“”]/g, '"'),
+  ];
+  let lastError: unknown;
+  for (const candidate of repairs) {
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Parse and validate model output against the cards that were drawn
+ * Every drawn position must be interpreted exactly once.
+ */
+export function parseStructuredNarrative(
+  text: string,
+  cards: AiReadingRequest["cards"]
+): StructuredNarrativeParse {
+  let raw: unknown;
+  try {
+    raw = parseJsonObject(text);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`not valid JSON (${error instanceof Error ? error.message : String(error)})`],
+    };
+  }
+
+  const parsed = StructuredNarrativeSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.errors.map(
+        (issue) => `${issue.path.join(".") || "root"}: ${issue.message}`
+      ),
+    };
+  }
+
+  const expected = new Set(cards.map((card) => card.positionIndex));
+  const seen = new Set<number>();
+  const issues: string[] = [];
+  for (const position of parsed.data.positions) {
+    if (!expected.has(position.positionIndex)) {
+      issues.push(`positions: unexpected positionIndex ${position.positionIndex}`);
+    } else if (seen.has(position.positionIndex)) {
+      issues.push(`positions: duplicate positionIndex ${position.positionIndex}`);
+    }
+    seen.add(position.positionIndex);
+  }
+  for (const positionIndex of expected) {
+    if (!seen.has(positionIndex)) {
+      issues.push(`positions: missing positionIndex ${positionIndex}`);
+    }
+  }
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  return {
+    success: true,
+    narrative: {
+      ...parsed.data,
+      positions: [...parsed.data.positions].sort(
+        (a, b) => a.positionIndex - b.positionIndex
+      ),
+    },
+  };
+}
+
+/**
+ * Plain-text rendering of a structured narrative, in the "text" format's layout
+ * (paragraph, advice, bullets, disclaimer), for history, export and sharing
+ */
+export function formatStructuredNarrative(narrative: StructuredNarrative): string {
+  return [
+    narrative.overview,
+    narrative.advice,
+    narrative.takeaways.map((takeaway) => `- ${takeaway}`).join("\n"),
+    narrative.disclaimer,
+  ].join("\n\n");
+}
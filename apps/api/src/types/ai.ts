@@ -3,6 +3,41 @@
  * Matches the contract defined in the mobile app
  */
 
+/**
+ * Reading patterns computed on-device (suit/element balance, numerology, dignities)
+ */
+export interface ReadingPatterns {
+  suits: Record<string, number>;
+  elements: Record<string, number>;
+  majorCount: number;
+  minorCount: number;
+  courtCardIds: string[];
+  repeatedNumbers: Array<{ number: number; cardIds: string[] }>;
+  numerology: { total: number; reduced: number; cardId?: string };
+  dignities: Array<{
+    fromPositionIndex: number;
+    toPositionIndex: number;
+    elements: [string, string];
+    dignity: "strengthening" | "friendly" | "neutral" | "weakening";
+  }>;
+}
+
+/**
+ * Area of life a reading can focus on (matches the card category meanings)
+ */
+export type ReadingCategory = "love" | "health" | "moneyCareer" | "spirituality";
+
+/**
+ * Voice the narrative is written in; each has a prompt template in narrativeTones
+ */
+export type NarrativeTone =
+  | "heavenly_clean"
+  | "practical_coach"
+  | "poetic_mystic"
+  | "blunt_direct"
+  | "jungian"
+  | "kid_friendly";
+
 /**
  * Request body for AI reading generation
  */
@@ -25,9 +60,52 @@ export interface AiReadingRequest {
     isReversed: boolean;
     meaning: string;
     description: string;
+    /** Meaning for the reading's focus category, when it has one */
+    categoryMeaning?: string;
   }>;
-  tone: "heavenly_clean";
-  outputFormat: "text";
+  /** Area of life the narrative should be framed around */
+  focusCategory?: ReadingCategory;
+  /** Card set aside to represent the querent, for spreads with a significator slot */
+  significator?: {
+    cardId: string;
+    name: string;
+    label: string;
+    prompt: string;
+    meaning: string;
+  };
+  /** Patterns computed on-device from the spread cards */
+  patterns?: ReadingPatterns;
+  /** Notable pairs, triads and repeated ranks found in the draw */
+  combinations?: Array<{
+    kind: "pair" | "triad" | "rank";
+    title: string;
+    meaning: string;
+  }>;
+  tone: NarrativeTone;
+  /** "text": paragraph plus bullets; "json": a StructuredNarrative */
+  outputFormat: NarrativeOutputFormat;
+}
+
+/**
+ * Reading details shared by narrative and chat requests
+ */
+export type AiReadingContext = Omit<AiReadingRequest, "outputFormat">;
+
+/**
+ * Shape of the generated narrative
+ */
+export type NarrativeOutputFormat = "text" | "json";
+
+/**
+ * Narrative split into parts, returned for outputFormat "json"
+ */
+export interface StructuredNarrative {
+  overview: string;
+  /** One interpretation per drawn card, matched by positionIndex */
+  positions: Array<{ positionIndex: number; interpretation: string }>;
+  advice: string;
+  takeaways: string[];
+  disclaimer: string;
 }
 
 /**
@@ -35,6 +113,47 @@ export interface AiReadingRequest {
  */
 export interface AiReadingResponse {
   readingId: string;
+  /** Narrative as plain text; for "json" output, the structured parts joined up */
   aiNarrative: string;
+  /** Present when outputFormat is "json" */
+  structuredNarrative?: StructuredNarrative;
 }
 
+
+/**
+ * Server-Sent Events from POST /v1/ai/reading/stream, in order:
+ * one start, any number of delta, then either done or error
+ */
+export type AiReadingStreamEvent =
+  | { event: "start"; data: { readingId: string } }
+  | { event: "delta"; data: { readingId: string; text: string } }
+  | { event: "done"; data: AiReadingResponse }
+  | { event: "error"; data: { readingId: string; error: string; requestId: string } };
+
+/**
+ * One message in a follow-up conversation about a reading
+ */
+export interface AiChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Request body for POST /v1/ai/reading/:readingId/messages
+ * The API keeps no state, so the client sends the reading and the whole conversation
+ */
+export interface AiChatRequest {
+  reading: AiReadingContext;
+  /** Narrative already shown for the reading, if any */
+  narrative?: string;
+  /** Conversation so far, oldest first, ending with the user's new question */
+  messages: AiChatMessage[];
+}
+
+/**
+ * Response from the follow-up chat endpoint
+ */
+export interface AiChatResponse {
+  readingId: string;
+  message: AiChatMessage;
+}
@@ -0,0 +1,15 @@
+/**
+ * Shared API response types
+ * Shapes every route uses, whatever the endpoint
+ */
+
+/**
+ * JSON body of a failed request
+ */
+export interface ApiErrorResponse {
+  error: string;
+  /** Validation issues, for 400 responses */
+  details?: unknown;
+  /** ID to quote when reporting the failure, matching the server logs */
+  requestId?: string;
+}
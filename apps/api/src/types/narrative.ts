@@ -0,0 +1,64 @@
+/**
+ * Narrative provider types
+ * The contract every text-generation backend (OpenAI, Anthropic, local, mock) implements
+ */
+
+/**
+ * Backends the API can generate narratives with
+ * - openai: OpenAI Chat Completions
+ * - anthropic: Anthropic Messages
+ * - local: any OpenAI-compatible server (Ollama, llama.cpp, LM Studio, vLLM)
+ * - mock: deterministic offline text, for tests and running without a network
+ */
+export type NarrativeProviderName = "openai" | "anthropic" | "local" | "mock";
+
+/**
+ * One turn of the conversation sent to the model
+ */
+export interface NarrativeMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * A generation request, independent of the vendor
+ */
+export interface NarrativeRequest {
+  /** Instructions that frame every turn (persona, tone, safety) */
+  system: string;
+  /** Conversation so far, oldest first; the last message is the user's */
+  messages: NarrativeMessage[];
+  temperature: number;
+  maxTokens: number;
+  /** Aborts the upstream call, e.g. when the client goes away */
+  signal?: AbortSignal;
+}
+
+/**
+ * Generated text and where it came from
+ */
+export interface NarrativeResult {
+  text: string;
+  provider: NarrativeProviderName;
+  model: string;
+  tokensUsed?: number;
+}
+
+/**
+ * Receives each piece of text as the model produces it
+ */
+export type NarrativeDeltaHandler = (text: string) => void;
+
+/**
+ * A text-generation backend
+ */
+export interface NarrativeProvider {
+  readonly name: NarrativeProviderName;
+  readonly model: string;
+  generate(request: NarrativeRequest): Promise<NarrativeResult>;
+  /** Like generate, but reports text deltas as they arrive; resolves with the full text */
+  stream(
+    request: NarrativeRequest,
+    onDelta: NarrativeDeltaHandler
+  ): Promise<NarrativeResult>;
+}
@@ -12,6 +12,8 @@ import { initializeTarotData } from "../data/tarot/loader";
 import { initializeAiService, initializeSolanaService } from "../services";
 import { initializeIap } from "../services/iapService";
 import { getAppConfig } from "../config/appConfig";
+import { useReadingSettingsStore } from "../state/readingSettingsStore";
+import { useCustomSpreadStore } from "../state/customSpreadStore";
 import { logger } from "../core/logger";
 
 /**
@@ -25,6 +27,12 @@ async function initializeApp() {
     await initializeTarotData();
     logger.info("app.init.tarot.loaded");
 
+    // Load saved reading preferences
+    await useReadingSettingsStore.getState().hydrate();
+
+    // Load user-designed spreads
+    await useCustomSpreadStore.getState().hydrate();
+
     // Load app configuration
     const config = getAppConfig();
 
@@ -65,6 +73,12 @@ export default function RootLayout() {
         <Stack.Screen name="reading" />
         <Stack.Screen name="result" />
         <Stack.Screen name="settings" />
+        <Stack.Screen name="spread-designer" />
+        <Stack.Screen name="history" />
+        <Stack.Screen name="stats" />
+        <Stack.Screen name="deck" />
+        <Stack.Screen name="deck-card" />
+        <Stack.Screen name="study" />
       </Stack>
     </ThemeProvider>
   );
@@ -0,0 +1,297 @@
+/**
+ * Deck Card Screen - Everything about one card
+ * Upright or reversed image, keywords, description, the meaning for every
+ * category and where the card has turned up in the user's own readings
+ */
+
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { useReadingStore } from "../state/readingStore";
+import { getCurrentAccountId } from "../services/creditsService";
+import { getAllReadings } from "../services/readingHistoryService";
+import { buildCardHistory } from "../core/cardHistory";
+import { getSpreadForReading, loadCards } from "../data/tarot/loader";
+import { logger } from "../core/logger";
+import { useTheme } from "../theme/index";
+import { LiquidBackground, GlassCard, OptionChips } from "../theme/components";
+import { getCardImagePath } from "../utils/cardImageMapper";
+import { getCardImageSource } from "../utils/cardImageMap";
+import { SUIT_LABELS } from "../utils/readingPatterns";
+import { CARD_CATEGORY_LABELS } from "../utils/deckBrowser";
+import type { ChipOption } from "../theme/components";
+import type { ReadingResultLocal, TarotCard } from "../types/tarot";
+import type { CardHistory } from "../types/history";
+
+type Orientation = "upright" | "reversed";
+
+const ORIENTATION_OPTIONS: ChipOption<Orientation>[] = [
+  { value: "upright", label: "Upright" },
+  { value: "reversed", label: "Reversed" },
+];
+
+export default function DeckCardScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { cardId } = useLocalSearchParams<{ cardId: string }>();
+  const { setCurrentReading } = useReadingStore();
+
+  const [card, setCard] = useState<TarotCard | null>(null);
+  const [orientation, setOrientation] = useState<Orientation>("upright");
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [history, setHistory] = useState<CardHistory | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(true);
+
+  useEffect(() => {
+    logger.info("ui.screen.view", { screenName: "DeckCard", cardId });
+    loadCards()
+      .then((cardsMap) => setCard(cardsMap.get(cardId) ?? null))
+      .catch((error) => {
+        logger.error("deck.load.cards.error", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+
+    (async () => {
+      const account = await getCurrentAccountId();
+      setAccountId(account);
+      if (account) {
+        const readings = await getAllReadings(account, { cardId });
+        setHistory(buildCardHistory(readings, cardId));
+      }
+      setLoadingHistory(false);
+    })();
+  }, [cardId]);
+
+  const openReading = (reading: ReadingResultLocal) => {
+    logger.info("ui.deck.open.reading", {
+      readingId: reading.readingId,
+      cardId,
+    });
+    setCurrentReading(reading);
+    router.push("/result");
+  };
+
+  if (!card) {
+    return null;
+  }
+
+  const reversed = orientation === "reversed";
+  const meanings = reversed ? card.meaningsReversed : card.meaningsUpright;
+
+  const sectionTitle = (title: string) => (
+    <Text style={[theme.typography.h2, { marginBottom: theme.spacing.md }]}>
+      {title}
+    </Text>
+  );
+
+  const categoryLabelStyle = [
+    theme.typography.bodySmall,
+    {
+      color: theme.colors.jade.primary,
+      fontWeight: theme.typography.weights.semibold,
+      marginBottom: theme.spacing.xs,
+    },
+  ];
+
+  const renderHistory = () => {
+    if (loadingHistory) {
+      return <ActivityIndicator color={theme.colors.jade.primary} />;
+    }
+    if (!history || history.appearances.length === 0) {
+      return (
+        <Text style={[theme.typography.bodySmall, { color: theme.colors.text.secondary }]}>
+          {accountId
+            ? "This card hasn't come up in your readings yet."
+            : "Connect a wallet to keep a reading history."}
+        </Text>
+      );
+    }
+    return (
+      <>
+        <Text
+          style={[
+            theme.typography.body,
+            { color: theme.colors.text.primary, marginBottom: theme.spacing.md },
+          ]}
+        >
+          {history.appearances.length}× • {history.uprightCount} upright •{" "}
+          {history.reversedCount} reversed
+          {history.lastSeenIso
+            ? ` • last on ${new Date(history.lastSeenIso).toLocaleDateString()}`
+            : ""}
+        </Text>
+        {history.appearances.map((appearance, index) => (
+          <TouchableOpacity
+            key={`${appearance.reading.readingId}-${appearance.role}-${index}`}
+            onPress={() => openReading(appearance.reading)}
+            activeOpacity={0.7}
+            style={[styles.appearance, { borderTopColor: theme.colors.glass.border }]}
+          >
+            <View style={styles.rowBetween}>
+              <Text style={[theme.typography.bodySmall, { color: theme.colors.text.primary }]}>
+                {getSpreadForReading(appearance.reading).displayName} • {appearance.positionLabel}
+                {appearance.role === "clarifier" ? " (clarifier)" : ""}
+                {appearance.isReversed ? " • Reversed" : ""}
+              </Text>
+              <Text style={[theme.typography.caption, { color: theme.colors.text.secondary }]}>
+                {new Date(appearance.reading.createdAtIso).toLocaleDateString()}
+              </Text>
+            </View>
+            {appearance.reading.question ? (
+              <Text
+                style={[
+                  theme.typography.caption,
+                  { color: theme.colors.text.secondary, fontStyle: "italic" },
+                ]}
+                numberOfLines={1}
+              >
+                "{appearance.reading.question}"
+              </Text>
+            ) : null}
+          </TouchableOpacity>
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <LiquidBackground>
+      <SafeAreaView style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={[theme.typography.h1, { textAlign: "center" }]}>{card.name}</Text>
+          <Text
+            style={[
+              theme.typography.caption,
+              {
+                textAlign: "center",
+                color: theme.colors.text.secondary,
+                marginBottom: theme.spacing.lg,
+              },
+            ]}
+          >
+            {SUIT_LABELS[card.suit ?? "major"]}
+          </Text>
+
+          <View style={[styles.imageWrap, { marginBottom: theme.spacing.md }]}>
+            <Image
+              source={getCardImageSource(getCardImagePath(card))}
+              style={[
+                styles.image,
+                {
+                  borderColor: theme.colors.glass.border,
+                  transform: [{ rotate: reversed ? "180deg" : "0deg" }],
+                },
+              ]}
+              resizeMode="cover"
+            />
+          </View>
+          <OptionChips
+            options={ORIENTATION_OPTIONS}
+            selected={orientation}
+            onSelect={setOrientation}
+            style={{ justifyContent: "center", marginBottom: theme.spacing.xl }}
+          />
+
+          <GlassCard style={{ marginBottom: theme.spacing.xl }}>
+            <Text
+              style={[
+                theme.typography.caption,
+                { color: theme.colors.text.secondary, marginBottom: theme.spacing.sm },
+              ]}
+            >
+              {card.keywords.join(" • ")}
+            </Text>
+            <Text
+              style={[
+                theme.typography.body,
+                {
+                  color: theme.colors.jade.primary,
+                  fontWeight: theme.typography.weights.semibold,
+                  marginBottom: theme.spacing.sm,
+                },
+              ]}
+            >
+              {reversed ? card.meaningReversed ?? card.meaningUpright : card.meaningUpright}
+            </Text>
+            <Text style={[theme.typography.body, { color: theme.colors.text.primary }]}>
+              {reversed ? card.descriptionReversed : card.description}
+            </Text>
+          </GlassCard>
+
+          <View style={{ marginBottom: theme.spacing.xl }}>
+            {sectionTitle(reversed ? "Reversed Meanings" : "Upright Meanings")}
+            <GlassCard>
+              {CARD_CATEGORY_LABELS.map(([key, label]) => (
+                <View key={key} style={styles.categoryBlock}>
+                  <Text style={categoryLabelStyle}>{label}:</Text>
+                  <Text style={[theme.typography.bodySmall, { color: theme.colors.text.primary }]}>
+                    {meanings[key]}
+                  </Text>
+                </View>
+              ))}
+            </GlassCard>
+          </View>
+
+          <View style={{ marginBottom: theme.spacing.xl }}>
+            {sectionTitle("In Your Readings")}
+            <GlassCard>{renderHistory()}</GlassCard>
+          </View>
+
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => router.back()}
+            activeOpacity={0.7}
+          >
+            <Text style={[theme.typography.body, { textAlign: "center" }]}>← Back</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </LiquidBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  imageWrap: {
+    alignItems: "center",
+  },
+  image: {
+    width: 180,
+    height: 306,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  categoryBlock: {
+    marginBottom: 12,
+  },
+  rowBetween: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "baseline",
+    gap: 8,
+  },
+  appearance: {
+    borderTopWidth: 1,
+    paddingVertical: 8,
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,198 @@
+/**
+ * Deck Screen - Browse all 78 cards outside a reading
+ * Cards are grouped by suit and searchable by name and keywords;
+ * tapping a card opens its detail view
+ */
+
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TextInput,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { loadCards } from "../data/tarot/loader";
+import { logger } from "../core/logger";
+import { useTheme } from "../theme/index";
+import { LiquidBackground, GlassCard } from "../theme/components";
+import { getCardImagePath } from "../utils/cardImageMapper";
+import { getCardImageSource } from "../utils/cardImageMap";
+import { SUIT_LABELS } from "../utils/readingPatterns";
+import { groupCardsBySuit, searchCards } from "../utils/deckBrowser";
+import type { TarotCard } from "../types/tarot";
+
+/** Keywords shown under each card name */
+const ROW_KEYWORD_COUNT = 3;
+
+export default function DeckScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const [cards, setCards] = useState<TarotCard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    logger.info("ui.screen.view", { screenName: "Deck" });
+    loadCards()
+      .then((cardsMap) => setCards(Array.from(cardsMap.values())))
+      .catch((error) => {
+        logger.error("deck.load.cards.error", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const sections = groupCardsBySuit(searchCards(cards, query)).map((group) => ({
+    title: SUIT_LABELS[group.suit],
+    data: group.cards,
+  }));
+
+  const header = (
+    <View style={{ marginBottom: theme.spacing.md }}>
+      <Text
+        style={[
+          theme.typography.h1,
+          { textAlign: "center", marginBottom: theme.spacing.lg },
+        ]}
+      >
+        The Deck
+      </Text>
+      <TextInput
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search names and keywords"
+        placeholderTextColor={theme.colors.text.tertiary}
+        returnKeyType="search"
+        autoCorrect={false}
+        style={[
+          theme.typography.body,
+          styles.input,
+          {
+            color: theme.colors.text.primary,
+            borderColor: theme.colors.glass.border,
+            borderRadius: theme.spacing.borderRadius.sm,
+          },
+        ]}
+      />
+    </View>
+  );
+
+  const renderCard = ({ item }: { item: TarotCard }) => (
+    <TouchableOpacity
+      onPress={() =>
+        router.push({ pathname: "/deck-card", params: { cardId: item.id } })
+      }
+      activeOpacity={0.7}
+    >
+      <GlassCard style={{ marginBottom: theme.spacing.sm }}>
+        <View style={styles.cardRow}>
+          <Image
+            source={getCardImageSource(getCardImagePath(item))}
+            style={[styles.thumbnail, { borderColor: theme.colors.glass.border }]}
+            resizeMode="cover"
+          />
+          <View style={styles.cardText}>
+            <Text style={theme.typography.h3}>{item.name}</Text>
+            <Text
+              style={[theme.typography.caption, { color: theme.colors.text.secondary }]}
+              numberOfLines={1}
+            >
+              {item.keywords.slice(0, ROW_KEYWORD_COUNT).join(" • ")}
+            </Text>
+          </View>
+        </View>
+      </GlassCard>
+    </TouchableOpacity>
+  );
+
+  return (
+    <LiquidBackground>
+      <SafeAreaView style={styles.container}>
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.id}
+          renderItem={renderCard}
+          renderSectionHeader={({ section }) => (
+            <Text
+              style={[
+                theme.typography.h2,
+                { marginTop: theme.spacing.md, marginBottom: theme.spacing.sm },
+              ]}
+            >
+              {section.title}
+            </Text>
+          )}
+          stickySectionHeadersEnabled={false}
+          keyboardShouldPersistTaps="handled"
+          ListHeaderComponent={header}
+          ListEmptyComponent={
+            loading ? (
+              <ActivityIndicator color={theme.colors.jade.primary} />
+            ) : (
+              <Text
+                style={[
+                  theme.typography.body,
+                  { textAlign: "center", color: theme.colors.text.secondary },
+                ]}
+              >
+                No cards match "{query.trim()}".
+              </Text>
+            )
+          }
+          ListFooterComponent={
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => router.back()}
+              activeOpacity={0.7}
+            >
+              <Text style={[theme.typography.body, { textAlign: "center" }]}>
+                ← Back
+              </Text>
+            </TouchableOpacity>
+          }
+          contentContainerStyle={styles.content}
+        />
+      </SafeAreaView>
+    </LiquidBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  input: {
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  cardRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  thumbnail: {
+    width: 40,
+    height: 68,
+    borderRadius: 4,
+    borderWidth: 1,
+  },
+  cardText: {
+    flex: 1,
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+});
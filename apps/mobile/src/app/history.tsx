@@ -0,0 +1,472 @@
+/**
+ * History Screen - Browse and search past readings
+ * Filters by spread, card drawn, date range and text in the question or narrative;
+ * results load a page at a time from the wallet's reading history
+ */
+
+import { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { useReadingStore } from "../state/readingStore";
+import { getCurrentAccountId } from "../services/creditsService";
+import {
+  getAllReadings,
+  queryReadings,
+  saveReading,
+} from "../services/readingHistoryService";
+import { isFollowUpDue } from "../core/readingJournal";
+import { JournalEditor } from "../components/JournalEditor";
+import { ExportActions } from "../components/ExportActions";
+import { getAllCards, getAllSpreads, getCard, getSpreadForReading } from "../data/tarot/loader";
+import { logger } from "../core/logger";
+import { useTheme } from "../theme/index";
+import { LiquidBackground, GlassCard, OptionChips } from "../theme/components";
+import {
+  HISTORY_DATE_RANGE_OPTIONS,
+  dateRangeBounds,
+} from "../utils/historyFilters";
+import type { HistoryDateRange } from "../utils/historyFilters";
+import type { ChipOption } from "../theme/components";
+import type { ReadingResultLocal, TarotCard } from "../types/tarot";
+import type { ReadingHistoryFilters } from "../types/history";
+
+/** Spread chip value meaning "no spread filter" */
+const ALL_SPREADS = "all";
+
+/** Readings fetched per page */
+const PAGE_SIZE = 15;
+
+/** Card suggestions shown while typing a card name */
+const MAX_CARD_SUGGESTIONS = 6;
+
+/** Wait after the last keystroke before searching */
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function HistoryScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { setCurrentReading } = useReadingStore();
+
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [spreadFilter, setSpreadFilter] = useState<string>(ALL_SPREADS);
+  const [cardFilter, setCardFilter] = useState<TarotCard | null>(null);
+  const [cardQuery, setCardQuery] = useState("");
+  const [dateRange, setDateRange] = useState<HistoryDateRange>("any");
+  const [customFrom, setCustomFrom] = useState("");
+  const [customTo, setCustomTo] = useState("");
+  const [searchText, setSearchText] = useState("");
+  const [debouncedText, setDebouncedText] = useState("");
+
+  const [readings, setReadings] = useState<ReadingResultLocal[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  /** Increments on every new search so stale pages are dropped */
+  const queryVersion = useRef(0);
+  /** Date presets count back from when the screen opened, so the filters stay stable */
+  const [openedAt] = useState(() => new Date());
+  /** Reading whose journal is expanded */
+  const [journalReadingId, setJournalReadingId] = useState<string | null>(null);
+
+  const spreadOptions: ChipOption<string>[] = [
+    { value: ALL_SPREADS, label: "All spreads" },
+    ...getAllSpreads().map((spread) => ({
+      value: spread.id,
+      label: spread.displayName,
+    })),
+  ];
+
+  const cardSuggestions =
+    cardQuery.trim().length > 0
+      ? getAllCards()
+          .filter((card) =>
+            card.name.toLowerCase().includes(cardQuery.trim().toLowerCase()),
+          )
+          .slice(0, MAX_CARD_SUGGESTIONS)
+      : [];
+
+  const { fromIso, toIso } = dateRangeBounds(
+    dateRange,
+    { from: customFrom, to: customTo },
+    openedAt,
+  );
+  const filters: ReadingHistoryFilters = {
+    spreadId: spreadFilter === ALL_SPREADS ? undefined : spreadFilter,
+    cardId: cardFilter?.id,
+    fromIso,
+    toIso,
+    text: debouncedText || undefined,
+  };
+  const filtersKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    logger.info("ui.screen.view", { screenName: "History" });
+    getCurrentAccountId().then(setAccountId);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setDebouncedText(searchText.trim()),
+      SEARCH_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  // First page whenever the filters change
+  useEffect(() => {
+    if (!accountId) {
+      setLoading(false);
+      return;
+    }
+    const version = ++queryVersion.current;
+    setLoading(true);
+    queryReadings(accountId, filters, { limit: PAGE_SIZE }).then((page) => {
+      if (version !== queryVersion.current) return;
+      setReadings(page.readings);
+      setNextOffset(page.nextOffset);
+      setLoading(false);
+    });
+    // filtersKey captures every filter value
+  }, [accountId, filtersKey]);
+
+  const loadMore = () => {
+    if (!accountId || nextOffset === null || loading || loadingMore) return;
+    const version = queryVersion.current;
+    setLoadingMore(true);
+    queryReadings(accountId, filters, {
+      offset: nextOffset,
+      limit: PAGE_SIZE,
+    }).then((page) => {
+      setLoadingMore(false);
+      if (version !== queryVersion.current) return;
+      setReadings((prev) => [...prev, ...page.readings]);
+      setNextOffset(page.nextOffset);
+    });
+  };
+
+  const openReading = (reading: ReadingResultLocal) => {
+    logger.info("ui.history.open", {
+      readingId: reading.readingId,
+      spreadId: reading.spreadId,
+    });
+    setCurrentReading(reading);
+    router.push("/result");
+  };
+
+  const updateReading = (account: string, updated: ReadingResultLocal) => {
+    setReadings((prev) =>
+      prev.map((reading) =>
+        reading.readingId === updated.readingId ? updated : reading,
+      ),
+    );
+    saveReading(account, updated);
+  };
+
+  const inputStyle = [
+    theme.typography.body,
+    styles.input,
+    {
+      color: theme.colors.text.primary,
+      borderColor: theme.colors.glass.border,
+      borderRadius: theme.spacing.borderRadius.sm,
+      marginBottom: theme.spacing.sm,
+    },
+  ];
+  const labelStyle = [
+    theme.typography.caption,
+    {
+      color: theme.colors.text.secondary,
+      marginBottom: theme.spacing.xs,
+    },
+  ];
+
+  const header = (
+    <View>
+      <Text
+        style={[
+          theme.typography.h1,
+          { textAlign: "center", marginBottom: theme.spacing.lg },
+        ]}
+      >
+        Reading History
+      </Text>
+
+      <GlassCard style={{ marginBottom: theme.spacing.lg }}>
+        <TextInput
+          value={searchText}
+          onChangeText={setSearchText}
+          placeholder="Search questions and narratives"
+          placeholderTextColor={theme.colors.text.tertiary}
+          returnKeyType="search"
+          style={inputStyle}
+        />
+
+        <Text style={labelStyle}>Spread</Text>
+        <OptionChips
+          options={spreadOptions}
+          selected={spreadFilter}
+          onSelect={setSpreadFilter}
+          style={{ marginBottom: theme.spacing.md }}
+        />
+
+        <Text style={labelStyle}>Card drawn</Text>
+        {cardFilter ? (
+          <View style={[styles.selectedCardRow, { marginBottom: theme.spacing.md }]}>
+            <Text style={[theme.typography.body, { color: theme.colors.jade.primary }]}>
+              {cardFilter.name}
+            </Text>
+            <Text
+              onPress={() => setCardFilter(null)}
+              style={[theme.typography.bodySmall, { color: theme.colors.text.tertiary }]}
+            >
+              Clear
+            </Text>
+          </View>
+        ) : (
+          <View style={{ marginBottom: theme.spacing.sm }}>
+            <TextInput
+              value={cardQuery}
+              onChangeText={setCardQuery}
+              placeholder="Type a card name"
+              placeholderTextColor={theme.colors.text.tertiary}
+              style={inputStyle}
+            />
+            {cardSuggestions.map((card) => (
+              <TouchableOpacity
+                key={card.id}
+                onPress={() => {
+                  setCardFilter(card);
+                  setCardQuery("");
+                }}
+                activeOpacity={0.7}
+                style={styles.suggestion}
+              >
+                <Text style={[theme.typography.bodySmall, { color: theme.colors.text.primary }]}>
+                  {card.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        <Text style={labelStyle}>Date</Text>
+        <OptionChips
+          options={HISTORY_DATE_RANGE_OPTIONS}
+          selected={dateRange}
+          onSelect={setDateRange}
+          style={{ marginBottom: theme.spacing.sm }}
+        />
+        {dateRange === "custom" && (
+          <View style={styles.dateRow}>
+            <TextInput
+              value={customFrom}
+              onChangeText={setCustomFrom}
+              placeholder="From (YYYY-MM-DD)"
+              placeholderTextColor={theme.colors.text.tertiary}
+              maxLength={10}
+              style={[...inputStyle, styles.dateInput]}
+            />
+            <TextInput
+              value={customTo}
+              onChangeText={setCustomTo}
+              placeholder="To (YYYY-MM-DD)"
+              placeholderTextColor={theme.colors.text.tertiary}
+              maxLength={10}
+              style={[...inputStyle, styles.dateInput]}
+            />
+          </View>
+        )}
+      </GlassCard>
+
+      {accountId && readings.length > 0 && (
+        <View style={{ marginBottom: theme.spacing.lg }}>
+          <ExportActions
+            label="Export matching readings as"
+            loadReadings={() => getAllReadings(accountId, filters)}
+          />
+        </View>
+      )}
+    </View>
+  );
+
+  const renderReading = ({ item }: { item: ReadingResultLocal }) => {
+    const cardNames = item.drawnCards
+      .map((drawnCard) => {
+        const name = getCard(drawnCard.cardId).name;
+        return drawnCard.isReversed ? `${name} (R)` : name;
+      })
+      .join(", ");
+    const journalOpen = journalReadingId === item.readingId;
+    const entryCount = item.journal?.entries.length ?? 0;
+    const followUpDue = isFollowUpDue(item.journal, openedAt);
+    return (
+      <GlassCard style={{ marginBottom: theme.spacing.md }}>
+        <TouchableOpacity onPress={() => openReading(item)} activeOpacity={0.7}>
+          <View style={styles.readingHeader}>
+            <Text style={[theme.typography.h3, styles.readingTitle]}>
+              {getSpreadForReading(item).displayName}
+            </Text>
+            <Text style={[theme.typography.caption, { color: theme.colors.text.secondary }]}>
+              {new Date(item.createdAtIso).toLocaleDateString()}
+            </Text>
+          </View>
+          {item.question ? (
+            <Text
+              style={[
+                theme.typography.body,
+                { fontStyle: "italic", marginBottom: theme.spacing.xs },
+              ]}
+              numberOfLines={2}
+            >
+              "{item.question}"
+            </Text>
+          ) : null}
+          <Text
+            style={[theme.typography.bodySmall, { color: theme.colors.text.secondary }]}
+            numberOfLines={2}
+          >
+            {cardNames}
+          </Text>
+        </TouchableOpacity>
+        <View style={[styles.journalRow, { marginTop: theme.spacing.sm }]}>
+          <Text
+            onPress={() => setJournalReadingId(journalOpen ? null : item.readingId)}
+            style={[
+              theme.typography.bodySmall,
+              {
+                color: theme.colors.jade.primary,
+                fontWeight: theme.typography.weights.semibold,
+              },
+            ]}
+          >
+            {journalOpen ? "Hide journal" : `Journal (${entryCount})`}
+          </Text>
+          {followUpDue && (
+            <Text style={[theme.typography.caption, { color: theme.colors.jade.primary }]}>
+              Follow-up due
+            </Text>
+          )}
+        </View>
+        {journalOpen && accountId && (
+          <View style={{ marginTop: theme.spacing.md }}>
+            <JournalEditor
+              reading={item}
+              onChange={(updated) => updateReading(accountId, updated)}
+            />
+          </View>
+        )}
+      </GlassCard>
+    );
+  };
+
+  return (
+    <LiquidBackground>
+      <SafeAreaView style={styles.container}>
+        <FlatList
+          data={readings}
+          keyExtractor={(item) => item.readingId}
+          renderItem={renderReading}
+          ListHeaderComponent={header}
+          ListEmptyComponent={
+            loading ? (
+              <ActivityIndicator color={theme.colors.jade.primary} />
+            ) : (
+              <Text
+                style={[
+                  theme.typography.body,
+                  { textAlign: "center", color: theme.colors.text.secondary },
+                ]}
+              >
+                {accountId
+                  ? "No readings match these filters."
+                  : "Connect a wallet to keep a reading history."}
+              </Text>
+            )
+          }
+          ListFooterComponent={
+            <View>
+              {loadingMore && (
+                <ActivityIndicator
+                  color={theme.colors.jade.primary}
+                  style={{ marginBottom: theme.spacing.md }}
+                />
+              )}
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => router.back()}
+                activeOpacity={0.7}
+              >
+                <Text style={[theme.typography.body, { textAlign: "center" }]}>
+                  ← Back
+                </Text>
+              </TouchableOpacity>
+            </View>
+          }
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={styles.content}
+        />
+      </SafeAreaView>
+    </LiquidBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  input: {
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  suggestion: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  selectedCardRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  dateRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  dateInput: {
+    flex: 1,
+  },
+  readingHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "baseline",
+    marginBottom: 4,
+  },
+  readingTitle: {
+    flex: 1,
+    marginRight: 8,
+  },
+  journalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+});
@@ -23,17 +23,52 @@ import { useFocusEffect } from "@react-navigation/native";
 import { useCallback } from "react";
 import { useReadingStore } from "../state/readingStore";
 import { useCreditsStore } from "../state/creditsStore";
-import { getAllSpreads, getSpread, loadSpreads, getAllCards } from "../data/tarot/loader";
+import { useReadingSettingsStore } from "../state/readingSettingsStore";
+import { useCustomSpreadStore } from "../state/customSpreadStore";
+import {
+  getAllSpreads,
+  getSpread,
+  loadSpreads,
+  getAllCards,
+  getCard,
+} from "../data/tarot/loader";
+import {
+  getSignificatorCandidates,
+  isCustomSpreadId,
+} from "../core/tarotEngine";
+import { defaultRestackOrder } from "../core/deckSession";
 import { getCardImagePath } from "../utils/cardImageMapper";
 import { getCardImageSource } from "../utils/cardImageMap";
 import { getCardOfTheDay } from "../utils/cardOfTheDay";
 import { getBalance, getCurrentAccountId } from "../services/creditsService";
 import { isWalletConnected, isSolanaEnabled } from "../services/solanaService";
-import { getLastReading } from "../services/lastReadingService";
+import { getLatestReading } from "../services/readingHistoryService";
 import { logger } from "../core/logger";
 import { useTheme } from "../theme/index";
-import { LiquidBackground, GlassCard, NeonButton } from "../theme/components";
-import type { TarotSpread, ReadingResultLocal, TarotCard } from "../types/tarot";
+import {
+  LiquidBackground,
+  GlassCard,
+  NeonButton,
+  OptionChips,
+} from "../theme/components";
+import {
+  REVERSAL_MODE_OPTIONS,
+  REVERSAL_MODE_DESCRIPTIONS,
+  CUT_PILE_OPTIONS,
+  restackOrderOptions,
+  SIGNIFICATOR_POOL_OPTIONS,
+  FOCUS_CATEGORY_OPTIONS,
+  GENERAL_FOCUS,
+  NARRATIVE_TONE_OPTIONS,
+  NARRATIVE_TONE_DESCRIPTIONS,
+  strategyForMode,
+} from "../utils/readingOptions";
+import type {
+  TarotSpread,
+  ReadingResultLocal,
+  TarotCard,
+  SignificatorPool,
+} from "../types/tarot";
 
 /** Local easing to avoid passing frozen theme values to Animated */
 const SMOOTH_EASING = Easing.bezier(0.4, 0.0, 0.2, 1);
@@ -47,8 +82,52 @@ export default function HomeScreen() {
   const [loading, setLoading] = useState(true);
   const [showIntentModal, setShowIntentModal] = useState(false);
 
-  const { selectedSpreadId, selectSpread, setReadingState, setCurrentReading } =
-    useReadingStore();
+  const {
+    selectedSpreadId,
+    selectSpread,
+    setReadingState,
+    setCurrentReading,
+    reversalStrategy,
+    setReversalStrategy,
+    cutPiles,
+    setCutPiles,
+    restackOrder,
+    setRestackOrder,
+    significatorCardId,
+    setSignificatorCardId,
+    focusCategory,
+    setFocusCategory,
+    tone,
+    setTone,
+  } = useReadingStore();
+  const defaultReversalStrategy = useReadingSettingsStore(
+    (s) => s.reversalStrategy,
+  );
+  /** Reversal strategy for the upcoming reading (per-reading choice or settings default) */
+  const activeReversalStrategy = reversalStrategy ?? defaultReversalStrategy;
+
+  const customSpreads = useCustomSpreadStore((s) => s.spreads);
+  const selectedSpread = spreads.find((s) => s.id === selectedSpreadId);
+  /** Pool the significator picker lists; starts at the spread's suggestion */
+  const [significatorPool, setSignificatorPool] =
+    useState<SignificatorPool>("court");
+  const significatorCandidates =
+    showIntentModal && selectedSpread?.significator
+      ? getSignificatorCandidates(getAllCards(), significatorPool)
+      : [];
+
+  /** Switch the significator pool, dropping a picked card the new pool doesn't offer */
+  const selectSignificatorPool = (pool: SignificatorPool) => {
+    setSignificatorPool(pool);
+    if (
+      significatorCardId &&
+      !getSignificatorCandidates(getAllCards(), pool).some(
+        (card) => card.id === significatorCardId,
+      )
+    ) {
+      setSignificatorCardId(null);
+    }
+  };
 
   const { balance, refreshBalance } = useCreditsStore();
 
@@ -205,6 +284,13 @@ export default function HomeScreen() {
     loadData();
   }, [refreshBalance]);
 
+  // Pick up spreads saved or deleted in the designer
+  useEffect(() => {
+    if (!loading) {
+      setSpreads(getAllSpreads());
+    }
+  }, [customSpreads, loading]);
+
   const proceedStartReading = async () => {
     if (!selectedSpreadId) {
       return;
@@ -246,6 +332,10 @@ export default function HomeScreen() {
       );
       return;
     }
+    const spread = getSpread(selectedSpreadId);
+    if (spread.significator) {
+      selectSignificatorPool(spread.significator.cardPool);
+    }
     setShowIntentModal(true);
     logger.info("ui.reading.intent_modal.open", { spreadId: selectedSpreadId });
   };
@@ -278,7 +368,7 @@ export default function HomeScreen() {
         
         // Load last reading for the connected wallet
         const accountId = await getCurrentAccountId();
-        const reading = await getLastReading(accountId);
+        const reading = await getLatestReading(accountId);
         if (!cancelled) setLastReading(reading);
       })();
       return () => {
@@ -474,29 +564,64 @@ export default function HomeScreen() {
               </Animated.View>
             </TouchableOpacity>
 
-            {/* View last reading - per connected wallet */}
+            {/* View last reading and history - per connected wallet */}
             {lastReading ? (
-              <TouchableOpacity
-                onPress={() => {
-                  setCurrentReading(lastReading);
-                  router.push("/result");
-                }}
-                activeOpacity={0.8}
-                style={{ marginBottom: theme.spacing.lg }}
-              >
-                <Text
-                  style={[
-                    theme.typography.bodySmall,
-                    {
-                      color: theme.colors.jade.primary,
-                      textDecorationLine: "underline",
-                      textAlign: "center",
-                    },
-                  ]}
+              <View style={[styles.historyLinks, { marginBottom: theme.spacing.lg }]}>
+                <TouchableOpacity
+                  onPress={() => {
+                    setCurrentReading(lastReading);
+                    router.push("/result");
+                  }}
+                  activeOpacity={0.8}
                 >
-                  View last reading
-                </Text>
-              </TouchableOpacity>
+                  <Text
+                    style={[
+                      theme.typography.bodySmall,
+                      {
+                        color: theme.colors.jade.primary,
+                        textDecorationLine: "underline",
+                        textAlign: "center",
+                      },
+                    ]}
+                  >
+                    View last reading
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => router.push("/history")}
+                  activeOpacity={0.8}
+                >
+                  <Text
+                    style={[
+                      theme.typography.bodySmall,
+                      {
+                        color: theme.colors.jade.primary,
+                        textDecorationLine: "underline",
+                        textAlign: "center",
+                      },
+                    ]}
+                  >
+                    Reading history
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => router.push("/stats")}
+                  activeOpacity={0.8}
+                >
+                  <Text
+                    style={[
+                      theme.typography.bodySmall,
+                      {
+                        color: theme.colors.jade.primary,
+                        textDecorationLine: "underline",
+                        textAlign: "center",
+                      },
+                    ]}
+                  >
+                    Stats
+                  </Text>
+                </TouchableOpacity>
+              </View>
             ) : null}
 
             {/* Spread Selection */}
@@ -570,10 +695,62 @@ export default function HomeScreen() {
                           {spread.description}
                         </Text>
                       ) : null}
+                      {selectedSpreadId === spread.id && spread.cardCount > 1 ? (
+                        <Text
+                          style={[
+                            theme.typography.caption,
+                            {
+                              marginTop: theme.spacing.xs,
+                              color: theme.colors.text.tertiary,
+                            },
+                          ]}
+                        >
+                          {spread.positions.map((position) => position.label).join(" · ")}
+                        </Text>
+                      ) : null}
+                      {selectedSpreadId === spread.id &&
+                      isCustomSpreadId(spread.id) ? (
+                        <Text
+                          onPress={() =>
+                            router.push({
+                              pathname: "/spread-designer",
+                              params: { spreadId: spread.id },
+                            })
+                          }
+                          style={[
+                            theme.typography.bodySmall,
+                            {
+                              marginTop: theme.spacing.sm,
+                              color: theme.colors.jade.primary,
+                              fontWeight: theme.typography.weights.semibold,
+                            },
+                          ]}
+                        >
+                          Edit spread
+                        </Text>
+                      ) : null}
                     </GlassCard>
                   </TouchableOpacity>
                 </Animated.View>
               ))}
+
+              <TouchableOpacity
+                onPress={() => router.push("/spread-designer")}
+                activeOpacity={0.7}
+              >
+                <Text
+                  style={[
+                    theme.typography.bodySmall,
+                    {
+                      color: theme.colors.jade.primary,
+                      textDecorationLine: "underline",
+                      textAlign: "center",
+                    },
+                  ]}
+                >
+                  + Design your own spread
+                </Text>
+              </TouchableOpacity>
             </View>
 
             {/* Start Reading Button */}
@@ -621,6 +798,225 @@ export default function HomeScreen() {
                     don't have a question yet, start the reading when you do.
                   </Text>
 
+                  <Text
+                    style={[
+                      theme.typography.bodySmall,
+                      {
+                        fontWeight: theme.typography.weights.semibold,
+                        marginBottom: theme.spacing.sm,
+                      },
+                    ]}
+                  >
+                    Focus
+                  </Text>
+                  <OptionChips
+                    options={FOCUS_CATEGORY_OPTIONS}
+                    selected={focusCategory ?? GENERAL_FOCUS}
+                    onSelect={(value) =>
+                      setFocusCategory(value === GENERAL_FOCUS ? null : value)
+                    }
+                    style={{ marginBottom: theme.spacing.lg }}
+                  />
+
+                  <Text
+                    style={[
+                      theme.typography.bodySmall,
+                      {
+                        fontWeight: theme.typography.weights.semibold,
+                        marginBottom: theme.spacing.sm,
+                      },
+                    ]}
+                  >
+                    Reader voice
+                  </Text>
+                  <OptionChips
+                    options={NARRATIVE_TONE_OPTIONS}
+                    selected={tone}
+                    onSelect={setTone}
+                  />
+                  <Text
+                    style={[
+                      theme.typography.caption,
+                      {
+                        color: theme.colors.text.secondary,
+                        marginTop: theme.spacing.sm,
+                        marginBottom: theme.spacing.lg,
+                      },
+                    ]}
+                  >
+                    {NARRATIVE_TONE_DESCRIPTIONS[tone]}
+                  </Text>
+
+                  <Text
+                    style={[
+                      theme.typography.bodySmall,
+                      {
+                        fontWeight: theme.typography.weights.semibold,
+                        marginBottom: theme.spacing.sm,
+                      },
+                    ]}
+                  >
+                    Reversed cards
+                  </Text>
+                  <OptionChips
+                    options={REVERSAL_MODE_OPTIONS}
+                    selected={activeReversalStrategy.mode}
+                    onSelect={(mode) =>
+                      setReversalStrategy(
+                        strategyForMode(mode, activeReversalStrategy),
+                      )
+                    }
+                  />
+                  <Text
+                    style={[
+                      theme.typography.caption,
+                      {
+                        color: theme.colors.text.secondary,
+                        marginTop: theme.spacing.sm,
+                        marginBottom: theme.spacing.lg,
+                      },
+                    ]}
+                  >
+                    {REVERSAL_MODE_DESCRIPTIONS[activeReversalStrategy.mode]}
+                  </Text>
+
+                  <Text
+                    style={[
+                      theme.typography.bodySmall,
+                      {
+                        fontWeight: theme.typography.weights.semibold,
+                        marginBottom: theme.spacing.sm,
+                      },
+                    ]}
+                  >
+                    Cut the deck
+                  </Text>
+                  <OptionChips
+                    options={CUT_PILE_OPTIONS}
+                    selected={String(cutPiles) as "1" | "2" | "3"}
+                    onSelect={(value) => setCutPiles(Number(value))}
+                    style={{ marginBottom: theme.spacing.lg }}
+                  />
+
+                  {cutPiles > 1 && (
+                    <>
+                      <Text
+                        style={[
+                          theme.typography.bodySmall,
+                          {
+                            fontWeight: theme.typography.weights.semibold,
+                            marginBottom: theme.spacing.sm,
+                          },
+                        ]}
+                      >
+                        Restack the piles
+                      </Text>
+                      <Text
+                        style={[
+                          theme.typography.caption,
+                          {
+                            color: theme.colors.text.secondary,
+                            marginBottom: theme.spacing.sm,
+                          },
+                        ]}
+                      >
+                        Piles are numbered in the order you cut them; the first one listed goes on top.
+                      </Text>
+                      <OptionChips
+                        options={restackOrderOptions(cutPiles)}
+                        selected={(restackOrder ?? defaultRestackOrder(cutPiles)).join(",")}
+                        onSelect={(value) => setRestackOrder(value.split(",").map(Number))}
+                        style={{ marginBottom: theme.spacing.lg }}
+                      />
+                    </>
+                  )}
+
+                  {selectedSpread?.significator && (
+                    <>
+                      <Text
+                        style={[
+                          theme.typography.bodySmall,
+                          {
+                            fontWeight: theme.typography.weights.semibold,
+                            marginBottom: theme.spacing.sm,
+                          },
+                        ]}
+                      >
+                        {selectedSpread.significator.label}
+                      </Text>
+                      <Text
+                        style={[
+                          theme.typography.caption,
+                          {
+                            color: theme.colors.text.secondary,
+                            marginBottom: theme.spacing.sm,
+                          },
+                        ]}
+                      >
+                        Choose a card to represent you. It is set aside
+                        before shuffling and won't be drawn.
+                      </Text>
+                      <OptionChips
+                        options={SIGNIFICATOR_POOL_OPTIONS}
+                        selected={significatorPool}
+                        onSelect={selectSignificatorPool}
+                        style={{ marginBottom: theme.spacing.sm }}
+                      />
+                      <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        style={{ marginBottom: theme.spacing.sm }}
+                      >
+                        {significatorCandidates.map((card) => {
+                          const isSelected = card.id === significatorCardId;
+                          return (
+                            <TouchableOpacity
+                              key={card.id}
+                              onPress={() =>
+                                setSignificatorCardId(
+                                  isSelected ? null : card.id,
+                                )
+                              }
+                              activeOpacity={0.7}
+                              style={[
+                                styles.significatorOption,
+                                {
+                                  borderRadius: theme.spacing.borderRadius.sm,
+                                  borderColor: isSelected
+                                    ? theme.colors.jade.primary
+                                    : "transparent",
+                                },
+                              ]}
+                            >
+                              <Image
+                                source={getCardImageSource(
+                                  getCardImagePath(card),
+                                )}
+                                style={styles.significatorImage}
+                                resizeMode="contain"
+                              />
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </ScrollView>
+                      <Text
+                        style={[
+                          theme.typography.caption,
+                          {
+                            color: significatorCardId
+                              ? theme.colors.jade.primary
+                              : theme.colors.text.tertiary,
+                            marginBottom: theme.spacing.lg,
+                          },
+                        ]}
+                      >
+                        {significatorCardId
+                          ? getCard(significatorCardId).name
+                          : "No significator — tap a card to choose one"}
+                      </Text>
+                    </>
+                  )}
+
                   <NeonButton
                     title="I'm ready"
                     onPress={handleIntentConfirm}
@@ -648,6 +1044,44 @@ export default function HomeScreen() {
               </View>
             </Modal>
 
+            {/* Deck Link */}
+            <TouchableOpacity
+              style={styles.settingsLink}
+              onPress={() => router.push("/deck")}
+              activeOpacity={0.7}
+            >
+              <Text
+                style={[
+                  theme.typography.body,
+                  {
+                    textAlign: "center",
+                    fontWeight: theme.typography.weights.medium,
+                  },
+                ]}
+              >
+                🃏 Browse the Deck
+              </Text>
+            </TouchableOpacity>
+
+            {/* Study Link */}
+            <TouchableOpacity
+              style={styles.settingsLink}
+              onPress={() => router.push("/study")}
+              activeOpacity={0.7}
+            >
+              <Text
+                style={[
+                  theme.typography.body,
+                  {
+                    textAlign: "center",
+                    fontWeight: theme.typography.weights.medium,
+                  },
+                ]}
+              >
+                🎓 Study the Deck
+              </Text>
+            </TouchableOpacity>
+
             {/* Settings Link */}
             <TouchableOpacity
               style={styles.settingsLink}
@@ -687,6 +1121,11 @@ const styles = StyleSheet.create({
     padding: 20,
     paddingBottom: 40,
   },
+  historyLinks: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 24,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: "center",
@@ -713,6 +1152,15 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     padding: 24,
   },
+  significatorOption: {
+    borderWidth: 2,
+    padding: 2,
+    marginRight: 6,
+  },
+  significatorImage: {
+    width: 48,
+    height: 80,
+  },
   modalSecondaryButton: {
     paddingVertical: 12,
     alignItems: "center",
@@ -3,7 +3,7 @@
  * Beautiful animations: shuffling, card flips, and dreamy transitions
  */
 
-import { useEffect, useState, useRef } from "react";
+import { useEffect, useState, useRef, useMemo } from "react";
 import {
   View,
   Text,
@@ -16,6 +16,7 @@ import {
   Easing,
   ScrollView,
   BackHandler,
+  Pressable,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
@@ -23,16 +24,29 @@ import { useFocusEffect } from "@react-navigation/native";
 import { useCallback } from "react";
 import { useReadingStore } from "../state/readingStore";
 import { useCreditsStore } from "../state/creditsStore";
+import { useReadingSettingsStore } from "../state/readingSettingsStore";
+import { useDeckSessionStore } from "../state/deckSessionStore";
 import {
   consumeCredits,
   getCurrentAccountId,
 } from "../services/creditsService";
-import { saveLastReading } from "../services/lastReadingService";
+import { saveReading } from "../services/readingHistoryService";
 import {
   createReadingDraft,
-  drawCards,
   buildLocalResult,
 } from "../core/tarotEngine";
+import {
+  createRandomProvider,
+  createEntropyCollector,
+} from "../core/random";
+import type { RandomProvider } from "../core/random";
+import {
+  createDeckSession,
+  prepareSessionForReading,
+  drawFromSession,
+} from "../core/deckSession";
+import { fitSpreadLayout } from "../core/spreadLayout";
+import type { FittedSpreadLayout } from "../core/spreadLayout";
 import { getAllCards, getSpread, getCard } from "../data/tarot/loader";
 import { logger } from "../core/logger";
 import {
@@ -42,7 +56,13 @@ import {
 import { getCardImageSource } from "../utils/cardImageMap";
 import { useTheme } from "../theme/index";
 import { LiquidBackground, GlassCard, NeonButton } from "../theme/components";
-import type { DrawnCard } from "../types/tarot";
+import type {
+  DrawnCard,
+  TarotCard,
+  TarotSpread,
+  ReversalStrategy,
+  CardId,
+} from "../types/tarot";
 
 /** Local easing functions to avoid passing frozen theme values to Animated */
 const ENIGMA_EASING = Easing.bezier(0.33, 1.53, 0.69, 0.99);
@@ -50,22 +70,52 @@ const ENIGMA_EASING = Easing.bezier(0.33, 1.53, 0.69, 0.99);
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get("window");
 
 /** Single-card reading: large card, centered in area below header/button */
-const SINGLE_CARD_WIDTH = Math.min(
-  Math.floor(SCREEN_WIDTH * 0.85),
-  320,
-);
-const SINGLE_CARD_HEIGHT = Math.min(
-  Math.floor(SINGLE_CARD_WIDTH * 1.5),
-  Math.floor(SCREEN_HEIGHT * 0.72),
-);
-/** Height of header block (title + subtitle + button); card is centered in the area below this */
-const SINGLE_CARD_HEADER_HEIGHT = 120;
+const SINGLE_CARD_MAX_WIDTH = Math.min(Math.floor(SCREEN_WIDTH * 0.85), 320);
+/** Height of header block (title + subtitle + button); cards are fitted to the area below this */
+const CARD_AREA_HEADER_HEIGHT = 120;
+const CARD_AREA_HEIGHT = SCREEN_HEIGHT - CARD_AREA_HEADER_HEIGHT;
+
+/** Label above each card: height and gap so label never overlaps card; room for two lines */
+const LABEL_HEIGHT = 48;
+const LABEL_GAP = 10;
+/** Cards narrower than this get smaller label text */
+const COMPACT_LABEL_CARD_WIDTH = 115;
+
+/**
+ * Fit the spread's layout geometry to the card area
+ * A single card is drawn large without a label; every other spread labels its positions
+ */
+function layoutSpreadCards(spread: TarotSpread): FittedSpreadLayout {
+  const bounds = { width: SCREEN_WIDTH, height: CARD_AREA_HEIGHT };
+  if (spread.cardCount === 1) {
+    return fitSpreadLayout(spread, bounds, { maxCardWidth: SINGLE_CARD_MAX_WIDTH });
+  }
+  return fitSpreadLayout(spread, bounds, {
+    labelHeight: LABEL_HEIGHT,
+    labelGap: LABEL_GAP,
+  });
+}
 
 export default function ReadingScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { selectedSpreadId, question, setReadingState, setCurrentReading } =
-    useReadingStore();
+  const {
+    selectedSpreadId,
+    question,
+    reversalStrategy,
+    cutPiles,
+    restackOrder,
+    significatorCardId,
+    focusCategory,
+    tone,
+    currentReading,
+    setReadingState,
+    setCurrentReading,
+  } = useReadingStore();
+  const defaultReversalStrategy = useReadingSettingsStore(
+    (s) => s.reversalStrategy,
+  );
+  const activeReversalStrategy = reversalStrategy ?? defaultReversalStrategy;
 
   const [drawnCards, setDrawnCards] = useState<DrawnCard[]>([]);
   const [revealedCards, setRevealedCards] = useState<Set<number>>(new Set());
@@ -90,6 +140,17 @@ export default function ReadingScreen() {
     new Map(),
   ).current;
   const hasDealtCards = useRef(false);
+  /** Tap timings captured while shuffling; mixed into the secure shuffle */
+  const shuffleEntropy = useRef(createEntropyCollector()).current;
+
+  /** Card frames for the selected spread, fitted to this screen */
+  const spreadLayout = useMemo(
+    () =>
+      selectedSpreadId && drawnCards.length > 0
+        ? layoutSpreadCards(getSpread(selectedSpreadId))
+        : null,
+    [selectedSpreadId, drawnCards.length],
+  );
 
   useEffect(() => {
     if (!selectedSpreadId) {
@@ -110,7 +171,11 @@ export default function ReadingScreen() {
           {
             spreadId: selectedSpreadId,
             question,
-            allowReversals: true, // Allow reversed cards
+            allowReversals: activeReversalStrategy.mode !== "none",
+            reversalStrategy: activeReversalStrategy,
+            significatorCardId: significatorCardId ?? undefined,
+            focusCategory: focusCategory ?? undefined,
+            tone,
           },
           spread,
         );
@@ -122,8 +187,30 @@ export default function ReadingScreen() {
           creditCost: spread.creditCost,
         });
 
-        // Draw cards (allow reversals)
-        const drawn = drawCards(spread, cards, true);
+        // Create shuffling cards animation
+        const shuffleCardCount = 20;
+        for (let i = 0; i < shuffleCardCount; i++) {
+          shuffleCards[i] = new Animated.Value(0);
+        }
+
+        // Start shuffling animation
+        shuffleEntropy.reset();
+        startShufflingAnimation(shuffleCardCount);
+
+        // Wait for shuffle animation (taps during this window feed the shuffle)
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+
+        // Draw cards once the user's shuffle taps are in
+        const random = createRandomProvider({
+          seed: draft.seed,
+          userEntropy: shuffleEntropy.toEntropyString(),
+        });
+        const { drawn, deckSessionId } = dealFromDeckSession(
+          spread,
+          cards,
+          draft,
+          random,
+        );
         setDrawnCards(drawn);
 
         // Initialize animation values for drawn cards
@@ -145,17 +232,6 @@ export default function ReadingScreen() {
           }
         });
 
-        // Create shuffling cards animation
-        const shuffleCardCount = 20;
-        for (let i = 0; i < shuffleCardCount; i++) {
-          shuffleCards[i] = new Animated.Value(0);
-        }
-
-        // Start shuffling animation
-        startShufflingAnimation(shuffleCardCount);
-
-        // Wait for shuffle animation
-        await new Promise((resolve) => setTimeout(resolve, 3000));
         setShuffling(false);
 
         // Build result
@@ -166,20 +242,24 @@ export default function ReadingScreen() {
           question,
           drawn,
           cardIndex,
+          {
+            seed: random.seed,
+            randomSource: random.source,
+            reversalStrategy: draft.reversals,
+            deckSessionId,
+            significatorCardId: draft.significatorCardId,
+            focusCategory: draft.focusCategory,
+            tone: draft.tone,
+          },
         );
 
         // Set reading result (AI narrative removed for simplicity)
+        // It joins the history when the first card is revealed (see handleRevealCard)
         setCurrentReading(result);
         setReadingState("RESULT");
 
-        // Persist as last reading for this wallet so user can view it again from home
-        const accountId = await getCurrentAccountId();
-        if (accountId) {
-          saveLastReading(accountId, result).catch(() => {});
-        }
-
         // Animate cards into position
-        animateCardsIntoPosition(drawn.length);
+        animateCardsIntoPosition(spread);
         hasDealtCards.current = true;
 
         // Fade in content
@@ -204,6 +284,47 @@ export default function ReadingScreen() {
     performReading();
   }, []);
 
+  /**
+   * Deal the reading from the persistent deck session
+   * Gathers the previous cards, shuffles like a physical deck, applies the user's cut,
+   * then deals off the top. Seeded readings start from a fresh deck so the seed alone
+   * reproduces them.
+   */
+  const dealFromDeckSession = (
+    spread: TarotSpread,
+    cards: TarotCard[],
+    draft: {
+      readingId: string;
+      seed?: string;
+      reversals: ReversalStrategy;
+      significatorCardId?: CardId;
+    },
+    random: RandomProvider,
+  ) => {
+    const { session: current, setSession } = useDeckSessionStore.getState();
+    const base =
+      current && !draft.seed ? current : createDeckSession(cards);
+    const prepared = prepareSessionForReading(
+      base,
+      {
+        cutPiles,
+        restackOrder,
+        reversals: draft.reversals,
+        significatorCardId: draft.significatorCardId,
+      },
+      random,
+    );
+    const { session, drawnCards } = drawFromSession(
+      prepared,
+      spread.cardCount,
+      draft.reversals,
+      random,
+      draft.readingId,
+    );
+    setSession(session);
+    return { drawn: drawnCards, deckSessionId: session.sessionId };
+  };
+
   /**
    * Handle back navigation - show modal if first card has been revealed
    * If no cards revealed, show "no credits will be discounted" message
@@ -267,16 +388,16 @@ export default function ReadingScreen() {
   /**
    * Animate cards flying into their positions
    */
-  const animateCardsIntoPosition = (cardCount: number) => {
-    const positions = calculateCardPositions(cardCount, selectedSpreadId);
+  const animateCardsIntoPosition = (spread: TarotSpread) => {
+    const { cards: placements } = layoutSpreadCards(spread);
 
-    positions.forEach((pos, index) => {
+    placements.forEach((placement, index) => {
       const scaleAnim = cardScaleAnims.get(index);
       const posAnim = cardPositionAnims.get(index);
 
       if (scaleAnim && posAnim) {
-        // For Celtic Cross, stagger the animations slightly for a more dramatic effect
-        const delay = selectedSpreadId === "celtic_cross" ? index * 100 : 0;
+        // For larger spreads, stagger the animations slightly for a more dramatic effect
+        const delay = placements.length > 3 ? index * 100 : 0;
 
         Animated.parallel([
           Animated.spring(scaleAnim, {
@@ -287,7 +408,7 @@ export default function ReadingScreen() {
             delay,
           }),
           Animated.spring(posAnim, {
-            toValue: { x: pos.x, y: pos.y },
+            toValue: { x: placement.x, y: placement.y },
             tension: 50,
             friction: 7,
             useNativeDriver: true,
@@ -298,198 +419,6 @@ export default function ReadingScreen() {
     });
   };
 
-  /**
-   * Celtic Cross: card size (increased for better visibility)
-   * Larger cards make it easier to see the card images without names taking too much space
-   */
-  const CELTIC_CARD_WIDTH = 110;
-  const CELTIC_CARD_HEIGHT = 165;
-
-  /**
-   * Celtic Cross layout: Present + Challenge side-by-side on top (readable, no overlap), then staff grid.
-   * - Cross: Present (0) left, Challenge (1) right, each with own label above
-   * - Staff: 8 cards in 3 columns (3+3+2)
-   */
-  const calculateCelticCrossPositions = () => {
-    // Account for content padding when centering
-    // content has padding: 16, and cardsContainer has marginLeft: -8, so net offset is 8px
-    // Adjust slightly left for better visual centering
-    const netOffset = 4; // Reduced offset to shift cards slightly left
-    const centerX = SCREEN_WIDTH / 2 + netOffset;
-    const crossCardW = CELTIC_CARD_WIDTH;
-    const crossCardH = CELTIC_CARD_HEIGHT;
-    const crossGap = 14;
-    const crossTotalW = crossCardW * 2 + crossGap;
-    const crossLeft = centerX - crossTotalW / 2;
-    const crossY = 58;
-
-    // Staff: 3 columns × 3 rows; gapV must fit label above next row (no overlap)
-    const gridCols = 3;
-    const gapH = 14;
-    const gapV = LABEL_HEIGHT + LABEL_GAP + 8;
-    const gridTotalW = gridCols * CELTIC_CARD_WIDTH + (gridCols - 1) * gapH;
-    const gridLeft = centerX - gridTotalW / 2;
-    // Space for staff row 0 label above its cards so it doesn't overlap cross cards
-    const crossToGridGap = LABEL_HEIGHT + LABEL_GAP + 12;
-    const gridTop = crossY + crossCardH + crossToGridGap;
-
-    // Order: 2=Past, 3=Future, 4=Above, 5=Below, 6=Advice, 7=External, 8=Hopes, 9=Outcome
-    const staffOrder = [
-      { col: 0, row: 0 }, { col: 1, row: 0 }, { col: 2, row: 0 },
-      { col: 0, row: 1 }, { col: 1, row: 1 }, { col: 2, row: 1 },
-      { col: 0, row: 2 }, { col: 1, row: 2 },
-    ];
-    const staffPositions = staffOrder.map(({ col, row }) => ({
-      x: gridLeft + col * (CELTIC_CARD_WIDTH + gapH),
-      y: gridTop + row * (CELTIC_CARD_HEIGHT + gapV),
-    }));
-
-    return [
-      { x: crossLeft, y: crossY },
-      { x: crossLeft + crossCardW + crossGap, y: crossY },
-      ...staffPositions,
-    ];
-  };
-
-  /**
-   * Calculate the content height needed for Celtic Cross layout
-   * Returns the maximum Y position plus card height plus padding
-   */
-  const calculateCelticCrossContentHeight = (): number => {
-    const positions = calculateCelticCrossPositions();
-    const maxY = Math.max(...positions.map((pos) => pos.y));
-    // Add card height, label height, and bottom padding
-    return maxY + CELTIC_CARD_HEIGHT + LABEL_HEIGHT + LABEL_GAP + 40;
-  };
-
-  /**
-   * Calculate accordion/fan style positions for 3-card spread
-   * Cards are arranged side by side with slight vertical offset (fan/accordion effect)
-   * SIMPLIFIED: Everything centered in available space
-   */
-  /** Label above each card: height and gap so label never overlaps card; room for two lines */
-  const LABEL_HEIGHT = 48;
-  const LABEL_GAP = 10;
-
-  /**
-   * Calculate triangular 3-card spread positions (Past top, Present left, Future right).
-   * Labels sit above each card; no overflow, everything aligned.
-   */
-  const calculateThreeCardTrianglePositions = () => {
-    const headerHeight = 48;
-    const cardWidth = 120;
-    const cardHeight = 180;
-    const blockHeight = LABEL_HEIGHT + LABEL_GAP + cardHeight;
-    const startY = headerHeight + LABEL_HEIGHT + LABEL_GAP;
-
-    const topCenterX = (SCREEN_WIDTH - cardWidth) / 2;
-    const bottomY = startY + blockHeight + 16;
-    const horizontalGap = 24;
-    const leftX = Math.max(16, (SCREEN_WIDTH - cardWidth * 2 - horizontalGap) / 2);
-    const rightX = leftX + cardWidth + horizontalGap;
-
-    return [
-      { x: topCenterX, y: startY },                    // Past (top)
-      { x: leftX, y: bottomY },                       // Present (bottom left)
-      { x: rightX, y: bottomY },                      // Future (bottom right)
-    ];
-  };
-
-  /**
-   * Calculate vertical 3-card spread positions (stacked).
-   * Labels sit above each card with reserved space so they never overlap.
-   */
-  const calculateThreeCardAccordionPositions = () => {
-    const headerHeight = 48;
-    const cardWidth = 120;
-    const cardHeight = 180;
-    const verticalSpacing = LABEL_HEIGHT + LABEL_GAP + 12;
-    const startY = headerHeight + LABEL_HEIGHT + LABEL_GAP;
-    const centerX = (SCREEN_WIDTH - cardWidth) / 2;
-
-    return [
-      { x: centerX, y: startY },
-      { x: centerX, y: startY + cardHeight + verticalSpacing },
-      { x: centerX, y: startY + (cardHeight + verticalSpacing) * 2 },
-    ];
-  };
-
-  /**
-   * Calculate card positions in a grid
-   * Single card is larger and centered
-   * Celtic Cross uses special traditional layout
-   * 3-card spread uses accordion/fan style layout
-   * Cards are positioned relative to the cardsContainer (which is flex: 1)
-   */
-  const calculateCardPositions = (count: number, spreadId?: string) => {
-    // Celtic Cross: use traditional cross layout
-    if (spreadId === "celtic_cross" && count === 10) {
-      return calculateCelticCrossPositions();
-    }
-
-    // 3-card spread: triangular layout (Past top, Present/Future bottom)
-    if (spreadId === "three_card" && count === 3) {
-      return calculateThreeCardTrianglePositions();
-    }
-
-    // Single card: centered in the area below the button (no extra gap)
-    if (count === 1) {
-      const areaHeight = SCREEN_HEIGHT - SINGLE_CARD_HEADER_HEIGHT;
-      const centerY = (areaHeight - SINGLE_CARD_HEIGHT) / 2;
-      return [
-        {
-          x: (SCREEN_WIDTH - SINGLE_CARD_WIDTH) / 2,
-          y: centerY,
-        },
-      ];
-    }
-
-    // Multiple cards: use grid layout, ensure cards fit on screen
-    const headerHeight = 100;
-    const availableHeight = SCREEN_HEIGHT - headerHeight;
-    const cardsPerRow = Math.ceil(Math.sqrt(count));
-    const totalRows = Math.ceil(count / cardsPerRow);
-
-    // Calculate card size to fit screen
-    const maxTotalWidth = SCREEN_WIDTH * 0.9;
-    const spacing = 12;
-    const maxCardWidth =
-      (maxTotalWidth - spacing * (cardsPerRow - 1)) / cardsPerRow;
-    const aspectRatio = 2 / 3;
-
-    let cardWidth = Math.min(110, maxCardWidth);
-    let cardHeight = cardWidth / aspectRatio;
-
-    // Ensure cards fit vertically
-    const maxTotalHeight = availableHeight * 0.85;
-    const calculatedHeight = totalRows * cardHeight + spacing * (totalRows - 1);
-    if (calculatedHeight > maxTotalHeight) {
-      cardHeight = (maxTotalHeight - spacing * (totalRows - 1)) / totalRows;
-      cardWidth = cardHeight * aspectRatio;
-    }
-
-    // Calculate total dimensions
-    const totalWidth = cardsPerRow * cardWidth + (cardsPerRow - 1) * spacing;
-    const totalHeight = totalRows * cardHeight + (totalRows - 1) * spacing;
-
-    // Center everything: horizontally and vertically in available space
-    const startX = (SCREEN_WIDTH - totalWidth) / 2;
-    const startY = headerHeight + (availableHeight - totalHeight) / 2;
-
-    const positions = [];
-
-    for (let i = 0; i < count; i++) {
-      const row = Math.floor(i / cardsPerRow);
-      const col = i % cardsPerRow;
-      positions.push({
-        x: startX + col * (cardWidth + spacing),
-        y: startY + row * (cardHeight + spacing),
-      });
-    }
-
-    return positions;
-  };
-
   /**
    * Consume credits when first card is revealed
    * This is called after user acknowledges the warning modal
@@ -538,7 +467,8 @@ export default function ReadingScreen() {
   /**
    * Handle card reveal with flip animation
    * Card reveals in the direction it will appear in the reading (reversed if needed)
-   * If this is the first card (index === 0), consume credits immediately
+   * If this is the first card (index === 0), consume credits immediately and save the
+   * reading to history; draws abandoned or reshuffled before that are never kept
    */
   const handleRevealCard = async (index: number) => {
     const scaleAnim = cardScaleAnims.get(index);
@@ -562,6 +492,14 @@ export default function ReadingScreen() {
       }
     }
 
+    // Save to this wallet's reading history so the user can view it again from home
+    if (index === 0 && !revealedCards.has(0) && currentReading) {
+      const accountId = await getCurrentAccountId();
+      if (accountId) {
+        saveReading(accountId, currentReading).catch(() => {});
+      }
+    }
+
     // Create flip animation sequence
     Animated.sequence([
       // Scale up and start flip
@@ -630,7 +568,11 @@ export default function ReadingScreen() {
         {
           spreadId: selectedSpreadId!,
           question,
-          allowReversals: true,
+          allowReversals: activeReversalStrategy.mode !== "none",
+          reversalStrategy: activeReversalStrategy,
+          significatorCardId: significatorCardId ?? undefined,
+          focusCategory: focusCategory ?? undefined,
+          tone,
         },
         spread,
       );
@@ -641,8 +583,30 @@ export default function ReadingScreen() {
         creditCost: spread.creditCost,
       });
 
-      // Draw new cards (allow reversals)
-      const drawn = drawCards(spread, cards, true);
+      // Create shuffling cards animation
+      const shuffleCardCount = 20;
+      for (let i = 0; i < shuffleCardCount; i++) {
+        shuffleCards[i] = new Animated.Value(0);
+      }
+
+      // Start shuffling animation
+      shuffleEntropy.reset();
+      startShufflingAnimation(shuffleCardCount);
+
+      // Wait for shuffle animation (taps during this window feed the shuffle)
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+
+      // Draw new cards once the user's shuffle taps are in
+      const random = createRandomProvider({
+        seed: draft.seed,
+        userEntropy: shuffleEntropy.toEntropyString(),
+      });
+      const { drawn, deckSessionId } = dealFromDeckSession(
+        spread,
+        cards,
+        draft,
+        random,
+      );
       setDrawnCards(drawn);
 
       // Initialize animation values for drawn cards
@@ -658,17 +622,6 @@ export default function ReadingScreen() {
         );
       });
 
-      // Create shuffling cards animation
-      const shuffleCardCount = 20;
-      for (let i = 0; i < shuffleCardCount; i++) {
-        shuffleCards[i] = new Animated.Value(0);
-      }
-
-      // Start shuffling animation
-      startShufflingAnimation(shuffleCardCount);
-
-      // Wait for shuffle animation
-      await new Promise((resolve) => setTimeout(resolve, 3000));
       setShuffling(false);
 
       // Build result
@@ -679,20 +632,23 @@ export default function ReadingScreen() {
         question,
         drawn,
         cardIndex,
+        {
+          seed: random.seed,
+          randomSource: random.source,
+          reversalStrategy: draft.reversals,
+          deckSessionId,
+          significatorCardId: draft.significatorCardId,
+          focusCategory: draft.focusCategory,
+          tone: draft.tone,
+        },
       );
 
       // Set reading result
       setCurrentReading(result);
       setReadingState("RESULT");
 
-      // Persist as last reading for this wallet
-      const accountId = await getCurrentAccountId();
-      if (accountId) {
-        saveLastReading(accountId, result).catch(() => {});
-      }
-
       // Animate cards into position
-      animateCardsIntoPosition(drawn.length);
+      animateCardsIntoPosition(spread);
 
       // Fade in content
       Animated.timing(fadeAnim, {
@@ -788,7 +744,14 @@ export default function ReadingScreen() {
    */
   const renderShufflingAnimation = () => {
     return (
-      <View style={styles.shufflingContainer}>
+      <Pressable
+        style={styles.shufflingContainer}
+        onPressIn={(event) => {
+          // Tap timing (sub-millisecond) plus touch point become shuffle entropy
+          shuffleEntropy.addSample(performance.now());
+          shuffleEntropy.addSample(event.nativeEvent.pageX * 1000 + event.nativeEvent.pageY);
+        }}
+      >
         {shuffleCards.slice(0, 20).map((anim, index) => {
           const rotate = anim.interpolate({
             inputRange: [0, 1],
@@ -838,8 +801,11 @@ export default function ReadingScreen() {
         <View style={styles.shufflingTextContainer}>
           <Text style={styles.shufflingText}>Shuffling the cards...</Text>
           <Text style={styles.shufflingSubtext}>The universe is aligning</Text>
+          <Text style={[styles.shufflingSubtext, { marginTop: 6 }]}>
+            Tap to add your energy to the shuffle
+          </Text>
         </View>
-      </View>
+      </Pressable>
     );
   };
 
@@ -915,56 +881,44 @@ export default function ReadingScreen() {
             </View>
           )}
 
-          {/* Cards container - scrollable for Celtic Cross */}
-          {selectedSpreadId === "celtic_cross" ? (
+          {/* Cards container - laid out from the spread's geometry; scrolls when taller than the screen */}
+          {spreadLayout && (
             <ScrollView
               style={styles.cardsContainerScroll}
               contentContainerStyle={[
                 styles.cardsContainerContent,
-                { minHeight: calculateCelticCrossContentHeight() },
+                { minHeight: spreadLayout.contentHeight },
               ]}
-              showsVerticalScrollIndicator={true}
+              scrollEnabled={spreadLayout.contentHeight > CARD_AREA_HEIGHT}
+              showsVerticalScrollIndicator={
+                spreadLayout.contentHeight > CARD_AREA_HEIGHT
+              }
             >
-              <View style={styles.cardsContainer}>
+              <View
+                style={[
+                  styles.cardsContainer,
+                  {
+                    height: Math.max(
+                      CARD_AREA_HEIGHT,
+                      spreadLayout.contentHeight,
+                    ),
+                  },
+                ]}
+              >
                 {drawnCards.map((drawnCard, index) => {
+                  const placement = spreadLayout.cards[index];
+                  if (!placement) return null;
                   const isRevealed = revealedCards.has(index);
                   const card = getCard(drawnCard.cardId);
+                  const isSingleCard = drawnCards.length === 1;
 
                   const scaleAnim =
                     cardScaleAnims.get(index) || new Animated.Value(1);
-                  // SIMPLIFIED: Initialize all cards to center of available space
-                  const isSingleCard = drawnCards.length === 1;
-                  const isThreeCard =
-                    selectedSpreadId === "three_card" && drawnCards.length === 3;
-                  const isCelticCross = selectedSpreadId === "celtic_cross";
-                  const initialCardWidth = isSingleCard
-                    ? SINGLE_CARD_WIDTH
-                    : isThreeCard
-                      ? 120
-                      : isCelticCross
-                        ? CELTIC_CARD_WIDTH
-                        : 120;
-                  const initialCardHeight = isSingleCard
-                    ? SINGLE_CARD_HEIGHT
-                    : isThreeCard
-                      ? 180
-                      : isCelticCross
-                        ? CELTIC_CARD_HEIGHT
-                        : 180;
-
-                  // Single card: center in area below button; others: center in area below header
-                  const headerHeight = 100;
-                  const availableHeight = SCREEN_HEIGHT - headerHeight;
-                  const centerX = (SCREEN_WIDTH - initialCardWidth) / 2;
-                  const centerY = isSingleCard
-                    ? (SCREEN_HEIGHT - SINGLE_CARD_HEADER_HEIGHT - initialCardHeight) / 2
-                    : headerHeight + (availableHeight - initialCardHeight) / 2;
-
                   const posAnim =
                     cardPositionAnims.get(index) ||
                     new Animated.ValueXY({
-                      x: centerX,
-                      y: centerY,
+                      x: placement.x,
+                      y: placement.y,
                     });
                   const flipAnim =
                     cardFlipAnims.get(index) || new Animated.Value(0);
@@ -980,8 +934,6 @@ export default function ReadingScreen() {
                   });
 
                   const isReversed = drawnCard.isReversed || false;
-                  // Cross cards are side-by-side; no rotation so both are readable
-                  const isChallengeCard = false;
 
                   // Flip animation for card back: rotates from 0deg to 180deg
                   const backFlipRotate = flipAnim.interpolate({
@@ -1000,26 +952,21 @@ export default function ReadingScreen() {
                       : ["180deg", "0deg"], // Upright: flips from 180deg to 0deg
                   });
 
-                  // For Challenge card in Celtic Cross, add 90deg rotation to cross horizontally
-                  const challengeRotation = isChallengeCard ? "90deg" : "0deg";
-
-                  const imageSource = isRevealed
-                    ? getCardImageSource(getCardImagePath(card))
-                    : getCardImageSource(getCardBackImagePath());
-
                   return (
                     <Animated.View
                       key={`card-${index}`}
                       style={[
                         styles.cardWrapper,
-                        isSingleCard && styles.cardWrapperSingle,
-                        isCelticCross && styles.cardWrapperCeltic,
-                        isThreeCard && styles.cardWrapperThree,
                         {
+                          width: placement.width,
+                          height: placement.height,
+                          zIndex: placement.zIndex,
                           transform: [
                             { translateX: posAnim.x },
                             { translateY: posAnim.y },
                             { scale: scaleAnim },
+                            // Crossing cards lie turned across the card beneath
+                            { rotate: `${placement.rotation}deg` },
                           ],
                         },
                       ]}
@@ -1028,8 +975,7 @@ export default function ReadingScreen() {
                         style={[
                           styles.cardPlaceholder,
                           isSingleCard && styles.cardPlaceholderSingle,
-                          isCelticCross && styles.cardPlaceholderCeltic,
-                          isThreeCard && styles.cardPlaceholderThree,
+                          { width: placement.width, height: placement.height },
                         ]}
                         onPress={() => {
                           // Allow revealing cards by tapping them
@@ -1049,10 +995,7 @@ export default function ReadingScreen() {
                             styles.cardBack,
                             {
                               opacity: backOpacity,
-                              transform: [
-                                { rotate: backFlipRotate },
-                                { rotate: challengeRotation },
-                              ],
+                              transform: [{ rotate: backFlipRotate }],
                             },
                           ]}
                         >
@@ -1070,10 +1013,7 @@ export default function ReadingScreen() {
                             styles.cardFront,
                             {
                               opacity: frontOpacity,
-                              transform: [
-                                { rotate: frontFlipRotate },
-                                { rotate: challengeRotation },
-                              ],
+                              transform: [{ rotate: frontFlipRotate }],
                             },
                           ]}
                         >
@@ -1096,309 +1036,64 @@ export default function ReadingScreen() {
                   );
                 })}
 
-            {/* Position labels above each card - rendered on top, no overflow */}
-            {(selectedSpreadId === "three_card" ||
-              selectedSpreadId === "celtic_cross") &&
-              drawnCards.length > 0 &&
-              (() => {
-                const spread = getSpread(selectedSpreadId!);
-                const positions =
-                  selectedSpreadId === "celtic_cross"
-                    ? calculateCelticCrossPositions()
-                    : selectedSpreadId === "three_card"
-                      ? calculateThreeCardTrianglePositions()
-                      : [];
-                const isCelticCross = selectedSpreadId === "celtic_cross";
-                const cardWidth = isCelticCross ? CELTIC_CARD_WIDTH : 120;
-                return (
-                  <>
-                    {drawnCards.map((_, index) => {
-                      const position = spread.positions[index];
-                      if (!position) return null;
-                      const cardPos = positions[index];
-                      if (!cardPos) return null;
-                      const labelTop = cardPos.y - LABEL_HEIGHT - LABEL_GAP;
-                      return (
+                {/* Position labels above each card - rendered on top, no overflow */}
+                {(() => {
+                  const spread = getSpread(selectedSpreadId!);
+                  const isCompact =
+                    spreadLayout.cardWidth < COMPACT_LABEL_CARD_WIDTH;
+                  return drawnCards.map((_, index) => {
+                    const position = spread.positions[index];
+                    const label = spreadLayout.cards[index]?.label;
+                    if (!position || !label) return null;
+                    return (
+                      <View
+                        key={`label-${index}`}
+                        style={[
+                          styles.positionLabelContainer,
+                          {
+                            left: label.x,
+                            top: label.y,
+                            width: label.width,
+                            height: label.height,
+                          },
+                        ]}
+                        pointerEvents="none"
+                      >
                         <View
-                          key={`label-${index}`}
                           style={[
-                            styles.positionLabelContainer,
+                            styles.positionLabelPill,
                             {
-                              left: cardPos.x,
-                              top: labelTop,
-                              width: cardWidth,
-                              height: LABEL_HEIGHT,
+                              backgroundColor: theme.colors.background.overlay,
+                              borderColor: theme.colors.glass.border,
+                              paddingHorizontal: isCompact ? 6 : 12,
+                              paddingVertical: isCompact ? 3 : 5,
                             },
                           ]}
-                          pointerEvents="none"
                         >
-                          <View
+                          <Text
                             style={[
-                              styles.positionLabelPill,
+                              theme.typography.caption,
+                              styles.positionLabelText,
                               {
-                                backgroundColor: theme.colors.background.overlay,
-                                borderColor: theme.colors.glass.border,
-                                paddingHorizontal: isCelticCross ? 6 : 12,
-                                paddingVertical: isCelticCross ? 3 : 5,
+                                fontWeight: theme.typography.weights.bold,
+                                textTransform: "uppercase",
+                                letterSpacing: isCompact ? 0.3 : 0.6,
+                                color: theme.colors.text.primary,
+                                fontSize: isCompact ? 9 : 13,
+                                lineHeight: isCompact ? 12 : 18,
                               },
                             ]}
+                            numberOfLines={2}
                           >
-                            <Text
-                              style={[
-                                theme.typography.caption,
-                                styles.positionLabelText,
-                                {
-                                  fontWeight: theme.typography.weights.bold,
-                                  textTransform: "uppercase",
-                                  letterSpacing: isCelticCross ? 0.3 : 0.6,
-                                  color: theme.colors.text.primary,
-                                  fontSize: isCelticCross ? 9 : 13,
-                                  lineHeight: isCelticCross ? 12 : 18,
-                                },
-                              ]}
-                              numberOfLines={2}
-                            >
-                              {position.label}
-                            </Text>
-                          </View>
+                            {position.label}
+                          </Text>
                         </View>
-                      );
-                    })}
-                  </>
-                );
-              })()}
-              </View>
-            </ScrollView>
-          ) : (
-            <View style={styles.cardsContainer}>
-              {/* Cards are rendered in the ScrollView branch above for Celtic Cross */}
-              {/* For other spreads, cards are rendered normally without ScrollView */}
-              {drawnCards.map((drawnCard, index) => {
-                const isRevealed = revealedCards.has(index);
-                const card = getCard(drawnCard.cardId);
-
-                const scaleAnim =
-                  cardScaleAnims.get(index) || new Animated.Value(1);
-                const isSingleCard = drawnCards.length === 1;
-                const isThreeCard =
-                  selectedSpreadId === "three_card" && drawnCards.length === 3;
-                const isCelticCross = selectedSpreadId === "celtic_cross";
-                const initialCardWidth = isSingleCard
-                  ? SINGLE_CARD_WIDTH
-                  : isThreeCard
-                    ? 120
-                    : isCelticCross
-                      ? CELTIC_CARD_WIDTH
-                      : 120;
-                const initialCardHeight = isSingleCard
-                  ? SINGLE_CARD_HEIGHT
-                  : isThreeCard
-                    ? 180
-                    : isCelticCross
-                      ? CELTIC_CARD_HEIGHT
-                      : 180;
-
-                const headerHeight = 100;
-                const availableHeight = SCREEN_HEIGHT - headerHeight;
-                const centerX = (SCREEN_WIDTH - initialCardWidth) / 2;
-                const centerY = isSingleCard
-                  ? (SCREEN_HEIGHT - SINGLE_CARD_HEADER_HEIGHT - initialCardHeight) / 2
-                  : headerHeight + (availableHeight - initialCardHeight) / 2;
-
-                const posAnim =
-                  cardPositionAnims.get(index) ||
-                  new Animated.ValueXY({
-                    x: centerX,
-                    y: centerY,
+                      </View>
+                    );
                   });
-                const flipAnim =
-                  cardFlipAnims.get(index) || new Animated.Value(0);
-
-                const backOpacity = flipAnim.interpolate({
-                  inputRange: [0, 0.5, 1],
-                  outputRange: [1, 0, 0],
-                });
-
-                const frontOpacity = flipAnim.interpolate({
-                  inputRange: [0, 0.5, 1],
-                  outputRange: [0, 0, 1],
-                });
-
-                const isReversed = drawnCard.isReversed || false;
-                const isChallengeCard = false;
-
-                const backFlipRotate = flipAnim.interpolate({
-                  inputRange: [0, 1],
-                  outputRange: ["0deg", "180deg"],
-                });
-
-                const frontFlipRotate = flipAnim.interpolate({
-                  inputRange: [0, 1],
-                  outputRange: isReversed
-                    ? ["180deg", "180deg"]
-                    : ["180deg", "0deg"],
-                });
-
-                const challengeRotation = isChallengeCard ? "90deg" : "0deg";
-
-                return (
-                  <Animated.View
-                    key={`card-${index}`}
-                    style={[
-                      styles.cardWrapper,
-                      isSingleCard && styles.cardWrapperSingle,
-                      isCelticCross && styles.cardWrapperCeltic,
-                      isThreeCard && styles.cardWrapperThree,
-                      {
-                        transform: [
-                          { translateX: posAnim.x },
-                          { translateY: posAnim.y },
-                          { scale: scaleAnim },
-                        ],
-                      },
-                    ]}
-                  >
-                    <TouchableOpacity
-                      style={[
-                        styles.cardPlaceholder,
-                        isSingleCard && styles.cardPlaceholderSingle,
-                        isCelticCross && styles.cardPlaceholderCeltic,
-                        isThreeCard && styles.cardPlaceholderThree,
-                      ]}
-                      onPress={() => {
-                        // Allow revealing cards by tapping them
-                        // Only reveal if this is the next card to reveal (in order)
-                        const nextIndex = revealedCards.size;
-                        if (!isRevealed && index === nextIndex) {
-                          handleRevealCard(index);
-                        }
-                      }}
-                      disabled={isRevealed || index !== revealedCards.size}
-                      activeOpacity={0.9}
-                    >
-                      <Animated.View
-                        style={[
-                          styles.cardFace,
-                          styles.cardBack,
-                          {
-                            opacity: backOpacity,
-                            transform: [
-                              { rotate: backFlipRotate },
-                              { rotate: challengeRotation },
-                            ],
-                          },
-                        ]}
-                      >
-                        <Image
-                          source={getCardImageSource(getCardBackImagePath())}
-                          style={styles.cardImage}
-                          resizeMode="contain"
-                        />
-                      </Animated.View>
-
-                      <Animated.View
-                        style={[
-                          styles.cardFace,
-                          styles.cardFront,
-                          {
-                            opacity: frontOpacity,
-                            transform: [
-                              { rotate: frontFlipRotate },
-                              { rotate: challengeRotation },
-                            ],
-                          },
-                        ]}
-                      >
-                        <Image
-                          source={getCardImageSource(getCardImagePath(card))}
-                          style={styles.cardImage}
-                          resizeMode="contain"
-                        />
-                        {isRevealed && (
-                          <View style={styles.cardLabel}>
-                            <Text style={styles.cardName}>{card.name}</Text>
-                            {drawnCard.isReversed && (
-                              <Text style={styles.reversedLabel}>(Reversed)</Text>
-                            )}
-                          </View>
-                        )}
-                      </Animated.View>
-                    </TouchableOpacity>
-                  </Animated.View>
-                );
-              })}
-
-              {(selectedSpreadId === "three_card" ||
-                selectedSpreadId === "celtic_cross") &&
-                drawnCards.length > 0 &&
-                (() => {
-                  const spread = getSpread(selectedSpreadId!);
-                  const positions =
-                    selectedSpreadId === "celtic_cross"
-                      ? calculateCelticCrossPositions()
-                      : selectedSpreadId === "three_card"
-                        ? calculateThreeCardTrianglePositions()
-                        : [];
-                  const isCelticCross = selectedSpreadId === "celtic_cross";
-                  const cardWidth = isCelticCross ? CELTIC_CARD_WIDTH : 120;
-                  return (
-                    <>
-                      {drawnCards.map((_, index) => {
-                        const position = spread.positions[index];
-                        if (!position) return null;
-                        const cardPos = positions[index];
-                        if (!cardPos) return null;
-                        const labelTop = cardPos.y - LABEL_HEIGHT - LABEL_GAP;
-                        return (
-                          <View
-                            key={`label-${index}`}
-                            style={[
-                              styles.positionLabelContainer,
-                              {
-                                left: cardPos.x,
-                                top: labelTop,
-                                width: cardWidth,
-                                height: LABEL_HEIGHT,
-                              },
-                            ]}
-                            pointerEvents="none"
-                          >
-                            <View
-                              style={[
-                                styles.positionLabelPill,
-                                {
-                                  backgroundColor: theme.colors.background.overlay,
-                                  borderColor: theme.colors.glass.border,
-                                  paddingHorizontal: isCelticCross ? 6 : 12,
-                                  paddingVertical: isCelticCross ? 3 : 5,
-                                },
-                              ]}
-                            >
-                              <Text
-                                style={[
-                                  theme.typography.caption,
-                                  styles.positionLabelText,
-                                  {
-                                    fontWeight: theme.typography.weights.bold,
-                                    textTransform: "uppercase",
-                                    letterSpacing: isCelticCross ? 0.3 : 0.6,
-                                    color: theme.colors.text.primary,
-                                    fontSize: isCelticCross ? 9 : 13,
-                                    lineHeight: isCelticCross ? 12 : 18,
-                                  },
-                                ]}
-                                numberOfLines={2}
-                              >
-                                {position.label}
-                              </Text>
-                            </View>
-                          </View>
-                        );
-                      })}
-                    </>
-                  );
                 })()}
-            </View>
+              </View>
+            </ScrollView>
           )}
         </Animated.View>
 
@@ -1787,20 +1482,6 @@ const styles = StyleSheet.create({
     width: 120,
     height: 180,
   },
-  cardWrapperSingle: {
-    width: SINGLE_CARD_WIDTH,
-    height: SINGLE_CARD_HEIGHT,
-  },
-  cardWrapperCeltic: {
-    position: "absolute",
-    width: 110,
-    height: 165,
-  },
-  cardWrapperThree: {
-    position: "absolute",
-    width: 120,
-    height: 180,
-  },
   cardPlaceholder: {
     width: 120,
     height: 180,
@@ -1811,36 +1492,10 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.6,
     shadowRadius: 12,
     elevation: 8,
-  },
-  cardPlaceholderCeltic: {
-    width: 110,
-    height: 165,
-    borderRadius: 12,
-    overflow: "hidden",
-    shadowColor: "#3dd9b8",
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.7,
-    shadowRadius: 10,
-    elevation: 8,
-    borderWidth: 1,
-    borderColor: "rgba(61, 217, 184, 0.3)",
-  },
-  cardPlaceholderThree: {
-    width: 120,
-    height: 180,
-    borderRadius: 14,
-    overflow: "hidden",
-    shadowColor: "#3dd9b8",
-    shadowOffset: { width: 0, height: 6 },
-    shadowOpacity: 0.8,
-    shadowRadius: 15,
-    elevation: 10,
     borderWidth: 1,
     borderColor: "rgba(61, 217, 184, 0.3)",
   },
   cardPlaceholderSingle: {
-    width: SINGLE_CARD_WIDTH,
-    height: SINGLE_CARD_HEIGHT,
     borderRadius: 20,
     shadowRadius: 25,
     elevation: 15,
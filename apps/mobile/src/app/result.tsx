@@ -1,6 +1,6 @@
 /**
  * Result Screen - Display reading results
- * Shows per-card meanings and AI narrative
+ * Shows per-card meanings, clarifier pulls, reading patterns and AI narrative
  */
 
 import { useEffect, useCallback, useRef, useState } from "react";
@@ -19,23 +19,70 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
 import { useFocusEffect } from "@react-navigation/native";
 import { useReadingStore } from "../state/readingStore";
+import { useCreditsStore } from "../state/creditsStore";
+import { useDeckSessionStore } from "../state/deckSessionStore";
 import { logger } from "../core/logger";
-import { getCard, loadCards } from "../data/tarot/loader";
+import { CLARIFIER_CREDIT_COST } from "../core/tarotEngine";
+import { drawClarifiersForReading } from "../core/deckSession";
+import { createRandomProvider } from "../core/random";
+import { analyzeReading } from "../core/readingAnalysis";
+import { formatReadingPatterns } from "../utils/readingPatterns";
+import { NARRATIVE_TONE_OPTIONS } from "../utils/readingOptions";
+import {
+  consumeCredits,
+  getCurrentAccountId,
+  grantCredits,
+} from "../services/creditsService";
+import { saveReading } from "../services/readingHistoryService";
+import { askReadingQuestion, generateAiNarrative } from "../services/aiService";
+import { getAppConfig } from "../config/appConfig";
+import { InsufficientCreditsError } from "../types/credits";
+import type {
+  ClarifierCard,
+  DetectedCombination,
+  NarrativeTone,
+  ReadingCategory,
+  ReadingChatMessage,
+  ReadingResultLocal,
+  StructuredNarrative,
+} from "../types/tarot";
+import { getCard, getAllCards, getSpreadForReading, loadCards } from "../data/tarot/loader";
 import { getCardImagePath } from "../utils/cardImageMapper";
 import { getCardImageSource } from "../utils/cardImageMap";
 import { useTheme } from "../theme/index";
 import { LiquidBackground, GlassCard, NeonButton } from "../theme/components";
+import { JournalEditor } from "../components/JournalEditor";
+import { ExportActions } from "../components/ExportActions";
+import { ShareImageSheet } from "../components/ShareImageSheet";
+import { ReadingChat } from "../components/ReadingChat";
 
 /** Local easing to avoid passing frozen theme values to Animated */
 const SMOOTH_EASING = Easing.bezier(0.4, 0.0, 0.2, 1);
 
+const CATEGORY_HEADINGS: Record<ReadingCategory, string> = {
+  love: "💕 Love",
+  health: "💚 Health",
+  moneyCareer: "💰 Money & Career",
+  spirituality: "Spirituality",
+};
+
 export default function ResultScreen() {
   const router = useRouter();
-  const { currentReading, reset } = useReadingStore();
+  const { currentReading, setCurrentReading, reset } = useReadingStore();
   const theme = useTheme();
   const fadeAnimation = useRef(new Animated.Value(0)).current;
   const [cardsReady, setCardsReady] = useState(false);
+  const [pullingClarifier, setPullingClarifier] = useState(false);
   const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [shareImageOpen, setShareImageOpen] = useState(false);
+  const enableAiNarrative = useReadingStore((state) => state.enableAiNarrative);
+  const [narrativeDraft, setNarrativeDraft] = useState("");
+  const [narrativeStatus, setNarrativeStatus] = useState<
+    "idle" | "streaming" | "error"
+  >("idle");
+  const [narrativeAttempt, setNarrativeAttempt] = useState(0);
+  const [askingQuestion, setAskingQuestion] = useState(false);
+  const chatCreditCost = getAppConfig().chatCreditCost;
 
   const toggle = (key: string) => {
     setExpanded((prev) => ({ ...prev, [key]: !prev[key] }));
@@ -114,6 +161,57 @@ export default function ResultScreen() {
     }).start();
   }, [currentReading, router, fadeAnimation]);
 
+  /**
+   * Stream the AI narrative into the screen for readings that don't have one yet.
+   * Leaving the screen aborts the request, which cancels it on the backend too.
+   */
+  const readingId: string | undefined = currentReading?.readingId;
+  const hasNarrative = !!currentReading?.aiNarrative;
+  useEffect(() => {
+    const reading = useReadingStore.getState().currentReading;
+    if (!reading || !cardsReady || hasNarrative || !enableAiNarrative) return;
+
+    const controller = new AbortController();
+    setNarrativeDraft("");
+    setNarrativeStatus("streaming");
+
+    generateAiNarrative(reading, {
+      outputFormat: "json",
+      signal: controller.signal,
+      onDelta: (text) => setNarrativeDraft((draft) => draft + text),
+    })
+      .then(async ({ aiNarrative, structuredNarrative }) => {
+        // Merge into the latest reading so edits made while streaming are kept
+        const latest = useReadingStore.getState().currentReading;
+        if (!latest || latest.readingId !== reading.readingId) return;
+        const updated = {
+          ...latest,
+          aiNarrative,
+          aiStructuredNarrative: structuredNarrative,
+        };
+        setCurrentReading(updated);
+        setNarrativeStatus("idle");
+        const accountId = await getCurrentAccountId();
+        if (accountId) {
+          saveReading(accountId, updated).catch(() => {});
+        }
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) {
+          setNarrativeStatus("error");
+        }
+      });
+
+    return () => controller.abort();
+  }, [
+    readingId,
+    cardsReady,
+    hasNarrative,
+    enableAiNarrative,
+    narrativeAttempt,
+    setCurrentReading,
+  ]);
+
   /**
    * Warn users that navigating back will lose the reading.
    */
@@ -147,6 +245,175 @@ export default function ResultScreen() {
     }, [reset, router]),
   );
 
+  /**
+   * Keep journal edits on the current reading and in the reading history
+   */
+  const updateJournal = async (updated: ReadingResultLocal) => {
+    setCurrentReading(updated);
+    const accountId = await getCurrentAccountId();
+    if (accountId) {
+      saveReading(accountId, updated).catch(() => {});
+    }
+  };
+
+  /**
+   * Pull one clarifier for a position
+   * Draws first and charges CLARIFIER_CREDIT_COST only once the draw succeeded;
+   * the card is kept only if the charge goes through
+   */
+  const pullClarifier = async (positionIndex: number) => {
+    if (!currentReading || pullingClarifier) return;
+    setPullingClarifier(true);
+
+    try {
+      const accountId = await getCurrentAccountId();
+      const deckStore = useDeckSessionStore.getState();
+      const pulled = drawClarifiersForReading(
+        currentReading,
+        positionIndex,
+        1,
+        getAllCards(),
+        createRandomProvider(),
+        deckStore.session,
+      );
+
+      await consumeCredits(
+        CLARIFIER_CREDIT_COST,
+        currentReading.readingId,
+        accountId || undefined,
+      );
+
+      if (pulled.session) {
+        deckStore.setSession(pulled.session);
+      }
+      setCurrentReading(pulled.reading);
+
+      if (accountId) {
+        saveReading(accountId, pulled.reading).catch(() => {});
+      }
+      await useCreditsStore.getState().refreshBalance();
+
+      logger.info("ui.reading.clarifier.pulled", {
+        readingId: currentReading.readingId,
+        positionIndex,
+      });
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        Alert.alert(
+          "Not enough credits",
+          `A clarifier costs ${CLARIFIER_CREDIT_COST} credit. Add credits to continue.`,
+          [
+            { text: "Cancel", style: "cancel" },
+            { text: "Add credits", onPress: () => router.push("/paywall") },
+          ],
+        );
+      } else {
+        logger.error("ui.reading.clarifier.error", {
+          error: error instanceof Error ? error.message : String(error),
+          positionIndex,
+        });
+        Alert.alert("Clarifier failed", "Please try again.");
+      }
+    } finally {
+      setPullingClarifier(false);
+    }
+  };
+
+  /**
+   * Ask a follow-up question about the reading
+   * Charges chatCreditCost up front and gives it back if no answer arrives.
+   * Resolves true when the question and answer were added to the reading.
+   */
+  const askFollowUp = async (question: string): Promise<boolean> => {
+    if (!currentReading || askingQuestion) return false;
+    setAskingQuestion(true);
+    const askedAtIso = new Date().toISOString();
+    const accountId = await getCurrentAccountId();
+    let charged = false;
+
+    try {
+      if (chatCreditCost > 0) {
+        const { newBalance } = await consumeCredits(
+          chatCreditCost,
+          currentReading.readingId,
+          accountId || undefined,
+        );
+        // Infinite-credit wallets are never charged, so there is nothing to refund
+        charged = Number.isFinite(newBalance);
+        await useCreditsStore.getState().refreshBalance();
+      }
+
+      const answer = await askReadingQuestion(currentReading, question);
+
+      // Merge into the latest reading so edits made while waiting are kept
+      const latest: ReadingResultLocal =
+        useReadingStore.getState().currentReading ?? currentReading;
+      const chat: ReadingChatMessage[] = [
+        ...(latest.chat ?? []),
+        { role: "user", content: question, createdAtIso: askedAtIso },
+        { role: "assistant", content: answer, createdAtIso: new Date().toISOString() },
+      ];
+      const updated = { ...latest, chat };
+      setCurrentReading(updated);
+      if (accountId) {
+        saveReading(accountId, updated).catch(() => {});
+      }
+
+      logger.info("ui.reading.chat.answered", {
+        readingId: currentReading.readingId,
+        messageCount: chat.length,
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        Alert.alert(
+          "Not enough credits",
+          `A follow-up question costs ${chatCreditCost} credit${chatCreditCost === 1 ? "" : "s"}. Add credits to continue.`,
+          [
+            { text: "Cancel", style: "cancel" },
+            { text: "Add credits", onPress: () => router.push("/paywall") },
+          ],
+        );
+        return false;
+      }
+
+      logger.error("ui.reading.chat.error", {
+        error: error instanceof Error ? error.message : String(error),
+        readingId: currentReading.readingId,
+      });
+      if (charged) {
+        await grantCredits(
+          chatCreditCost,
+          "promo",
+          currentReading.readingId,
+          `refund:chat:${currentReading.readingId}`,
+          accountId || undefined,
+        ).catch(() => {});
+        await useCreditsStore.getState().refreshBalance();
+      }
+      Alert.alert(
+        "Question failed",
+        charged
+          ? "Your credits were returned. Please try again."
+          : "Please try again.",
+      );
+      return false;
+    } finally {
+      setAskingQuestion(false);
+    }
+  };
+
+  const handlePullClarifier = (positionIndex: number, positionLabel: string) => {
+    Alert.alert(
+      "Pull a clarifier?",
+      `Draw one more card to shed light on "${positionLabel}". This costs ${CLARIFIER_CREDIT_COST} credit.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Pull card", onPress: () => pullClarifier(positionIndex) },
+      ],
+    );
+  };
+
   const handleNewReading = () => {
     reset();
     router.replace("/");
@@ -156,6 +423,22 @@ export default function ResultScreen() {
     return null;
   }
 
+  const spread = getSpreadForReading(currentReading);
+  const focusCategory: ReadingCategory | undefined = currentReading.focusCategory;
+  const structuredNarrative: StructuredNarrative | undefined =
+    currentReading.aiStructuredNarrative;
+  const tone: NarrativeTone | undefined = currentReading.tone;
+  const toneLabel = NARRATIVE_TONE_OPTIONS.find((option) => option.value === tone)?.label;
+  const chatMessages: ReadingChatMessage[] = currentReading.chat ?? [];
+  const patternRows = formatReadingPatterns(
+    analyzeReading(
+      currentReading,
+      new Map(getAllCards().map((card) => [card.id, card])),
+    ),
+    spread,
+    (cardId) => getCard(cardId).name,
+  );
+
   return (
     <LiquidBackground>
       <SafeAreaView style={styles.container}>
@@ -175,6 +458,60 @@ export default function ResultScreen() {
             >
               Your Reading
             </Text>
+            {focusCategory && (
+              <Text
+                style={[
+                  theme.typography.bodySmall,
+                  {
+                    textAlign: "center",
+                    color: theme.colors.text.secondary,
+                    marginTop: -theme.spacing.md,
+                    marginBottom: theme.spacing.lg,
+                  },
+                ]}
+              >
+                Focused on {CATEGORY_HEADINGS[focusCategory]}
+              </Text>
+            )}
+
+            {/* Significator */}
+            {currentReading.significatorCardId && spread.significator && (
+              <GlassCard style={{ marginBottom: theme.spacing.xl }}>
+                <View style={styles.significatorRow}>
+                  <View
+                    style={[
+                      styles.clarifierImageContainer,
+                      { borderRadius: theme.spacing.borderRadius.sm },
+                    ]}
+                  >
+                    <Image
+                      source={getCardImageSource(
+                        getCardImagePath(getCard(currentReading.significatorCardId)),
+                      )}
+                      style={styles.cardImage}
+                      resizeMode="contain"
+                    />
+                  </View>
+                  <View style={styles.clarifierText}>
+                    <Text
+                      style={[
+                        theme.typography.bodySmall,
+                        {
+                          color: theme.colors.jade.secondary,
+                          fontWeight: theme.typography.weights.semibold,
+                          marginBottom: theme.spacing.xs,
+                        },
+                      ]}
+                    >
+                      {spread.significator.label}
+                    </Text>
+                    <Text style={[theme.typography.h3, { color: theme.colors.success }]}>
+                      {getCard(currentReading.significatorCardId).name}
+                    </Text>
+                  </View>
+                </View>
+              </GlassCard>
+            )}
 
             {/* Per-Card Meanings */}
             <View
@@ -198,6 +535,12 @@ export default function ResultScreen() {
                 const drawnCard = currentReading.drawnCards[index];
                 const card = getCard(cardText.cardId);
                 const isReversed = drawnCard?.isReversed || false;
+                const positionIndex = drawnCard?.positionIndex ?? index;
+                const positionLabel =
+                  spread.positions[positionIndex]?.label ?? `Card ${index + 1}`;
+                const clarifiers = (currentReading.clarifiers ?? []).filter(
+                  (clarifier: ClarifierCard) => clarifier.positionIndex === positionIndex,
+                );
 
                 return (
                   <GlassCard
@@ -244,6 +587,35 @@ export default function ResultScreen() {
 
                     {renderText(`desc-${index}`, cardText.description, 320)}
 
+                    {/* AI interpretation for this position (JSON narratives) */}
+                    {structuredNarrative?.positions
+                      .filter((position) => position.positionIndex === index)
+                      .map((position) => (
+                        <View
+                          key={`interpretation-${index}`}
+                          style={{
+                            marginTop: theme.spacing.md,
+                            paddingTop: theme.spacing.md,
+                            borderTopWidth: 1,
+                            borderTopColor: theme.colors.glass.border,
+                          }}
+                        >
+                          <Text
+                            style={[
+                              theme.typography.bodySmall,
+                              {
+                                color: theme.colors.jade.primary,
+                                fontWeight: theme.typography.weights.semibold,
+                                marginBottom: theme.spacing.xs,
+                              },
+                            ]}
+                          >
+                            ✨ In This Reading:
+                          </Text>
+                          {renderText(`interpretation-${index}`, position.interpretation, 320)}
+                        </View>
+                      ))}
+
                     {/* Category Meanings */}
                     {cardText.categoryMeanings && (
                       <View
@@ -270,78 +642,194 @@ export default function ResultScreen() {
                           Category Meanings
                         </Text>
 
-                        <View style={styles.categoryBlock}>
-                          <Text
-                            style={[
-                              theme.typography.bodySmall,
-                              {
-                                color: theme.colors.jade.primary,
-                                fontWeight: theme.typography.weights.semibold,
-                                marginBottom: theme.spacing.xs,
-                              },
-                            ]}
-                          >
-                            💕 Love:
-                          </Text>
-                          {renderText(`love-${index}`, cardText.categoryMeanings.love)}
-                        </View>
+                        {(
+                          Object.keys(cardText.categoryMeanings) as ReadingCategory[]
+                        ).map((category) => (
+                          <View key={category} style={styles.categoryBlock}>
+                            <Text
+                              style={[
+                                theme.typography.bodySmall,
+                                {
+                                  color: theme.colors.jade.primary,
+                                  fontWeight: theme.typography.weights.semibold,
+                                  marginBottom: theme.spacing.xs,
+                                },
+                              ]}
+                            >
+                              {CATEGORY_HEADINGS[category]}
+                              {category === focusCategory ? " (focus)" : ""}:
+                            </Text>
+                            {renderText(
+                              `${category}-${index}`,
+                              cardText.categoryMeanings[category],
+                            )}
+                          </View>
+                        ))}
+                      </View>
+                    )}
 
-                        <View style={styles.categoryBlock}>
-                          <Text
-                            style={[
-                              theme.typography.bodySmall,
-                              {
-                                color: theme.colors.jade.primary,
-                                fontWeight: theme.typography.weights.semibold,
-                                marginBottom: theme.spacing.xs,
-                              },
-                            ]}
-                          >
-                            💚 Health:
-                          </Text>
-                          {renderText(`health-${index}`, cardText.categoryMeanings.health)}
-                        </View>
+                    {/* Clarifiers */}
+                    {clarifiers.map((clarifier: ClarifierCard, clarifierIndex: number) => {
+                      const clarifierCard = getCard(clarifier.cardId);
+                      const meaning =
+                        clarifier.isReversed && clarifierCard.meaningReversed
+                          ? clarifierCard.meaningReversed
+                          : clarifierCard.meaningUpright;
+                      const key = `clarifier-${positionIndex}-${clarifierIndex}`;
 
-                        <View style={styles.categoryBlock}>
-                          <Text
+                      return (
+                        <View
+                          key={key}
+                          style={[
+                            styles.clarifierBlock,
+                            {
+                              marginTop: theme.spacing.md,
+                              paddingTop: theme.spacing.md,
+                              borderTopColor: theme.colors.glass.border,
+                            },
+                          ]}
+                        >
+                          <View
                             style={[
-                              theme.typography.bodySmall,
-                              {
-                                color: theme.colors.jade.primary,
-                                fontWeight: theme.typography.weights.semibold,
-                                marginBottom: theme.spacing.xs,
-                              },
+                              styles.clarifierImageContainer,
+                              { borderRadius: theme.spacing.borderRadius.sm },
                             ]}
                           >
-                            💰 Money & Career:
-                          </Text>
-                          {renderText(`money-${index}`, cardText.categoryMeanings.moneyCareer)}
+                            <Image
+                              source={getCardImageSource(getCardImagePath(clarifierCard))}
+                              style={[
+                                styles.cardImage,
+                                clarifier.isReversed && styles.cardReversed,
+                              ]}
+                              resizeMode="contain"
+                            />
+                          </View>
+                          <View style={styles.clarifierText}>
+                            <Text
+                              style={[
+                                theme.typography.bodySmall,
+                                {
+                                  color: theme.colors.jade.secondary,
+                                  fontWeight: theme.typography.weights.semibold,
+                                  marginBottom: theme.spacing.xs,
+                                },
+                              ]}
+                            >
+                              {clarifierCard.name}
+                              {clarifier.isReversed ? " (Reversed)" : ""} — Clarifier for {positionLabel}
+                            </Text>
+                            {renderText(key, meaning, 180)}
+                          </View>
                         </View>
+                      );
+                    })}
 
-                        <View style={styles.categoryBlock}>
-                          <Text
-                            style={[
-                              theme.typography.bodySmall,
-                              {
-                                color: theme.colors.jade.primary,
-                                fontWeight: theme.typography.weights.semibold,
-                                marginBottom: theme.spacing.xs,
-                              },
-                            ]}
-                          >
-                            Spirituality:
-                          </Text>
-                          {renderText(`spirit-${index}`, cardText.categoryMeanings.spirituality)}
-                        </View>
-                      </View>
-                    )}
+                    <Text
+                      onPress={() => handlePullClarifier(positionIndex, positionLabel)}
+                      style={[
+                        theme.typography.bodySmall,
+                        {
+                          color: pullingClarifier
+                            ? theme.colors.text.secondary
+                            : theme.colors.jade.primary,
+                          fontWeight: theme.typography.weights.semibold,
+                          marginTop: theme.spacing.md,
+                          textAlign: "center",
+                        },
+                      ]}
+                    >
+                      + Pull a clarifier ({CLARIFIER_CREDIT_COST} credit)
+                    </Text>
                   </GlassCard>
                 );
               })}
             </View>
 
+            {/* Reading Patterns */}
+            <View style={{ marginBottom: theme.spacing.xl }}>
+              <Text
+                style={[
+                  theme.typography.h2,
+                  {
+                    marginBottom: theme.spacing.md,
+                  },
+                ]}
+              >
+                Reading patterns
+              </Text>
+              <GlassCard>
+                {patternRows.map((row) => (
+                  <View
+                    key={row.label}
+                    style={{ marginBottom: theme.spacing.sm }}
+                  >
+                    <Text
+                      style={[
+                        theme.typography.bodySmall,
+                        {
+                          color: theme.colors.jade.primary,
+                          fontWeight: theme.typography.weights.semibold,
+                        },
+                      ]}
+                    >
+                      {row.label}
+                    </Text>
+                    <Text
+                      style={[
+                        theme.typography.bodySmall,
+                        { color: theme.colors.text.secondary },
+                      ]}
+                    >
+                      {row.value}
+                    </Text>
+                  </View>
+                ))}
+              </GlassCard>
+            </View>
+
+            {/* Card Combinations */}
+            {(currentReading.combinations ?? []).length > 0 && (
+              <View style={{ marginBottom: theme.spacing.xl }}>
+                <Text
+                  style={[
+                    theme.typography.h2,
+                    {
+                      marginBottom: theme.spacing.md,
+                    },
+                  ]}
+                >
+                  Card combinations
+                </Text>
+                {(currentReading.combinations ?? []).map(
+                  (combination: DetectedCombination) => (
+                    <GlassCard
+                      key={combination.cardIds.join("+")}
+                      style={{ marginBottom: theme.spacing.md }}
+                    >
+                      <Text
+                        style={[
+                          theme.typography.h3,
+                          {
+                            color: theme.colors.success,
+                            marginBottom: theme.spacing.sm,
+                            fontSize: theme.typography.sizes.body,
+                          },
+                        ]}
+                      >
+                        {combination.title}
+                      </Text>
+                      {renderText(
+                        `combination-${combination.cardIds.join("+")}`,
+                        combination.meaning,
+                      )}
+                    </GlassCard>
+                  ),
+                )}
+              </View>
+            )}
+
             {/* AI Narrative */}
-            {currentReading.aiNarrative && (
+            {(currentReading.aiNarrative || narrativeStatus !== "idle") && (
               <View style={{ marginBottom: theme.spacing.xl }}>
                 <Text
                   style={[
@@ -353,21 +841,199 @@ export default function ResultScreen() {
                 >
                   AI Narrative
                 </Text>
-                <GlassCard>
+                {toneLabel && (
                   <Text
                     style={[
-                      theme.typography.body,
+                      theme.typography.bodySmall,
                       {
-                        color: theme.colors.text.primary,
+                        color: theme.colors.text.secondary,
+                        marginTop: -theme.spacing.sm,
+                        marginBottom: theme.spacing.md,
                       },
                     ]}
                   >
-                    {currentReading.aiNarrative}
+                    Voice: {toneLabel}
                   </Text>
+                )}
+                <GlassCard>
+                  {narrativeStatus === "error" ? (
+                    <>
+                      <Text
+                        style={[
+                          theme.typography.body,
+                          {
+                            color: theme.colors.text.secondary,
+                            marginBottom: theme.spacing.md,
+                          },
+                        ]}
+                      >
+                        The narrative couldn't be written right now.
+                      </Text>
+                      <NeonButton
+                        title="Try Again"
+                        onPress={() => setNarrativeAttempt((attempt) => attempt + 1)}
+                      />
+                    </>
+                  ) : structuredNarrative ? (
+                    <>
+                      <Text
+                        style={[
+                          theme.typography.body,
+                          {
+                            color: theme.colors.text.primary,
+                          },
+                        ]}
+                      >
+                        {structuredNarrative.overview}
+                      </Text>
+                      <Text
+                        style={[
+                          theme.typography.bodySmall,
+                          {
+                            color: theme.colors.jade.primary,
+                            fontWeight: theme.typography.weights.semibold,
+                            marginTop: theme.spacing.md,
+                            marginBottom: theme.spacing.xs,
+                          },
+                        ]}
+                      >
+                        Advice
+                      </Text>
+                      <Text
+                        style={[
+                          theme.typography.body,
+                          { color: theme.colors.text.primary },
+                        ]}
+                      >
+                        {structuredNarrative.advice}
+                      </Text>
+                      <Text
+                        style={[
+                          theme.typography.bodySmall,
+                          {
+                            color: theme.colors.jade.primary,
+                            fontWeight: theme.typography.weights.semibold,
+                            marginTop: theme.spacing.md,
+                            marginBottom: theme.spacing.xs,
+                          },
+                        ]}
+                      >
+                        Key Takeaways
+                      </Text>
+                      {structuredNarrative.takeaways.map((takeaway, takeawayIndex) => (
+                        <Text
+                          key={takeawayIndex}
+                          style={[
+                            theme.typography.bodySmall,
+                            { color: theme.colors.text.secondary },
+                          ]}
+                        >
+                          • {takeaway}
+                        </Text>
+                      ))}
+                      <Text
+                        style={[
+                          theme.typography.caption,
+                          {
+                            fontStyle: "italic",
+                            marginTop: theme.spacing.md,
+                          },
+                        ]}
+                      >
+                        {structuredNarrative.disclaimer}
+                      </Text>
+                    </>
+                  ) : (
+                    <>
+                      <Text
+                        style={[
+                          theme.typography.body,
+                          {
+                            color: theme.colors.text.primary,
+                          },
+                        ]}
+                      >
+                        {currentReading.aiNarrative || narrativeDraft}
+                      </Text>
+                      {narrativeStatus === "streaming" && (
+                        <Text
+                          style={[
+                            theme.typography.bodySmall,
+                            {
+                              color: theme.colors.text.secondary,
+                              marginTop: theme.spacing.sm,
+                            },
+                          ]}
+                        >
+                          {narrativeDraft ? "Writing…" : "Reading the cards…"}
+                        </Text>
+                      )}
+                    </>
+                  )}
                 </GlassCard>
               </View>
             )}
 
+            {/* Follow-up questions */}
+            {currentReading.aiNarrative && (
+              <View style={{ marginBottom: theme.spacing.xl }}>
+                <Text
+                  style={[
+                    theme.typography.h2,
+                    {
+                      marginBottom: theme.spacing.md,
+                    },
+                  ]}
+                >
+                  Ask the Reader
+                </Text>
+                <GlassCard>
+                  <ReadingChat
+                    messages={chatMessages}
+                    creditCost={chatCreditCost}
+                    sending={askingQuestion}
+                    onSend={askFollowUp}
+                  />
+                </GlassCard>
+              </View>
+            )}
+
+            {/* Journal */}
+            <View style={{ marginBottom: theme.spacing.xl }}>
+              <Text
+                style={[
+                  theme.typography.h2,
+                  {
+                    marginBottom: theme.spacing.md,
+                  },
+                ]}
+              >
+                Journal
+              </Text>
+              <GlassCard>
+                <JournalEditor
+                  key={currentReading.readingId}
+                  reading={currentReading}
+                  onChange={updateJournal}
+                />
+              </GlassCard>
+            </View>
+
+            {/* Export */}
+            <GlassCard style={{ marginBottom: theme.spacing.xl }}>
+              <ExportActions loadReadings={async () => [currentReading]} />
+              <NeonButton
+                title="Share as Image"
+                onPress={() => setShareImageOpen(true)}
+                style={{ marginTop: theme.spacing.md }}
+              />
+            </GlassCard>
+            <ShareImageSheet
+              visible={shareImageOpen}
+              reading={currentReading}
+              onClose={() => setShareImageOpen(false)}
+            />
+
             {/* Disclaimer */}
             <GlassCard style={{ marginBottom: theme.spacing.lg }}>
               <Text
@@ -423,6 +1089,27 @@ const styles = StyleSheet.create({
   cardReversed: {
     transform: [{ rotate: "180deg" }],
   },
+  clarifierBlock: {
+    flexDirection: "row",
+    borderTopWidth: 1,
+    gap: 12,
+  },
+  significatorRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  clarifierImageContainer: {
+    width: 72,
+    height: 120,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(13, 31, 31, 0.4)",
+    overflow: "hidden",
+  },
+  clarifierText: {
+    flex: 1,
+  },
   categoryMeaningsContainer: {
     alignSelf: "stretch",
     width: "100%",
@@ -18,17 +18,37 @@ import Slider from "@react-native-community/slider";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
 import { useCreditsStore } from "../state/creditsStore";
+import { useReadingSettingsStore } from "../state/readingSettingsStore";
 import { useTheme, useAccentHue } from "../theme/index";
 import { buildThemeColorsFromHue } from "../theme/themeColorsFromHue";
-import { LiquidBackground, GlassCard, NeonButton } from "../theme/components";
+import {
+  LiquidBackground,
+  GlassCard,
+  NeonButton,
+  OptionChips,
+} from "../theme/components";
+import {
+  REVERSAL_MODE_OPTIONS,
+  REVERSAL_MODE_DESCRIPTIONS,
+  strategyForMode,
+} from "../utils/readingOptions";
 import {
   disconnectWallet,
   isWalletConnected,
   getWalletAddress,
   connectWallet,
 } from "../services/solanaService";
-import { getRecentLedgerEntries } from "../services/creditsService";
+import {
+  getCurrentAccountId,
+  getRecentLedgerEntries,
+} from "../services/creditsService";
+import {
+  createBackup,
+  pickBackupFile,
+  restoreBackup,
+} from "../services/backupService";
 import { getAppConfig } from "../config/appConfig";
+import { DELETED_SPREAD_NAME } from "../data/tarot/loader";
 import { logger } from "../core/logger";
 import type { CreditLedgerEntry } from "../types/credits";
 
@@ -37,9 +57,11 @@ export default function SettingsScreen() {
   const theme = useTheme();
   const { balance, refreshBalance } = useCreditsStore();
   const { accentHue, setAccentHue } = useAccentHue();
+  const { reversalStrategy, setReversalStrategy } = useReadingSettingsStore();
   const [debugVisible, setDebugVisible] = useState(false);
   const [ledgerEntries, setLedgerEntries] = useState<CreditLedgerEntry[]>([]);
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [backupBusy, setBackupBusy] = useState(false);
   const config = getAppConfig();
 
   // Animations
@@ -111,6 +133,51 @@ export default function SettingsScreen() {
     );
   };
 
+  const handleCreateBackup = async () => {
+    setBackupBusy(true);
+    try {
+      await createBackup(await getCurrentAccountId());
+    } catch (err) {
+      Alert.alert("Backup Failed", err instanceof Error ? err.message : String(err));
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleRestoreBackup = async () => {
+    setBackupBusy(true);
+    try {
+      const json = await pickBackupFile();
+      if (json === null) return;
+      const accountId = await getCurrentAccountId();
+      const summary = await restoreBackup(accountId, json);
+      const lines = [
+        accountId
+          ? `${summary.imported} readings restored, ${summary.skipped} already on this phone.`
+          : "Connect a wallet to restore readings; only settings were restored.",
+      ];
+      if (summary.invalid > 0) {
+        lines.push(`${summary.invalid} readings couldn't be read and were skipped.`);
+      }
+      if (summary.unknownSpreads > 0) {
+        lines.push(
+          `${summary.unknownSpreads} readings use a spread that's no longer available and show as "${DELETED_SPREAD_NAME}".`,
+        );
+      }
+      if (summary.settingsRestored) {
+        lines.push(
+          `Accent color and reading preferences restored` +
+            (summary.customSpreads > 0 ? `, plus ${summary.customSpreads} custom spreads.` : "."),
+        );
+      }
+      Alert.alert("Backup Restored", lines.join("\n"));
+    } catch (err) {
+      Alert.alert("Restore Failed", err instanceof Error ? err.message : String(err));
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
   const handleLongPressTitle = () => {
     setDebugVisible(!debugVisible);
   };
@@ -271,6 +338,67 @@ export default function SettingsScreen() {
               </GlassCard>
             </View>
 
+            {/* Reversed cards - default strategy for new readings */}
+            <View style={{ marginBottom: theme.spacing.xl }}>
+              <Text
+                style={[
+                  theme.typography.h2,
+                  { marginBottom: theme.spacing.md },
+                ]}
+              >
+                Reversed cards
+              </Text>
+              <GlassCard style={{ marginBottom: theme.spacing.sm }}>
+                <OptionChips
+                  options={REVERSAL_MODE_OPTIONS}
+                  selected={reversalStrategy.mode}
+                  onSelect={(mode) =>
+                    setReversalStrategy(strategyForMode(mode, reversalStrategy))
+                  }
+                />
+                <Text
+                  style={[
+                    theme.typography.caption,
+                    {
+                      color: theme.colors.text.secondary,
+                      marginTop: theme.spacing.sm,
+                    },
+                  ]}
+                >
+                  {REVERSAL_MODE_DESCRIPTIONS[reversalStrategy.mode]}
+                </Text>
+                {reversalStrategy.mode === "independent" && (
+                  <>
+                    <Text
+                      style={[
+                        theme.typography.bodySmall,
+                        {
+                          color: theme.colors.text.secondary,
+                          marginTop: theme.spacing.md,
+                        },
+                      ]}
+                    >
+                      Reversal chance {Math.round(reversalStrategy.probability * 100)}%
+                    </Text>
+                    <Slider
+                      minimumValue={0}
+                      maximumValue={1}
+                      step={0.05}
+                      value={reversalStrategy.probability}
+                      onSlidingComplete={(v) => {
+                        const probability = Array.isArray(v) ? v[0] : Number(v);
+                        if (Number.isNaN(probability)) return;
+                        setReversalStrategy({ mode: "independent", probability });
+                      }}
+                      minimumTrackTintColor={theme.colors.jade.primary}
+                      maximumTrackTintColor={theme.colors.glass.border}
+                      thumbTintColor={theme.colors.jade.primary}
+                    />
+                  </>
+                )}
+              </GlassCard>
+            </View>
+
             {/* Wallet Section */}
             {config.featureFlags.enableSolanaPaymentsAndroid && (
               <View style={{ marginBottom: theme.spacing.xl }}>
@@ -373,6 +501,36 @@ export default function SettingsScreen() {
               </View>
             )}
 
+            {/* Backup - move readings and preferences to another phone */}
+            <View style={{ marginBottom: theme.spacing.xl }}>
+              <Text
+                style={[
+                  theme.typography.h2,
+                  { marginBottom: theme.spacing.md },
+                ]}
+              >
+                Backup
+              </Text>
+              <GlassCard style={{ marginBottom: theme.spacing.md }}>
+                <Text style={[theme.typography.caption, { color: theme.colors.text.secondary }]}>
+                  Save your readings, journal, accent color, reading preferences and
+                  custom spreads to a file, then restore it on another phone. Readings
+                  already on the phone are kept as they are.
+                </Text>
+              </GlassCard>
+              <NeonButton
+                title="Back Up to File"
+                onPress={handleCreateBackup}
+                disabled={backupBusy}
+              />
+              <NeonButton
+                title="Restore from Backup"
+                onPress={handleRestoreBackup}
+                disabled={backupBusy}
+                style={{ marginTop: theme.spacing.md }}
+              />
+            </View>
+
             {/* Legal Disclaimer */}
             <View style={{ marginBottom: theme.spacing.xl }}>
               <Text style={[
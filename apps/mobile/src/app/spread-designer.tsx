@@ -0,0 +1,603 @@
+/**
+ * Spread Designer Screen - Create and edit custom spreads
+ * Name the spread, describe each position, drag cards on the canvas to lay it out
+ * and pick a credit cost rule. Spreads are validated with the spreads.json schema.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  PanResponder,
+  LayoutChangeEvent,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { useCustomSpreadStore, parseCustomSpread } from "../state/customSpreadStore";
+import { useReadingStore } from "../state/readingStore";
+import { createCustomSpreadId, creditCostForRule } from "../core/tarotEngine";
+import { logger } from "../core/logger";
+import { useTheme } from "../theme/index";
+import {
+  LiquidBackground,
+  GlassCard,
+  NeonButton,
+  OptionChips,
+} from "../theme/components";
+import { CREDIT_COST_RULE_OPTIONS } from "../utils/readingOptions";
+import type { CreditCostRule, TarotSpread } from "../types/tarot";
+
+/** Most positions a custom spread can have */
+const MAX_POSITIONS = 13;
+
+/** Canvas height as a fraction of its width */
+const CANVAS_ASPECT = 0.75;
+
+/** Card width as a fraction of the canvas width; height follows the card ratio */
+const CARD_WIDTH_RATIO = 0.12;
+const CARD_ASPECT = 1.6;
+
+/** Cards per row when placing new positions */
+const SLOTS_PER_ROW = 5;
+
+interface DraftPosition {
+  /** Stable key for list rendering while positions are added and removed */
+  key: string;
+  label: string;
+  prompt: string;
+  x: number;
+  y: number;
+  /** Turned sideways across whatever card sits beneath it */
+  crossing: boolean;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Starting spot for the nth position: left-to-right rows across the canvas
+ */
+function defaultSlot(index: number): { x: number; y: number } {
+  const column = index % SLOTS_PER_ROW;
+  const row = Math.floor(index / SLOTS_PER_ROW);
+  return {
+    x: 0.1 + column * (0.8 / (SLOTS_PER_ROW - 1)),
+    y: clamp01(0.2 + row * 0.3),
+  };
+}
+
+function toDraftPositions(spread: TarotSpread): DraftPosition[] {
+  return spread.positions.map((position, idx) => ({
+    key: `${spread.id}-${idx}`,
+    label: position.label,
+    prompt: position.prompt,
+    ...(position.layout ?? defaultSlot(idx)),
+    crossing: (position.layout?.rotation ?? 0) % 180 !== 0,
+  }));
+}
+
+interface DraggableCardProps {
+  index: number;
+  x: number;
+  y: number;
+  crossing: boolean;
+  canvasWidth: number;
+  canvasHeight: number;
+  selected: boolean;
+  onDragStart: (index: number) => void;
+  onDrag: (index: number, x: number, y: number) => void;
+  onDragEnd: () => void;
+}
+
+/**
+ * Position card on the layout canvas
+ * Drag moves its center; coordinates are reported normalized to the canvas
+ */
+function DraggableCard(props: DraggableCardProps) {
+  const theme = useTheme();
+  // PanResponder is created once; read the latest props through a ref
+  const latest = useRef(props);
+  latest.current = props;
+  const dragOrigin = useRef({ x: 0, y: 0 });
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponderCapture: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        dragOrigin.current = { x: latest.current.x, y: latest.current.y };
+        latest.current.onDragStart(latest.current.index);
+      },
+      onPanResponderMove: (_, gesture) => {
+        const { canvasWidth, canvasHeight, index, onDrag } = latest.current;
+        if (!canvasWidth || !canvasHeight) return;
+        onDrag(
+          index,
+          clamp01(dragOrigin.current.x + gesture.dx / canvasWidth),
+          clamp01(dragOrigin.current.y + gesture.dy / canvasHeight),
+        );
+      },
+      onPanResponderRelease: () => latest.current.onDragEnd(),
+      onPanResponderTerminate: () => latest.current.onDragEnd(),
+    }),
+  ).current;
+
+  const cardWidth = props.canvasWidth * CARD_WIDTH_RATIO;
+  const cardHeight = cardWidth * CARD_ASPECT;
+
+  return (
+    <View
+      {...panResponder.panHandlers}
+      style={[
+        styles.canvasCard,
+        {
+          width: cardWidth,
+          height: cardHeight,
+          left: props.x * props.canvasWidth - cardWidth / 2,
+          top: props.y * props.canvasHeight - cardHeight / 2,
+          borderRadius: theme.spacing.borderRadius.sm,
+          borderColor: props.selected
+            ? theme.colors.jade.primary
+            : theme.colors.glass.border,
+          backgroundColor: theme.colors.glass.background,
+          zIndex: props.selected ? 2 : props.crossing ? 1 : 0,
+          transform: [{ rotate: props.crossing ? "90deg" : "0deg" }],
+        },
+      ]}
+    >
+      <Text
+        style={[
+          theme.typography.bodySmall,
+          {
+            color: props.selected
+              ? theme.colors.jade.primary
+              : theme.colors.text.primary,
+            fontWeight: theme.typography.weights.semibold,
+          },
+        ]}
+      >
+        {props.index + 1}
+      </Text>
+    </View>
+  );
+}
+
+export default function SpreadDesignerScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { spreadId } = useLocalSearchParams<{ spreadId?: string }>();
+  const { spreads, saveSpread, deleteSpread } = useCustomSpreadStore();
+  const existing = spreads.find((spread) => spread.id === spreadId);
+
+  const [name, setName] = useState(existing?.displayName ?? "");
+  const [description, setDescription] = useState(existing?.description ?? "");
+  const [costRule, setCostRule] = useState<CreditCostRule>(
+    existing?.creditCostRule ?? "tiered",
+  );
+  const [positions, setPositions] = useState<DraftPosition[]>(() =>
+    existing
+      ? toDraftPositions(existing)
+      : [
+          {
+            key: "new-0",
+            label: "",
+            prompt: "",
+            ...defaultSlot(0),
+            crossing: false,
+          },
+        ],
+  );
+  const [canvasWidth, setCanvasWidth] = useState(0);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const nextKey = useRef(positions.length);
+
+  useEffect(() => {
+    logger.info("ui.screen.view", {
+      screenName: "SpreadDesigner",
+      spreadId: existing?.id ?? "new",
+    });
+  }, [existing?.id]);
+
+  const canvasHeight = canvasWidth * CANVAS_ASPECT;
+  const creditCost = creditCostForRule(costRule, positions.length);
+
+  const handleCanvasLayout = (event: LayoutChangeEvent) => {
+    setCanvasWidth(event.nativeEvent.layout.width);
+  };
+
+  const updatePosition = (index: number, changes: Partial<DraftPosition>) => {
+    setPositions((prev) =>
+      prev.map((position, idx) =>
+        idx === index ? { ...position, ...changes } : position,
+      ),
+    );
+  };
+
+  const handleAddPosition = () => {
+    if (positions.length >= MAX_POSITIONS) return;
+    const key = `new-${nextKey.current++}`;
+    setPositions((prev) => [
+      ...prev,
+      {
+        key,
+        label: "",
+        prompt: "",
+        ...defaultSlot(prev.length),
+        crossing: false,
+      },
+    ]);
+  };
+
+  const handleRemovePosition = (index: number) => {
+    if (positions.length <= 1) return;
+    setPositions((prev) => prev.filter((_, idx) => idx !== index));
+    setSelectedIndex(null);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert("Name your spread", "Give the spread a name before saving.");
+      return;
+    }
+    const unlabeled = positions.findIndex((position) => !position.label.trim());
+    if (unlabeled !== -1) {
+      Alert.alert(
+        "Missing label",
+        `Position ${unlabeled + 1} needs a label (for example "Past" or "Obstacle").`,
+      );
+      return;
+    }
+
+    const result = parseCustomSpread({
+      id: existing?.id ?? createCustomSpreadId(),
+      displayName: name.trim(),
+      description: description.trim() || undefined,
+      cardCount: positions.length,
+      creditCost,
+      creditCostRule: costRule,
+      positions: positions.map((position, index) => {
+        const label = position.label.trim();
+        return {
+          index,
+          label,
+          prompt:
+            position.prompt.trim() ||
+            `This card represents ${label.toLowerCase()}.`,
+          layout: {
+            x: Math.round(position.x * 1000) / 1000,
+            y: Math.round(position.y * 1000) / 1000,
+            ...(position.crossing ? { rotation: 90, z: 1 } : {}),
+          },
+        };
+      }),
+    });
+
+    if (!result.success) {
+      logger.warn("spreadDesigner.save.invalid", { error: result.error });
+      Alert.alert("Can't save this spread", result.error);
+      return;
+    }
+
+    saveSpread(result.spread);
+    logger.info("spreadDesigner.save", {
+      spreadId: result.spread.id,
+      cardCount: result.spread.cardCount,
+      isNew: !existing,
+    });
+    router.back();
+  };
+
+  const handleDelete = () => {
+    if (!existing) return;
+    Alert.alert(
+      "Delete spread?",
+      `"${existing.displayName}" will be removed from your spreads.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            deleteSpread(existing.id);
+            if (useReadingStore.getState().selectedSpreadId === existing.id) {
+              useReadingStore.getState().reset();
+            }
+            router.back();
+          },
+        },
+      ],
+    );
+  };
+
+  const inputStyle = [
+    theme.typography.body,
+    styles.input,
+    {
+      color: theme.colors.text.primary,
+      borderColor: theme.colors.glass.border,
+      borderRadius: theme.spacing.borderRadius.sm,
+      marginBottom: theme.spacing.sm,
+    },
+  ];
+
+  return (
+    <LiquidBackground>
+      <SafeAreaView style={styles.container}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          scrollEnabled={!dragging}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text
+            style={[
+              theme.typography.h1,
+              { textAlign: "center", marginBottom: theme.spacing.lg },
+            ]}
+          >
+            {existing ? "Edit Spread" : "Design a Spread"}
+          </Text>
+
+          {/* Name & description */}
+          <GlassCard style={{ marginBottom: theme.spacing.lg }}>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Spread name"
+              placeholderTextColor={theme.colors.text.tertiary}
+              maxLength={60}
+              style={inputStyle}
+            />
+            <TextInput
+              value={description}
+              onChangeText={setDescription}
+              placeholder="What is this spread for? (optional)"
+              placeholderTextColor={theme.colors.text.tertiary}
+              maxLength={240}
+              multiline
+              style={inputStyle}
+            />
+          </GlassCard>
+
+          {/* Layout canvas */}
+          <Text style={[theme.typography.h2, { marginBottom: theme.spacing.sm }]}>
+            Layout
+          </Text>
+          <Text
+            style={[
+              theme.typography.caption,
+              { color: theme.colors.text.secondary, marginBottom: theme.spacing.sm },
+            ]}
+          >
+            Drag the cards to arrange your spread. Turn a card sideways and drop
+            it on another to cross it.
+          </Text>
+          <View
+            onLayout={handleCanvasLayout}
+            style={[
+              styles.canvas,
+              {
+                borderColor: theme.colors.glass.border,
+                borderRadius: theme.spacing.borderRadius.md,
+                marginBottom: theme.spacing.lg,
+              },
+            ]}
+          >
+            {canvasWidth > 0 &&
+              positions.map((position, index) => (
+                <DraggableCard
+                  key={position.key}
+                  index={index}
+                  x={position.x}
+                  y={position.y}
+                  crossing={position.crossing}
+                  canvasWidth={canvasWidth}
+                  canvasHeight={canvasHeight}
+                  selected={selectedIndex === index}
+                  onDragStart={(idx) => {
+                    setSelectedIndex(idx);
+                    setDragging(true);
+                  }}
+                  onDrag={(idx, x, y) => updatePosition(idx, { x, y })}
+                  onDragEnd={() => setDragging(false)}
+                />
+              ))}
+          </View>
+
+          {/* Positions */}
+          <Text style={[theme.typography.h2, { marginBottom: theme.spacing.md }]}>
+            Positions
+          </Text>
+          {positions.map((position, index) => (
+            <GlassCard
+              key={position.key}
+              style={{
+                marginBottom: theme.spacing.md,
+                borderWidth: selectedIndex === index ? 2 : 0,
+                borderColor: theme.colors.jade.primary,
+              }}
+            >
+              <View style={styles.positionHeader}>
+                <Text
+                  style={[
+                    theme.typography.bodySmall,
+                    { fontWeight: theme.typography.weights.semibold },
+                  ]}
+                >
+                  Position {index + 1}
+                </Text>
+                <View style={styles.positionActions}>
+                  <Text
+                    onPress={() =>
+                      updatePosition(index, { crossing: !position.crossing })
+                    }
+                    style={[
+                      theme.typography.bodySmall,
+                      { color: theme.colors.jade.primary },
+                    ]}
+                  >
+                    {position.crossing ? "Set upright" : "Turn sideways"}
+                  </Text>
+                  {positions.length > 1 && (
+                    <Text
+                      onPress={() => handleRemovePosition(index)}
+                      style={[
+                        theme.typography.bodySmall,
+                        { color: theme.colors.text.tertiary },
+                      ]}
+                    >
+                      Remove
+                    </Text>
+                  )}
+                </View>
+              </View>
+              <TextInput
+                value={position.label}
+                onChangeText={(label) => updatePosition(index, { label })}
+                onFocus={() => setSelectedIndex(index)}
+                placeholder="Label (e.g. Obstacle)"
+                placeholderTextColor={theme.colors.text.tertiary}
+                maxLength={40}
+                style={inputStyle}
+              />
+              <TextInput
+                value={position.prompt}
+                onChangeText={(prompt) => updatePosition(index, { prompt })}
+                onFocus={() => setSelectedIndex(index)}
+                placeholder="What does this position ask? (used for the narrative)"
+                placeholderTextColor={theme.colors.text.tertiary}
+                maxLength={300}
+                multiline
+                style={inputStyle}
+              />
+            </GlassCard>
+          ))}
+          {positions.length < MAX_POSITIONS && (
+            <TouchableOpacity
+              onPress={handleAddPosition}
+              activeOpacity={0.7}
+              style={{ marginBottom: theme.spacing.lg }}
+            >
+              <Text
+                style={[
+                  theme.typography.body,
+                  {
+                    color: theme.colors.jade.primary,
+                    textAlign: "center",
+                    fontWeight: theme.typography.weights.semibold,
+                  },
+                ]}
+              >
+                + Add position
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {/* Credit cost */}
+          <Text style={[theme.typography.h2, { marginBottom: theme.spacing.sm }]}>
+            Credit cost
+          </Text>
+          <OptionChips
+            options={CREDIT_COST_RULE_OPTIONS}
+            selected={costRule}
+            onSelect={setCostRule}
+            style={{ marginBottom: theme.spacing.sm }}
+          />
+          <Text
+            style={[
+              theme.typography.caption,
+              { color: theme.colors.text.secondary, marginBottom: theme.spacing.lg },
+            ]}
+          >
+            {positions.length} card{positions.length !== 1 ? "s" : ""} •{" "}
+            {creditCost} credit{creditCost !== 1 ? "s" : ""} per reading
+          </Text>
+
+          <NeonButton
+            title="Save Spread"
+            onPress={handleSave}
+            style={{ marginBottom: theme.spacing.md }}
+          />
+
+          {existing && (
+            <TouchableOpacity
+              onPress={handleDelete}
+              activeOpacity={0.7}
+              style={styles.secondaryButton}
+            >
+              <Text
+                style={[
+                  theme.typography.body,
+                  { textAlign: "center", color: theme.colors.error },
+                ]}
+              >
+                Delete spread
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => router.back()}
+            activeOpacity={0.7}
+          >
+            <Text style={[theme.typography.body, { textAlign: "center" }]}>
+              ← Back
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </LiquidBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  input: {
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  canvas: {
+    width: "100%",
+    aspectRatio: 1 / CANVAS_ASPECT,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    backgroundColor: "rgba(13, 31, 31, 0.4)",
+    overflow: "hidden",
+  },
+  canvasCard: {
+    position: "absolute",
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  positionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  positionActions: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+});
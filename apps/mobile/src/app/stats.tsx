@@ -0,0 +1,397 @@
+/**
+ * Stats Screen - Personal tarot statistics
+ * Most drawn cards, suit and arcana balance over time, reversal rate, daily streaks,
+ * never-drawn cards and how the draws compare with a fair shuffle
+ */
+
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { getCurrentAccountId } from "../services/creditsService";
+import { getAllReadings } from "../services/readingHistoryService";
+import { computeReadingStats } from "../core/readingStats";
+import { getAllCards, getCard } from "../data/tarot/loader";
+import { logger } from "../core/logger";
+import { useTheme } from "../theme/index";
+import { LiquidBackground, GlassCard } from "../theme/components";
+import { SUIT_LABELS } from "../utils/readingPatterns";
+import { describeFairness, formatMonth, formatPercent } from "../utils/statsFormat";
+import type { Suit } from "../types/tarot";
+import type { ReadingStats } from "../types/stats";
+
+/** Cards listed under "Most drawn" */
+const TOP_CARD_COUNT = 10;
+
+const SUIT_ORDER: Suit[] = ["major", "wands", "cups", "swords", "pentacles"];
+
+export default function StatsScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [stats, setStats] = useState<ReadingStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    logger.info("ui.screen.view", { screenName: "Stats" });
+    (async () => {
+      const account = await getCurrentAccountId();
+      setAccountId(account);
+      if (account) {
+        const readings = await getAllReadings(account);
+        setStats(computeReadingStats(readings, getAllCards()));
+      }
+      setLoading(false);
+    })();
+  }, []);
+
+  const suitColors: Record<Suit, string> = {
+    major: theme.colors.jade.primary,
+    wands: theme.colors.warning,
+    cups: theme.colors.jade.teal,
+    swords: theme.colors.text.secondary,
+    pentacles: theme.colors.jade.mint,
+  };
+
+  const sectionTitle = (title: string) => (
+    <Text style={[theme.typography.h2, { marginBottom: theme.spacing.md }]}>
+      {title}
+    </Text>
+  );
+
+  const bar = (fraction: number, color: string) => (
+    <View style={[styles.barTrack, { backgroundColor: theme.colors.glass.border }]}>
+      <View
+        style={[
+          styles.barFill,
+          { width: `${Math.round(fraction * 100)}%`, backgroundColor: color },
+        ]}
+      />
+    </View>
+  );
+
+  const statTile = (label: string, value: string) => (
+    <View style={styles.statTile}>
+      <Text style={[theme.typography.h2, { color: theme.colors.jade.primary }]}>
+        {value}
+      </Text>
+      <Text style={[theme.typography.caption, { color: theme.colors.text.secondary }]}>
+        {label}
+      </Text>
+    </View>
+  );
+
+  const renderStats = (data: ReadingStats) => {
+    const topCards = data.cardFrequencies.slice(0, TOP_CARD_COUNT);
+    const topCount = topCards[0]?.count ?? 1;
+    const deckSize = getAllCards().length;
+
+    return (
+      <>
+        <GlassCard style={{ marginBottom: theme.spacing.xl }}>
+          <View style={styles.statRow}>
+            {statTile("Readings", String(data.readingCount))}
+            {statTile("Cards drawn", String(data.cardCount))}
+          </View>
+          <View style={styles.statRow}>
+            {statTile("Day streak", String(data.streaks.current))}
+            {statTile("Longest streak", String(data.streaks.longest))}
+          </View>
+        </GlassCard>
+
+        {/* Most drawn */}
+        <View style={{ marginBottom: theme.spacing.xl }}>
+          {sectionTitle("Most Drawn")}
+          <GlassCard>
+            {topCards.map((frequency) => (
+              <View key={frequency.cardId} style={{ marginBottom: theme.spacing.sm }}>
+                <View style={styles.rowBetween}>
+                  <Text style={[theme.typography.bodySmall, { color: theme.colors.text.primary }]}>
+                    {getCard(frequency.cardId).name}
+                  </Text>
+                  <Text style={[theme.typography.caption, { color: theme.colors.text.secondary }]}>
+                    {frequency.count}×
+                    {frequency.reversedCount > 0 ? ` (${frequency.reversedCount} reversed)` : ""}
+                  </Text>
+                </View>
+                {bar(frequency.count / topCount, theme.colors.jade.primary)}
+              </View>
+            ))}
+          </GlassCard>
+        </View>
+
+        {/* Suits and arcana */}
+        <View style={{ marginBottom: theme.spacing.xl }}>
+          {sectionTitle("Suits & Arcana")}
+          <GlassCard>
+            <Text
+              style={[
+                theme.typography.body,
+                { color: theme.colors.text.primary, marginBottom: theme.spacing.md },
+              ]}
+            >
+              Major {data.majorCount} • Minor {data.minorCount}
+            </Text>
+            {SUIT_ORDER.map((suit) => (
+              <View key={suit} style={{ marginBottom: theme.spacing.sm }}>
+                <View style={styles.rowBetween}>
+                  <Text style={[theme.typography.bodySmall, { color: theme.colors.text.primary }]}>
+                    {SUIT_LABELS[suit]}
+                  </Text>
+                  <Text style={[theme.typography.caption, { color: theme.colors.text.secondary }]}>
+                    {data.suits[suit]} ({formatPercent(data.cardCount ? data.suits[suit] / data.cardCount : null)})
+                  </Text>
+                </View>
+                {bar(data.cardCount ? data.suits[suit] / data.cardCount : 0, suitColors[suit])}
+              </View>
+            ))}
+          </GlassCard>
+        </View>
+
+        {/* Suits over time */}
+        <View style={{ marginBottom: theme.spacing.xl }}>
+          {sectionTitle("Suits Over Time")}
+          <GlassCard>
+            {data.suitTimeline.map((period) => (
+              <View key={period.month} style={[styles.timelineRow, { marginBottom: theme.spacing.sm }]}>
+                <Text
+                  style={[
+                    theme.typography.caption,
+                    styles.timelineLabel,
+                    { color: theme.colors.text.secondary },
+                  ]}
+                >
+                  {formatMonth(period.month)}
+                </Text>
+                <View style={[styles.stackedBar, { backgroundColor: theme.colors.glass.border }]}>
+                  {SUIT_ORDER.filter((suit) => period.suits[suit] > 0).map((suit) => (
+                    <View
+                      key={suit}
+                      style={{ flex: period.suits[suit], backgroundColor: suitColors[suit] }}
+                    />
+                  ))}
+                </View>
+                <Text
+                  style={[
+                    theme.typography.caption,
+                    styles.timelineCount,
+                    { color: theme.colors.text.secondary },
+                  ]}
+                >
+                  {period.total}
+                </Text>
+              </View>
+            ))}
+            <View style={styles.legend}>
+              {SUIT_ORDER.map((suit) => (
+                <View key={suit} style={styles.legendItem}>
+                  <View style={[styles.legendSwatch, { backgroundColor: suitColors[suit] }]} />
+                  <Text style={[theme.typography.caption, { color: theme.colors.text.secondary }]}>
+                    {SUIT_LABELS[suit]}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </GlassCard>
+        </View>
+
+        {/* Reversals */}
+        <View style={{ marginBottom: theme.spacing.xl }}>
+          {sectionTitle("Reversals")}
+          <GlassCard>
+            <Text style={[theme.typography.body, { color: theme.colors.text.primary }]}>
+              {data.reversals.eligibleCount > 0
+                ? `${formatPercent(data.reversals.rate)} of cards came up reversed (${data.reversals.reversedCount} of ${data.reversals.eligibleCount}); about ${formatPercent(data.reversals.expectedRate)} expected.`
+                : "No readings with reversals yet."}
+            </Text>
+            {data.reversals.eligibleCount > 0 && (
+              <Text
+                style={[
+                  theme.typography.caption,
+                  { color: theme.colors.text.secondary, marginTop: theme.spacing.xs },
+                ]}
+              >
+                {describeFairness(data.reversals.fairness)}
+              </Text>
+            )}
+          </GlassCard>
+        </View>
+
+        {/* Fair shuffle check */}
+        <View style={{ marginBottom: theme.spacing.xl }}>
+          {sectionTitle("Fair Shuffle Check")}
+          <GlassCard>
+            <Text style={[theme.typography.bodySmall, { color: theme.colors.text.secondary }]}>
+              A fair shuffle gives every card the same chance. A chi-square test
+              measures how far your draws stray from that.
+            </Text>
+            <Text
+              style={[
+                theme.typography.body,
+                { color: theme.colors.text.primary, marginTop: theme.spacing.md },
+              ]}
+            >
+              Cards
+            </Text>
+            <Text style={[theme.typography.caption, { color: theme.colors.text.secondary }]}>
+              {describeFairness(data.fairness.cards)}
+            </Text>
+            <Text
+              style={[
+                theme.typography.body,
+                { color: theme.colors.text.primary, marginTop: theme.spacing.md },
+              ]}
+            >
+              Suits
+            </Text>
+            <Text style={[theme.typography.caption, { color: theme.colors.text.secondary }]}>
+              {describeFairness(data.fairness.suits)}
+            </Text>
+          </GlassCard>
+        </View>
+
+        {/* Never drawn */}
+        <View style={{ marginBottom: theme.spacing.xl }}>
+          {sectionTitle("Never Drawn")}
+          <GlassCard>
+            <Text
+              style={[
+                theme.typography.body,
+                { color: theme.colors.text.primary, marginBottom: theme.spacing.sm },
+              ]}
+            >
+              {data.neverDrawnCardIds.length === 0
+                ? "You've drawn every card in the deck."
+                : `${data.neverDrawnCardIds.length} of ${deckSize} cards`}
+            </Text>
+            {data.neverDrawnCardIds.length > 0 && (
+              <Text style={[theme.typography.caption, { color: theme.colors.text.secondary }]}>
+                {data.neverDrawnCardIds.map((cardId) => getCard(cardId).name).join(", ")}
+              </Text>
+            )}
+          </GlassCard>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <LiquidBackground>
+      <SafeAreaView style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text
+            style={[
+              theme.typography.h1,
+              { textAlign: "center", marginBottom: theme.spacing.lg },
+            ]}
+          >
+            Your Tarot Stats
+          </Text>
+
+          {loading ? (
+            <ActivityIndicator color={theme.colors.jade.primary} />
+          ) : stats && stats.readingCount > 0 ? (
+            renderStats(stats)
+          ) : (
+            <Text
+              style={[
+                theme.typography.body,
+                { textAlign: "center", color: theme.colors.text.secondary },
+              ]}
+            >
+              {accountId
+                ? "Draw a few readings to see your statistics."
+                : "Connect a wallet to keep a reading history."}
+            </Text>
+          )}
+
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => router.back()}
+            activeOpacity={0.7}
+          >
+            <Text style={[theme.typography.body, { textAlign: "center" }]}>← Back</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </LiquidBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  statRow: {
+    flexDirection: "row",
+    marginBottom: 12,
+  },
+  statTile: {
+    flex: 1,
+    alignItems: "center",
+  },
+  rowBetween: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "baseline",
+    marginBottom: 4,
+  },
+  barTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+  },
+  barFill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+  timelineRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  timelineLabel: {
+    width: 52,
+  },
+  timelineCount: {
+    width: 32,
+    textAlign: "right",
+  },
+  stackedBar: {
+    flex: 1,
+    height: 10,
+    borderRadius: 5,
+    overflow: "hidden",
+    flexDirection: "row",
+  },
+  legend: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,487 @@
+/**
+ * Study Screen - Learning mode for memorizing the deck
+ * Flashcards (image → keywords), upright/reversed meaning quizzes and
+ * "which category is this" questions, scheduled with spaced repetition per
+ * wallet, with mastery shown per suit
+ */
+
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { getCurrentAccountId } from "../services/creditsService";
+import {
+  loadStudyProgress,
+  saveStudyProgress,
+} from "../services/studyProgressService";
+import { applyReview, computeSuitMastery, getDueCardIds } from "../core/spacedRepetition";
+import { buildStudySession } from "../core/studySession";
+import { createRandomProvider } from "../core/random";
+import { getCard, loadCards } from "../data/tarot/loader";
+import { logger } from "../core/logger";
+import { useTheme } from "../theme/index";
+import {
+  LiquidBackground,
+  GlassCard,
+  NeonButton,
+  OptionChips,
+} from "../theme/components";
+import { getCardImagePath } from "../utils/cardImageMapper";
+import { getCardImageSource } from "../utils/cardImageMap";
+import { SUIT_LABELS } from "../utils/readingPatterns";
+import { CARD_CATEGORY_LABELS } from "../utils/deckBrowser";
+import { formatPercent } from "../utils/statsFormat";
+import {
+  ALL_SUITS,
+  STUDY_FOCUS_OPTIONS,
+  STUDY_GRADE_OPTIONS,
+} from "../utils/studyOptions";
+import type { StudyFocus } from "../utils/studyOptions";
+import type { ReadingCategory, TarotCard } from "../types/tarot";
+import type { StudyGrade, StudyProgress, StudyQuestion } from "../types/learning";
+
+interface ActiveSession {
+  questions: StudyQuestion[];
+  index: number;
+  correct: number;
+  quizzes: number;
+}
+
+export default function StudyScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const [cards, setCards] = useState<TarotCard[]>([]);
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<StudyProgress | null>(null);
+  const [focus, setFocus] = useState<StudyFocus>(ALL_SUITS);
+  const [session, setSession] = useState<ActiveSession | null>(null);
+  /** Flashcard answer shown */
+  const [revealed, setRevealed] = useState(false);
+  /** Index of the picked choice, or category picked, for the current quiz */
+  const [answer, setAnswer] = useState<number | ReadingCategory | null>(null);
+
+  useEffect(() => {
+    logger.info("ui.screen.view", { screenName: "Study" });
+    (async () => {
+      try {
+        const cardsMap = await loadCards();
+        const account = await getCurrentAccountId();
+        setCards(Array.from(cardsMap.values()));
+        setAccountId(account);
+        setProgress(await loadStudyProgress(account));
+      } catch (error) {
+        logger.error("study.load.error", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    })();
+  }, []);
+
+  if (!progress) {
+    return (
+      <LiquidBackground>
+        <SafeAreaView style={[styles.container, styles.centered]}>
+          <ActivityIndicator color={theme.colors.jade.primary} />
+        </SafeAreaView>
+      </LiquidBackground>
+    );
+  }
+
+  const suit = focus === ALL_SUITS ? undefined : focus;
+  const focusCards = suit
+    ? cards.filter((card) => (card.suit ?? "major") === suit)
+    : cards;
+  const focusIds = new Set(focusCards.map((card) => card.id));
+  const dueCount = getDueCardIds(progress).filter((cardId) => focusIds.has(cardId)).length;
+  const newCount = focusCards.filter((card) => !progress.cards[card.id]).length;
+
+  const startSession = () => {
+    const questions = buildStudySession(progress, cards, createRandomProvider(), { suit });
+    if (questions.length === 0) return;
+    setSession({ questions, index: 0, correct: 0, quizzes: 0 });
+    setRevealed(false);
+    setAnswer(null);
+  };
+
+  const recordGrade = (grade: StudyGrade) => {
+    if (!session) return;
+    const question = session.questions[session.index];
+    const next = applyReview(progress, question.cardId, grade);
+    setProgress(next);
+    saveStudyProgress(accountId, next);
+  };
+
+  const nextQuestion = (scored?: boolean) => {
+    if (!session) return;
+    setSession({
+      ...session,
+      index: session.index + 1,
+      correct: session.correct + (scored ? 1 : 0),
+      quizzes: session.quizzes + (scored === undefined ? 0 : 1),
+    });
+    setRevealed(false);
+    setAnswer(null);
+  };
+
+  const answerQuiz = (picked: number | ReadingCategory, correct: boolean) => {
+    if (answer !== null) return;
+    setAnswer(picked);
+    recordGrade(correct ? "good" : "again");
+  };
+
+  const sectionTitle = (title: string) => (
+    <Text style={[theme.typography.h2, { marginBottom: theme.spacing.md }]}>
+      {title}
+    </Text>
+  );
+
+  const cardImage = (card: TarotCard, isReversed: boolean) => (
+    <View style={[styles.imageWrap, { marginBottom: theme.spacing.md }]}>
+      <Image
+        source={getCardImageSource(getCardImagePath(card))}
+        style={[
+          styles.image,
+          {
+            borderColor: theme.colors.glass.border,
+            transform: [{ rotate: isReversed ? "180deg" : "0deg" }],
+          },
+        ]}
+        resizeMode="cover"
+      />
+    </View>
+  );
+
+  const choiceButton = (
+    key: string,
+    label: string,
+    picked: boolean,
+    correct: boolean,
+    onPress: () => void,
+  ) => {
+    const answered = answer !== null;
+    const borderColor = !answered
+      ? theme.colors.glass.border
+      : correct
+        ? theme.colors.success
+        : picked
+          ? theme.colors.error
+          : theme.colors.glass.border;
+    return (
+      <TouchableOpacity
+        key={key}
+        onPress={onPress}
+        disabled={answered}
+        activeOpacity={0.7}
+        style={[
+          styles.choice,
+          {
+            borderColor,
+            borderRadius: theme.spacing.borderRadius.sm,
+            marginBottom: theme.spacing.sm,
+          },
+        ]}
+      >
+        <Text style={[theme.typography.bodySmall, { color: theme.colors.text.primary }]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderQuestion = (question: StudyQuestion, active: ActiveSession) => {
+    const card = getCard(question.cardId);
+    const answered = answer !== null;
+    const orientation =
+      question.kind !== "flashcard" && question.isReversed ? "reversed" : "upright";
+
+    if (question.kind === "flashcard") {
+      return (
+        <>
+          {cardImage(card, false)}
+          {revealed ? (
+            <GlassCard>
+              <Text style={[theme.typography.h3, { textAlign: "center" }]}>{card.name}</Text>
+              <Text
+                style={[
+                  theme.typography.bodySmall,
+                  {
+                    textAlign: "center",
+                    color: theme.colors.text.secondary,
+                    marginVertical: theme.spacing.md,
+                  },
+                ]}
+              >
+                {card.keywords.join(" • ")}
+              </Text>
+              <Text
+                style={[
+                  theme.typography.caption,
+                  { textAlign: "center", marginBottom: theme.spacing.sm },
+                ]}
+              >
+                How well did you remember it?
+              </Text>
+              <OptionChips
+                options={STUDY_GRADE_OPTIONS}
+                selected={null}
+                onSelect={(grade) => {
+                  recordGrade(grade);
+                  nextQuestion();
+                }}
+                style={{ justifyContent: "center" }}
+              />
+            </GlassCard>
+          ) : (
+            <NeonButton title="Show Keywords" onPress={() => setRevealed(true)} />
+          )}
+        </>
+      );
+    }
+
+    const isCorrect =
+      question.kind === "orientation"
+        ? typeof answer === "number" && question.choices[answer]?.correct
+        : answer === question.category;
+
+    return (
+      <>
+        {cardImage(card, question.isReversed)}
+        <GlassCard style={{ marginBottom: theme.spacing.md }}>
+          <Text style={[theme.typography.h3, { marginBottom: theme.spacing.sm }]}>
+            {card.name} ({orientation})
+          </Text>
+          {question.kind === "orientation" ? (
+            <>
+              <Text style={[theme.typography.caption, { marginBottom: theme.spacing.md }]}>
+                Which meaning fits the card {orientation}?
+              </Text>
+              {question.choices.map((choice, index) =>
+                choiceButton(`${index}`, choice.label, answer === index, choice.correct, () =>
+                  answerQuiz(index, choice.correct),
+                ),
+              )}
+            </>
+          ) : (
+            <>
+              <Text
+                style={[
+                  theme.typography.body,
+                  { fontStyle: "italic", marginBottom: theme.spacing.sm },
+                ]}
+              >
+                "{question.meaning}"
+              </Text>
+              <Text style={[theme.typography.caption, { marginBottom: theme.spacing.md }]}>
+                Which area of life is this meaning for?
+              </Text>
+              {CARD_CATEGORY_LABELS.map(([category, label]) =>
+                choiceButton(
+                  category,
+                  label,
+                  answer === category,
+                  category === question.category,
+                  () => answerQuiz(category, category === question.category),
+                ),
+              )}
+            </>
+          )}
+        </GlassCard>
+        {answered && (
+          <>
+            <Text
+              style={[
+                theme.typography.body,
+                {
+                  textAlign: "center",
+                  color: isCorrect ? theme.colors.success : theme.colors.error,
+                  marginBottom: theme.spacing.md,
+                },
+              ]}
+            >
+              {isCorrect ? "Correct" : "Not quite — this card will come back soon"}
+            </Text>
+            <NeonButton
+              title={active.index + 1 < active.questions.length ? "Next" : "Finish"}
+              onPress={() => nextQuestion(Boolean(isCorrect))}
+            />
+          </>
+        )}
+      </>
+    );
+  };
+
+  const renderOverview = () => (
+    <>
+      <View style={{ marginBottom: theme.spacing.xl }}>
+        {sectionTitle("Mastery")}
+        <GlassCard>
+          {computeSuitMastery(progress, cards).map((entry) => (
+            <View key={entry.suit} style={{ marginBottom: theme.spacing.sm }}>
+              <View style={styles.rowBetween}>
+                <Text style={[theme.typography.bodySmall, { color: theme.colors.text.primary }]}>
+                  {SUIT_LABELS[entry.suit]}
+                </Text>
+                <Text style={[theme.typography.caption, { color: theme.colors.text.secondary }]}>
+                  {formatPercent(entry.mastery)} • {entry.studiedCount}/{entry.cardCount} studied
+                </Text>
+              </View>
+              <View style={[styles.barTrack, { backgroundColor: theme.colors.glass.border }]}>
+                <View
+                  style={[
+                    styles.barFill,
+                    {
+                      width: `${Math.round(entry.mastery * 100)}%`,
+                      backgroundColor: theme.colors.jade.primary,
+                    },
+                  ]}
+                />
+              </View>
+            </View>
+          ))}
+        </GlassCard>
+      </View>
+
+      <View style={{ marginBottom: theme.spacing.xl }}>
+        {sectionTitle("Study")}
+        <OptionChips
+          options={STUDY_FOCUS_OPTIONS}
+          selected={focus}
+          onSelect={setFocus}
+          style={{ marginBottom: theme.spacing.md }}
+        />
+        <Text
+          style={[
+            theme.typography.body,
+            { color: theme.colors.text.secondary, marginBottom: theme.spacing.md },
+          ]}
+        >
+          {dueCount} due for review • {newCount} not studied yet
+        </Text>
+        {dueCount + newCount > 0 ? (
+          <NeonButton title="Start Session" onPress={startSession} />
+        ) : (
+          <Text style={[theme.typography.body, { textAlign: "center" }]}>
+            All caught up — come back when cards are due.
+          </Text>
+        )}
+      </View>
+    </>
+  );
+
+  const renderSession = (active: ActiveSession) => {
+    if (active.index >= active.questions.length) {
+      return (
+        <GlassCard style={{ marginBottom: theme.spacing.xl }}>
+          <Text style={[theme.typography.h2, { textAlign: "center" }]}>Session complete</Text>
+          <Text
+            style={[
+              theme.typography.body,
+              { textAlign: "center", marginVertical: theme.spacing.md },
+            ]}
+          >
+            {active.questions.length} cards reviewed
+            {active.quizzes > 0 ? ` • ${active.correct}/${active.quizzes} quiz answers right` : ""}
+          </Text>
+          <NeonButton title="Done" onPress={() => setSession(null)} />
+        </GlassCard>
+      );
+    }
+    return (
+      <>
+        <Text
+          style={[
+            theme.typography.caption,
+            { textAlign: "center", marginBottom: theme.spacing.md },
+          ]}
+        >
+          {active.index + 1} / {active.questions.length}
+        </Text>
+        {renderQuestion(active.questions[active.index], active)}
+      </>
+    );
+  };
+
+  return (
+    <LiquidBackground>
+      <SafeAreaView style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text
+            style={[
+              theme.typography.h1,
+              { textAlign: "center", marginBottom: theme.spacing.lg },
+            ]}
+          >
+            Study the Deck
+          </Text>
+
+          {session ? renderSession(session) : renderOverview()}
+
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => (session ? setSession(null) : router.back())}
+            activeOpacity={0.7}
+          >
+            <Text style={[theme.typography.body, { textAlign: "center" }]}>
+              {session ? "End Session" : "← Back"}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </LiquidBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  imageWrap: {
+    alignItems: "center",
+  },
+  image: {
+    width: 150,
+    height: 255,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  choice: {
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  rowBetween: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "baseline",
+    marginBottom: 4,
+  },
+  barTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+  },
+  barFill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+});
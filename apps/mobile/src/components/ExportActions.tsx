@@ -0,0 +1,88 @@
+/**
+ * ExportActions - Export readings as JSON, Markdown or PDF
+ * Shared by the result screen (one reading) and the history screen (the filtered range).
+ * Readings are fetched only when a format is tapped.
+ */
+
+import { useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator, Alert } from "react-native";
+import { exportReadings } from "../services/exportService";
+import { useTheme } from "../theme/index";
+import type { ExportFormat } from "../types/export";
+import type { ReadingResultLocal } from "../types/tarot";
+
+const FORMAT_LABELS: Array<{ format: ExportFormat; label: string }> = [
+  { format: "pdf", label: "PDF" },
+  { format: "markdown", label: "Markdown" },
+  { format: "json", label: "JSON" },
+];
+
+interface ExportActionsProps {
+  /** Readings to export, loaded on demand */
+  loadReadings: () => Promise<ReadingResultLocal[]>;
+  /** Text before the format links */
+  label?: string;
+}
+
+export function ExportActions({ loadReadings, label = "Export as" }: ExportActionsProps) {
+  const theme = useTheme();
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (busyFormat) return;
+    setBusyFormat(format);
+    try {
+      const readings = await loadReadings();
+      if (readings.length === 0) {
+        Alert.alert("Nothing to export", "There are no readings to export.");
+        return;
+      }
+      await exportReadings(readings, format);
+    } catch (error) {
+      Alert.alert(
+        "Export failed",
+        error instanceof Error ? error.message : "Please try again.",
+      );
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <View style={styles.row}>
+      <Text style={[theme.typography.bodySmall, { color: theme.colors.text.secondary }]}>
+        {label}
+      </Text>
+      {FORMAT_LABELS.map(({ format, label: formatLabel }) =>
+        busyFormat === format ? (
+          <ActivityIndicator key={format} size="small" color={theme.colors.jade.primary} />
+        ) : (
+          <Text
+            key={format}
+            onPress={() => handleExport(format)}
+            style={[
+              theme.typography.bodySmall,
+              {
+                color: theme.colors.jade.primary,
+                fontWeight: theme.typography.weights.semibold,
+                textDecorationLine: "underline",
+                opacity: busyFormat ? 0.5 : 1,
+              },
+            ]}
+          >
+            {formatLabel}
+          </Text>
+        ),
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 16,
+  },
+});
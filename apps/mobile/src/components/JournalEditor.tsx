@@ -0,0 +1,234 @@
+/**
+ * JournalEditor - Write reflections on a reading and track how it turned out
+ * Shared by the result screen and the history screen. Every change is passed
+ * up as a new reading; the screen decides how to store it.
+ */
+
+import { useState } from "react";
+import { View, Text, TextInput, StyleSheet } from "react-native";
+import {
+  addJournalEntry,
+  removeJournalEntry,
+  setReadingOutcome,
+  setFollowUp,
+  parseJournalTags,
+  isFollowUpDue,
+} from "../core/readingJournal";
+import { useTheme } from "../theme/index";
+import { OptionChips } from "../theme/components";
+import {
+  JOURNAL_MOOD_OPTIONS,
+  JOURNAL_MOOD_LABELS,
+  OUTCOME_OPTIONS,
+  FOLLOW_UP_OPTIONS,
+  followUpDateForPreset,
+} from "../utils/journalOptions";
+import type { FollowUpPreset } from "../utils/journalOptions";
+import type { JournalMood, ReadingResultLocal } from "../types/tarot";
+
+interface JournalEditorProps {
+  reading: ReadingResultLocal;
+  onChange: (reading: ReadingResultLocal) => void;
+}
+
+export function JournalEditor({ reading, onChange }: JournalEditorProps) {
+  const theme = useTheme();
+  const journal = reading.journal;
+  const [text, setText] = useState("");
+  const [mood, setMood] = useState<JournalMood | null>(null);
+  const [tagInput, setTagInput] = useState("");
+  const [outcomeNote, setOutcomeNote] = useState(journal?.outcome?.note ?? "");
+
+  const followUpDue = isFollowUpDue(journal);
+
+  const handleAddEntry = () => {
+    if (!text.trim()) return;
+    onChange(
+      addJournalEntry(reading, {
+        text,
+        mood: mood ?? undefined,
+        tags: parseJournalTags(tagInput),
+      }),
+    );
+    setText("");
+    setMood(null);
+    setTagInput("");
+  };
+
+  const handleFollowUp = (preset: FollowUpPreset) => {
+    onChange(setFollowUp(reading, followUpDateForPreset(preset)));
+  };
+
+  const inputStyle = [
+    theme.typography.body,
+    styles.input,
+    {
+      color: theme.colors.text.primary,
+      borderColor: theme.colors.glass.border,
+      borderRadius: theme.spacing.borderRadius.sm,
+      marginBottom: theme.spacing.sm,
+    },
+  ];
+  const labelStyle = [
+    theme.typography.caption,
+    { color: theme.colors.text.secondary, marginBottom: theme.spacing.xs },
+  ];
+  const linkStyle = [
+    theme.typography.bodySmall,
+    {
+      color: theme.colors.jade.primary,
+      fontWeight: theme.typography.weights.semibold,
+    },
+  ];
+
+  return (
+    <View>
+      {/* Past entries */}
+      {journal?.entries.map((entry) => (
+        <View
+          key={entry.id}
+          style={[
+            styles.entry,
+            {
+              borderColor: theme.colors.glass.border,
+              borderRadius: theme.spacing.borderRadius.sm,
+              marginBottom: theme.spacing.sm,
+            },
+          ]}
+        >
+          <View style={styles.entryHeader}>
+            <Text style={[theme.typography.caption, { color: theme.colors.text.secondary }]}>
+              {new Date(entry.createdAtIso).toLocaleString()}
+              {entry.mood ? ` • ${JOURNAL_MOOD_LABELS[entry.mood]}` : ""}
+            </Text>
+            <Text
+              onPress={() => onChange(removeJournalEntry(reading, entry.id))}
+              style={[theme.typography.caption, { color: theme.colors.text.tertiary }]}
+            >
+              Delete
+            </Text>
+          </View>
+          <Text style={[theme.typography.bodySmall, { color: theme.colors.text.primary }]}>
+            {entry.text}
+          </Text>
+          {entry.tags.length > 0 && (
+            <Text
+              style={[
+                theme.typography.caption,
+                { color: theme.colors.jade.secondary, marginTop: theme.spacing.xs },
+              ]}
+            >
+              {entry.tags.map((tag) => `#${tag}`).join(" ")}
+            </Text>
+          )}
+        </View>
+      ))}
+
+      {/* New entry */}
+      <TextInput
+        value={text}
+        onChangeText={setText}
+        placeholder="What stands out to you about this reading?"
+        placeholderTextColor={theme.colors.text.tertiary}
+        multiline
+        maxLength={2000}
+        style={[...inputStyle, styles.entryInput]}
+      />
+      <Text style={labelStyle}>Mood</Text>
+      <OptionChips
+        options={JOURNAL_MOOD_OPTIONS}
+        selected={mood}
+        onSelect={(value) => setMood((prev) => (prev === value ? null : value))}
+        style={{ marginBottom: theme.spacing.sm }}
+      />
+      <TextInput
+        value={tagInput}
+        onChangeText={setTagInput}
+        placeholder="Tags, separated by commas"
+        placeholderTextColor={theme.colors.text.tertiary}
+        autoCapitalize="none"
+        style={inputStyle}
+      />
+      <Text
+        onPress={handleAddEntry}
+        style={[
+          ...linkStyle,
+          { marginBottom: theme.spacing.lg, opacity: text.trim() ? 1 : 0.5 },
+        ]}
+      >
+        + Add journal entry
+      </Text>
+
+      {/* Outcome */}
+      <Text style={labelStyle}>How did it turn out?</Text>
+      <OptionChips
+        options={OUTCOME_OPTIONS}
+        selected={journal?.outcome?.status ?? null}
+        onSelect={(status) => onChange(setReadingOutcome(reading, status, outcomeNote))}
+        style={{ marginBottom: theme.spacing.sm }}
+      />
+      {journal?.outcome && (
+        <TextInput
+          value={outcomeNote}
+          onChangeText={setOutcomeNote}
+          onEndEditing={() =>
+            journal.outcome &&
+            onChange(setReadingOutcome(reading, journal.outcome.status, outcomeNote))
+          }
+          placeholder="What actually happened? (optional)"
+          placeholderTextColor={theme.colors.text.tertiary}
+          multiline
+          maxLength={1000}
+          style={inputStyle}
+        />
+      )}
+
+      {/* Follow-up reminder */}
+      <Text style={[...labelStyle, { marginTop: theme.spacing.sm }]}>Follow-up reminder</Text>
+      {journal?.followUpAtIso ? (
+        <View style={styles.entryHeader}>
+          <Text
+            style={[
+              theme.typography.bodySmall,
+              { color: followUpDue ? theme.colors.jade.primary : theme.colors.text.primary },
+            ]}
+          >
+            {followUpDue ? "Due since " : "Set for "}
+            {new Date(journal.followUpAtIso).toLocaleDateString()}
+          </Text>
+          <Text onPress={() => handleFollowUp("none")} style={linkStyle}>
+            Clear
+          </Text>
+        </View>
+      ) : (
+        <OptionChips
+          options={FOLLOW_UP_OPTIONS.filter((option) => option.value !== "none")}
+          selected={null}
+          onSelect={handleFollowUp}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  input: {
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  entryInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  entry: {
+    borderWidth: 1,
+    padding: 10,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+});
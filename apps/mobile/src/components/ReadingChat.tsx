@@ -0,0 +1,149 @@
+/**
+ * ReadingChat - Ask follow-up questions about a reading
+ * Shows the conversation and an input for the next question. Sending is left
+ * to the screen, which charges credits and stores the answer on the reading.
+ */
+
+import { useState } from "react";
+import { View, Text, TextInput, StyleSheet } from "react-native";
+import { useTheme } from "../theme/index";
+import { NeonButton } from "../theme/components";
+import type { ReadingChatMessage } from "../types/tarot";
+
+/** Longest question the panel accepts */
+const MAX_QUESTION_LENGTH = 1000;
+
+interface ReadingChatProps {
+  messages: ReadingChatMessage[];
+  /** Credits charged per question */
+  creditCost: number;
+  /** A question is waiting for its answer */
+  sending: boolean;
+  /** Send a question; resolves true once answered so the input can be cleared */
+  onSend: (question: string) => Promise<boolean>;
+}
+
+export function ReadingChat({ messages, creditCost, sending, onSend }: ReadingChatProps) {
+  const theme = useTheme();
+  const [question, setQuestion] = useState("");
+
+  const handleSend = async () => {
+    const trimmed = question.trim();
+    if (!trimmed || sending) return;
+    if (await onSend(trimmed)) {
+      setQuestion("");
+    }
+  };
+
+  const costLabel =
+    creditCost === 0
+      ? "Ask"
+      : `Ask (${creditCost} credit${creditCost === 1 ? "" : "s"})`;
+
+  return (
+    <View>
+      {messages.length === 0 && (
+        <Text
+          style={[
+            theme.typography.bodySmall,
+            { color: theme.colors.text.secondary, marginBottom: theme.spacing.md },
+          ]}
+        >
+          Ask about a card, a position or how the reading applies to your life.
+        </Text>
+      )}
+
+      {messages.map((message, index) => {
+        const isUser = message.role === "user";
+        return (
+          <View
+            key={`${message.createdAtIso}-${index}`}
+            style={[
+              styles.message,
+              isUser ? styles.userMessage : styles.assistantMessage,
+              {
+                borderColor: theme.colors.glass.border,
+                borderRadius: theme.spacing.borderRadius.sm,
+                marginBottom: theme.spacing.sm,
+                backgroundColor: isUser ? theme.colors.glass.background : "transparent",
+              },
+            ]}
+          >
+            <Text
+              style={[
+                theme.typography.caption,
+                {
+                  color: isUser ? theme.colors.jade.secondary : theme.colors.jade.primary,
+                  marginBottom: theme.spacing.xs,
+                },
+              ]}
+            >
+              {isUser ? "You" : "Reader"}
+            </Text>
+            <Text style={[theme.typography.bodySmall, { color: theme.colors.text.primary }]}>
+              {message.content}
+            </Text>
+          </View>
+        );
+      })}
+
+      {sending && (
+        <Text
+          style={[
+            theme.typography.caption,
+            { color: theme.colors.text.secondary, marginBottom: theme.spacing.sm },
+          ]}
+        >
+          The reader is thinking…
+        </Text>
+      )}
+
+      <TextInput
+        value={question}
+        onChangeText={setQuestion}
+        placeholder="What does this card mean for my job?"
+        placeholderTextColor={theme.colors.text.tertiary}
+        multiline
+        maxLength={MAX_QUESTION_LENGTH}
+        editable={!sending}
+        style={[
+          theme.typography.body,
+          styles.input,
+          {
+            color: theme.colors.text.primary,
+            borderColor: theme.colors.glass.border,
+            borderRadius: theme.spacing.borderRadius.sm,
+            marginTop: theme.spacing.xs,
+            marginBottom: theme.spacing.sm,
+          },
+        ]}
+      />
+      <NeonButton
+        title={costLabel}
+        onPress={handleSend}
+        disabled={sending || !question.trim()}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  message: {
+    borderWidth: 1,
+    padding: 10,
+    maxWidth: "90%",
+  },
+  userMessage: {
+    alignSelf: "flex-end",
+  },
+  assistantMessage: {
+    alignSelf: "flex-start",
+  },
+  input: {
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    minHeight: 60,
+    textAlignVertical: "top",
+  },
+});
@@ -0,0 +1,221 @@
+/**
+ * ShareImageCard - A reading drawn as a fixed-size card for sharing as an image
+ * Lays out the spread with card art and position labels, the question and a
+ * narrative excerpt, in the accent palette. Rendered off to the side of the
+ * result screen and captured to a PNG.
+ */
+
+import { Fragment, forwardRef } from "react";
+import { View, Text, Image, StyleSheet } from "react-native";
+import { LinearGradient } from "expo-linear-gradient";
+import { fitSpreadLayout } from "../core/spreadLayout";
+import { getCard, getSpreadForReading } from "../data/tarot/loader";
+import { buildThemeColorsFromHue } from "../theme/themeColorsFromHue";
+import { getCardImagePath } from "../utils/cardImageMapper";
+import { getCardImageSource } from "../utils/cardImageMap";
+import { SHARE_IMAGE_TEMPLATES, narrativeExcerpt } from "../utils/shareImage";
+import type { ShareImageTemplate } from "../utils/shareImage";
+import type { ReadingResultLocal } from "../types/tarot";
+
+/** Room for the title and question above the spread */
+const HEADER_HEIGHT = 64;
+
+/** Room for the app name below everything else */
+const FOOTER_HEIGHT = 24;
+
+/** Space between the spread and the narrative excerpt */
+const EXCERPT_GAP = 12;
+
+/** Excerpt line height, and a rough count of characters per line at its font size */
+const EXCERPT_LINE_HEIGHT = 15;
+const EXCERPT_CHARS_PER_LINE = 45;
+
+/** Height of each position label under its card */
+const LABEL_HEIGHT = 12;
+
+const PADDING = 16;
+
+interface ShareImageCardProps {
+  reading: ReadingResultLocal;
+  template: ShareImageTemplate;
+  accentHue: number;
+}
+
+export const ShareImageCard = forwardRef<View, ShareImageCardProps>(
+  function ShareImageCard({ reading, template, accentHue }, ref) {
+    const spec = SHARE_IMAGE_TEMPLATES[template];
+    const colors = buildThemeColorsFromHue(accentHue);
+    const spread = getSpreadForReading(reading);
+
+    const excerpt =
+      spec.excerptLength > 0 && reading.aiNarrative
+        ? narrativeExcerpt(reading.aiNarrative, spec.excerptLength)
+        : null;
+    const excerptHeight = excerpt
+      ? Math.ceil(excerpt.length / EXCERPT_CHARS_PER_LINE) * EXCERPT_LINE_HEIGHT
+      : 0;
+
+    const area = {
+      width: spec.width - PADDING * 2,
+      height:
+        spec.height -
+        HEADER_HEIGHT -
+        FOOTER_HEIGHT -
+        (excerpt ? excerptHeight + EXCERPT_GAP : 0) -
+        PADDING * 2,
+    };
+    const layout = fitSpreadLayout(spread, area, {
+      maxCardWidth: spread.cardCount === 1 ? area.height * 0.55 : 110,
+      minCardWidth: 18,
+      gap: 6,
+      padding: 4,
+      labelHeight: LABEL_HEIGHT,
+      labelGap: 2,
+    });
+    // Spreads too big for the area are shrunk to fit rather than cut off
+    const scale = Math.min(1, area.height / layout.contentHeight);
+
+    return (
+      <View ref={ref} collapsable={false} style={{ width: spec.width, height: spec.height }}>
+        <LinearGradient
+          colors={colors.background.primary as [string, string, ...string[]]}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+          style={[StyleSheet.absoluteFill, styles.content]}
+        >
+          <View style={{ height: HEADER_HEIGHT }}>
+            <Text style={[styles.title, { color: colors.jade.primary }]} numberOfLines={1}>
+              {spread.displayName}
+            </Text>
+            {reading.question ? (
+              <Text
+                style={[styles.question, { color: colors.text.primary }]}
+                numberOfLines={spec.questionLines}
+              >
+                "{reading.question}"
+              </Text>
+            ) : null}
+          </View>
+
+          <View style={{ width: area.width, height: area.height, alignItems: "center" }}>
+            <View
+              style={{
+                width: area.width,
+                height: layout.contentHeight,
+                transform: [{ scale }],
+                transformOrigin: "top",
+              }}
+            >
+              {layout.cards.map((placement) => {
+                const drawnCard = reading.drawnCards.find(
+                  (card) => card.positionIndex === placement.positionIndex,
+                );
+                if (!drawnCard) return null;
+                const card = getCard(drawnCard.cardId);
+                const rotation = placement.rotation + (drawnCard.isReversed ? 180 : 0);
+                return (
+                  <Fragment key={placement.positionIndex}>
+                    <View
+                      style={[
+                        styles.cardFrame,
+                        {
+                          left: placement.x,
+                          top: placement.y,
+                          width: placement.width,
+                          height: placement.height,
+                          zIndex: placement.zIndex,
+                          borderColor: colors.glass.border,
+                          transform: [{ rotate: `${rotation}deg` }],
+                        },
+                      ]}
+                    >
+                      <Image
+                        source={getCardImageSource(getCardImagePath(card))}
+                        style={styles.cardImage}
+                        resizeMode="cover"
+                      />
+                    </View>
+                    {placement.label && (
+                      <Text
+                        numberOfLines={1}
+                        style={[
+                          styles.positionLabel,
+                          {
+                            left: placement.label.x,
+                            top: placement.label.y,
+                            width: placement.label.width,
+                            color: colors.text.secondary,
+                          },
+                        ]}
+                      >
+                        {spread.positions[placement.positionIndex]?.label}
+                      </Text>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </View>
+          </View>
+
+          {excerpt && (
+            <Text
+              style={[styles.excerpt, { color: colors.text.primary, height: excerptHeight }]}
+            >
+              {excerpt}
+            </Text>
+          )}
+
+          <Text style={[styles.footer, { color: colors.jade.secondary }]}>Tarot</Text>
+        </LinearGradient>
+      </View>
+    );
+  },
+);
+
+const styles = StyleSheet.create({
+  content: {
+    padding: PADDING,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "700",
+    textAlign: "center",
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  question: {
+    fontSize: 12,
+    fontStyle: "italic",
+    textAlign: "center",
+  },
+  cardFrame: {
+    position: "absolute",
+    borderWidth: 1,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  cardImage: {
+    width: "100%",
+    height: "100%",
+  },
+  positionLabel: {
+    position: "absolute",
+    height: LABEL_HEIGHT,
+    fontSize: 8,
+    textAlign: "center",
+  },
+  excerpt: {
+    fontSize: 11,
+    lineHeight: EXCERPT_LINE_HEIGHT,
+    marginTop: EXCERPT_GAP,
+    overflow: "hidden",
+  },
+  footer: {
+    height: FOOTER_HEIGHT,
+    fontSize: 10,
+    fontWeight: "600",
+    textAlign: "center",
+    letterSpacing: 2,
+    paddingTop: 8,
+  },
+});
@@ -0,0 +1,148 @@
+/**
+ * ShareImageSheet - Pick a template, preview the reading image and share it
+ * The preview is the captured view itself, scaled down to fit the screen;
+ * the capture is taken at the template's full export size.
+ */
+
+import { useRef, useState } from "react";
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  useWindowDimensions,
+} from "react-native";
+import { captureRef } from "react-native-view-shot";
+import { shareReadingImage } from "../services/exportService";
+import { useTheme, useAccentHue } from "../theme/index";
+import { GlassCard, NeonButton, OptionChips } from "../theme/components";
+import { ShareImageCard } from "./ShareImageCard";
+import {
+  SHARE_IMAGE_TEMPLATES,
+  SHARE_IMAGE_TEMPLATE_OPTIONS,
+} from "../utils/shareImage";
+import type { ShareImageTemplate } from "../utils/shareImage";
+import type { ReadingResultLocal } from "../types/tarot";
+
+/** Share of the window height the preview may take */
+const PREVIEW_MAX_HEIGHT_RATIO = 0.55;
+
+interface ShareImageSheetProps {
+  visible: boolean;
+  reading: ReadingResultLocal;
+  onClose: () => void;
+}
+
+export function ShareImageSheet({ visible, reading, onClose }: ShareImageSheetProps) {
+  const theme = useTheme();
+  const { accentHue } = useAccentHue();
+  const window = useWindowDimensions();
+  const cardRef = useRef<View>(null);
+  const [template, setTemplate] = useState<ShareImageTemplate>("story");
+  const [sharing, setSharing] = useState(false);
+
+  const spec = SHARE_IMAGE_TEMPLATES[template];
+  const previewScale = Math.min(
+    1,
+    (window.width - 80) / spec.width,
+    (window.height * PREVIEW_MAX_HEIGHT_RATIO) / spec.height,
+  );
+
+  const handleShare = async () => {
+    if (sharing) return;
+    setSharing(true);
+    try {
+      const uri = await captureRef(cardRef, {
+        format: "png",
+        result: "tmpfile",
+        width: spec.exportWidth,
+        height: spec.exportHeight,
+      });
+      await shareReadingImage(uri, reading.readingId);
+    } catch (error) {
+      Alert.alert(
+        "Couldn't share image",
+        error instanceof Error ? error.message : "Please try again.",
+      );
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <GlassCard style={styles.sheet}>
+          <OptionChips
+            options={SHARE_IMAGE_TEMPLATE_OPTIONS}
+            selected={template}
+            onSelect={setTemplate}
+            style={{ marginBottom: theme.spacing.md }}
+          />
+
+          <View
+            style={[
+              styles.preview,
+              {
+                width: spec.width * previewScale,
+                height: spec.height * previewScale,
+                marginBottom: theme.spacing.md,
+              },
+            ]}
+          >
+            <View
+              style={{
+                transform: [{ scale: previewScale }],
+                transformOrigin: "top left",
+              }}
+            >
+              <ShareImageCard
+                ref={cardRef}
+                reading={reading}
+                template={template}
+                accentHue={accentHue}
+              />
+            </View>
+          </View>
+
+          {sharing ? (
+            <ActivityIndicator
+              color={theme.colors.jade.primary}
+              style={{ marginBottom: theme.spacing.md }}
+            />
+          ) : (
+            <NeonButton
+              title="Share Image"
+              onPress={handleShare}
+              style={{ marginBottom: theme.spacing.md }}
+            />
+          )}
+          <Text
+            onPress={onClose}
+            style={[theme.typography.body, { textAlign: "center" }]}
+          >
+            Close
+          </Text>
+        </GlassCard>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+    justifyContent: "center",
+    padding: 20,
+  },
+  sheet: {
+    alignItems: "center",
+  },
+  preview: {
+    overflow: "hidden",
+    borderRadius: 8,
+  },
+});
@@ -39,15 +39,26 @@ export function loadAppConfig(): AppConfig {
     process.env.EXPO_PUBLIC_SOLANA_RECIPIENT_ADDRESS ||
     "";
 
+  // Credits per follow-up question (whole number, at least 0)
+  const configuredChatCost = Number(
+    extra.chatCreditCost ?? process.env.EXPO_PUBLIC_CHAT_CREDIT_COST ?? 1
+  );
+  const chatCreditCost =
+    Number.isInteger(configuredChatCost) && configuredChatCost >= 0
+      ? configuredChatCost
+      : 1;
+
   const config: AppConfig = {
     apiBaseUrl,
     solanaRecipientAddress,
+    chatCreditCost,
     featureFlags,
   };
 
   logger.info("config.loaded", {
     apiBaseUrl,
     solanaRecipientAddress: solanaRecipientAddress ? "***" : "not set",
+    chatCreditCost,
     featureFlags,
   });
 
@@ -0,0 +1,258 @@
+import {
+  createDeckSession,
+  cutDeck,
+  defaultRestackOrder,
+  drawClarifiersForReading,
+  drawClarifiersFromSession,
+  drawFromSession,
+  gatherCards,
+  overhandShuffle,
+  prepareSessionForReading,
+  restackPiles,
+  riffleShuffle,
+  setCardAside,
+} from "../deckSession";
+import { buildLocalResult } from "../tarotEngine";
+import { createSeededProvider } from "../random";
+import { getAllCards, getSpread, initializeTarotData } from "../../data/tarot/loader";
+import type { DeckSession } from "../../types/tarot";
+
+beforeAll(async () => {
+  await initializeTarotData();
+});
+
+/** The first ten Major Arcana in deck order */
+const smallDeck = () => createDeckSession(getAllCards().slice(0, 10));
+
+const ids = (session: DeckSession) => session.remaining.map((card) => card.cardId);
+
+describe("hand shuffles", () => {
+  it("riffles a fixed deck into a fixed order for a fixed seed", () => {
+    const shuffled = riffleShuffle(smallDeck(), createSeededProvider("riffle"));
+    expect(ids(shuffled)).toEqual([
+      "lovers", "chariot", "fool", "magician", "strength",
+      "high_priestess", "empress", "hermit", "emperor", "hierophant",
+    ]);
+  });
+
+  it("keeps each riffled half in its original order", () => {
+    const deck = smallDeck();
+    const order = new Map(ids(deck).map((id, idx) => [id, idx]));
+    const positions = ids(riffleShuffle(deck, createSeededProvider("riffle"))).map(
+      (id) => order.get(id)!
+    );
+    const increasing = (values: number[]) =>
+      values.every((value, idx) => idx === 0 || value > values[idx - 1]);
+    // Some cut splits the result into two halves that each kept their order
+    const isInterleaving = positions.some((_, cut) =>
+      increasing(positions.filter((position) => position < cut)) &&
+      increasing(positions.filter((position) => position >= cut))
+    );
+    expect(isInterleaving).toBe(true);
+  });
+
+  it("moves packets in an overhand shuffle for a fixed seed", () => {
+    const shuffled = overhandShuffle(smallDeck(), createSeededProvider("overhand"));
+    expect(ids(shuffled)).toEqual([
+      "strength", "hermit", "lovers", "chariot", "hierophant",
+      "emperor", "fool", "magician", "high_priestess", "empress",
+    ]);
+  });
+});
+
+describe("cutDeck and restackPiles", () => {
+  it("cuts into non-empty piles that keep deck order", () => {
+    const piles = cutDeck(smallDeck(), 3, createSeededProvider("cut"));
+    expect(piles.map((pile) => pile.map((card) => card.cardId))).toEqual([
+      ["fool", "magician", "high_priestess"],
+      ["empress", "emperor", "hierophant", "lovers"],
+      ["chariot", "strength", "hermit"],
+    ]);
+  });
+
+  it("rejects impossible pile counts", () => {
+    expect(() => cutDeck(smallDeck(), 0, createSeededProvider("cut"))).toThrow();
+    expect(() => cutDeck(smallDeck(), 11, createSeededProvider("cut"))).toThrow();
+  });
+
+  it("restacks piles in the given order and turns the chosen ones", () => {
+    const deck = smallDeck();
+    const piles = cutDeck(deck, 2, createSeededProvider("cut"));
+    const restacked = restackPiles(deck, piles, [1, 0], [true, false]);
+    const expectedTop = piles[1].map((card) => card.cardId);
+    expect(ids(restacked).slice(0, piles[1].length)).toEqual(expectedTop);
+    const turned = restacked.remaining.slice(piles[1].length);
+    expect(turned.map((card) => card.cardId)).toEqual(
+      piles[0].map((card) => card.cardId).reverse()
+    );
+    expect(turned.every((card) => card.isReversed)).toBe(true);
+  });
+
+  it("rejects an order that isn't a permutation of the piles", () => {
+    const deck = smallDeck();
+    const piles = cutDeck(deck, 2, createSeededProvider("cut"));
+    expect(() => restackPiles(deck, piles, [0, 0])).toThrow("Invalid restack order");
+  });
+
+  it("defaults to the last pile on top", () => {
+    expect(defaultRestackOrder(3)).toEqual([2, 1, 0]);
+  });
+});
+
+describe("prepareSessionForReading", () => {
+  it("prepares a fixed deck for a fixed seed and deals off the top", () => {
+    const random = createSeededProvider("deck-golden");
+    const prepared = prepareSessionForReading(
+      createDeckSession(getAllCards()),
+      { cutPiles: 3, reversals: { mode: "none" } },
+      random
+    );
+    expect(ids(prepared).slice(0, 5)).toEqual([
+      "star", "nine_cups", "seven_wands", "page_swords", "queen_pentacles",
+    ]);
+
+    const { session, drawnCards } = drawFromSession(prepared, 3, { mode: "none" }, random, "r1");
+    expect(drawnCards).toEqual([
+      { cardId: "star", isReversed: false, positionIndex: 0 },
+      { cardId: "nine_cups", isReversed: false, positionIndex: 1 },
+      { cardId: "seven_wands", isReversed: false, positionIndex: 2 },
+    ]);
+    expect(session.remaining).toHaveLength(75);
+    expect(session.dealt).toHaveLength(3);
+    expect(session.readingIds).toEqual(["r1"]);
+  });
+
+  it("gathers the last reading back into the deck before shuffling", () => {
+    const random = createSeededProvider("deck-golden");
+    const prepared = prepareSessionForReading(
+      createDeckSession(getAllCards()),
+      { cutPiles: 3, reversals: { mode: "none" } },
+      random
+    );
+    const first = drawFromSession(prepared, 3, { mode: "none" }, random, "r1").session;
+
+    const second = prepareSessionForReading(
+      first,
+      { cutPiles: 2, reversals: { mode: "half_turned" } },
+      createSeededProvider("second")
+    );
+    expect(second.remaining).toHaveLength(78);
+    expect(second.dealt).toHaveLength(0);
+    expect(second.remaining.slice(0, 4)).toEqual([
+      { cardId: "ace_swords", isReversed: true },
+      { cardId: "chariot", isReversed: true },
+      { cardId: "seven_cups", isReversed: false },
+      { cardId: "sun", isReversed: false },
+    ]);
+  });
+
+  it("changes the deal when the user picks a different restack order", () => {
+    const prepare = (restackOrder: number[]) =>
+      ids(
+        prepareSessionForReading(
+          createDeckSession(getAllCards()),
+          { cutPiles: 3, restackOrder, reversals: { mode: "none" } },
+          createSeededProvider("order")
+        )
+      );
+    const lastOnTop = prepare([2, 1, 0]);
+    const firstOnTop = prepare([0, 1, 2]);
+    expect(firstOnTop).not.toEqual(lastOnTop);
+    expect([...firstOnTop].sort()).toEqual([...lastOnTop].sort());
+    expect(
+      ids(
+        prepareSessionForReading(
+          createDeckSession(getAllCards()),
+          { cutPiles: 3, reversals: { mode: "none" } },
+          createSeededProvider("order")
+        )
+      )
+    ).toEqual(lastOnTop);
+  });
+
+  it("keeps the significator out of the deal", () => {
+    const prepared = prepareSessionForReading(
+      createDeckSession(getAllCards()),
+      { cutPiles: 1, reversals: { mode: "none" }, significatorCardId: "fool" },
+      createSeededProvider("significator")
+    );
+    expect(ids(prepared)).not.toContain("fool");
+    expect(prepared.setAside).toEqual([{ cardId: "fool", isReversed: false }]);
+    expect(ids(gatherCards(prepared))).toContain("fool");
+  });
+});
+
+describe("setCardAside", () => {
+  it("refuses a card that isn't in the deck", () => {
+    const session = setCardAside(smallDeck(), "fool");
+    expect(() => setCardAside(session, "fool")).toThrow("not in the deck");
+  });
+});
+
+describe("drawClarifiersFromSession", () => {
+  it("deals clarifiers from what remains and refuses to overdraw", () => {
+    const session = smallDeck();
+    const dealt = drawClarifiersFromSession(
+      session,
+      2,
+      { mode: "none" },
+      createSeededProvider("clarifiers")
+    );
+    expect(dealt.cards.map((card) => card.cardId)).toEqual(["fool", "magician"]);
+    expect(dealt.session.remaining).toHaveLength(8);
+    expect(() =>
+      drawClarifiersFromSession(dealt.session, 9, { mode: "none" }, createSeededProvider("x"))
+    ).toThrow("Cannot deal 9 cards");
+  });
+});
+
+describe("drawClarifiersForReading", () => {
+  const dealReading = () => {
+    const cards = getAllCards();
+    const random = createSeededProvider("for-reading");
+    const prepared = prepareSessionForReading(
+      createDeckSession(cards),
+      { cutPiles: 1, reversals: { mode: "none" } },
+      random
+    );
+    const { session, drawnCards } = drawFromSession(prepared, 3, { mode: "none" }, random, "r1");
+    const reading = buildLocalResult(
+      "r1",
+      getSpread("three_card"),
+      undefined,
+      drawnCards,
+      new Map(cards.map((card) => [card.id, card])),
+      { reversalStrategy: { mode: "none" }, deckSessionId: session.sessionId }
+    );
+    return { reading, session };
+  };
+
+  it("deals from the session that holds the reading", () => {
+    const { reading, session } = dealReading();
+    const result = drawClarifiersForReading(
+      reading,
+      0,
+      1,
+      getAllCards(),
+      createSeededProvider("x"),
+      session
+    );
+    expect(result.reading.clarifiers?.[0].cardId).toBe(session.remaining[0].cardId);
+    expect(result.session?.remaining).toHaveLength(session.remaining.length - 1);
+  });
+
+  it("draws from the full deck once the session has moved on", () => {
+    const { reading, session } = dealReading();
+    const movedOn = { ...session, readingIds: [...session.readingIds, "r2"] };
+    const result = drawClarifiersForReading(
+      reading,
+      0,
+      1,
+      getAllCards(),
+      createSeededProvider("x"),
+      movedOn
+    );
+    expect(result.session).toBe(movedOn);
+    expect(result.reading.clarifiers).toHaveLength(1);
+  });
+});
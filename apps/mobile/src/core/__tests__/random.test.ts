@@ -0,0 +1,119 @@
+import {
+  createEntropyCollector,
+  createRandomProvider,
+  createSecureProvider,
+  createSeededProvider,
+  createSeededRng,
+  generateSeed,
+  mixSeed,
+} from "../random";
+
+describe("createSeededRng", () => {
+  it("produces a fixed sequence for a fixed seed", () => {
+    const rng = createSeededRng("golden-seed");
+    expect([rng(), rng(), rng()]).toEqual([
+      0.9705607669893652, 0.7309587222989649, 0.1642627331893891,
+    ]);
+  });
+
+  it("stays within [0, 1)", () => {
+    const rng = createSeededRng("range");
+    for (let i = 0; i < 1000; i++) {
+      const value = rng();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe("createSeededProvider", () => {
+  it("produces a fixed sequence of integers for a fixed seed", () => {
+    const random = createSeededProvider("golden-seed");
+    const values = Array.from({ length: 8 }, () => random.nextInt(78));
+    expect(values).toEqual([53, 45, 9, 59, 2, 75, 5, 41]);
+    expect(random.source).toBe("seeded");
+    expect(random.seed).toBe("golden-seed");
+  });
+
+  it("gives different seeds different sequences", () => {
+    const a = createSeededProvider("seed-a");
+    const b = createSeededProvider("seed-b");
+    const take = (random: typeof a) => Array.from({ length: 10 }, () => random.nextInt(1000));
+    expect(take(a)).not.toEqual(take(b));
+  });
+
+  it("rejects invalid ranges", () => {
+    const random = createSeededProvider("range");
+    expect(() => random.nextInt(0)).toThrow("Invalid random range");
+    expect(() => random.nextInt(2.5)).toThrow("Invalid random range");
+  });
+
+  it("spreads values evenly over the range", () => {
+    const random = createSeededProvider("uniform");
+    const counts = new Array(6).fill(0);
+    for (let i = 0; i < 6000; i++) {
+      counts[random.nextInt(6)]++;
+    }
+    for (const count of counts) {
+      expect(count).toBeGreaterThan(900);
+      expect(count).toBeLessThan(1100);
+    }
+  });
+});
+
+describe("generateSeed", () => {
+  it("returns 128 bits as 32 hex characters", () => {
+    expect(generateSeed()).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateSeed()).not.toBe(generateSeed());
+  });
+});
+
+describe("mixSeed", () => {
+  it("is deterministic for the same seed and entropy", () => {
+    const seed = "00112233445566778899aabbccddeeff";
+    expect(mixSeed(seed, "1,2,3")).toBe("2ffecec838d764348eb353718b94ab5a");
+    expect(mixSeed(seed, "1,2,4")).not.toBe(mixSeed(seed, "1,2,3"));
+  });
+});
+
+describe("createSecureProvider", () => {
+  it("records a seed that replays the draw", () => {
+    for (const entropy of [null, "12.5,340.25"]) {
+      const secure = createSecureProvider(entropy);
+      const drawn = Array.from({ length: 20 }, () => secure.nextInt(78));
+      const replay = createSeededProvider(secure.seed);
+      expect(Array.from({ length: 20 }, () => replay.nextInt(78))).toEqual(drawn);
+    }
+  });
+
+  it("labels the source by whether user entropy was mixed in", () => {
+    expect(createSecureProvider().source).toBe("crypto_seeded");
+    expect(createSecureProvider("1,2").source).toBe("crypto_seeded_mixed");
+  });
+});
+
+describe("createRandomProvider", () => {
+  it("uses the seed when one is given and ignores entropy", () => {
+    const random = createRandomProvider({ seed: "golden-seed", userEntropy: "1,2" });
+    expect(random.source).toBe("seeded");
+    expect(random.nextInt(78)).toBe(53);
+  });
+
+  it("falls back to a WebCrypto seed", () => {
+    expect(createRandomProvider().source).toBe("crypto_seeded");
+  });
+});
+
+describe("createEntropyCollector", () => {
+  it("collects finite samples until reset", () => {
+    const collector = createEntropyCollector();
+    expect(collector.toEntropyString()).toBeNull();
+    collector.addSample(1.5);
+    collector.addSample(Number.NaN);
+    collector.addSample(2);
+    expect(collector.sampleCount()).toBe(2);
+    expect(collector.toEntropyString()).toBe("1.5,2");
+    collector.reset();
+    expect(collector.sampleCount()).toBe(0);
+  });
+});
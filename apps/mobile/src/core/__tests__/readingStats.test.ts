@@ -0,0 +1,39 @@
+import { chiSquareTest } from "../readingStats";
+
+describe("chiSquareTest", () => {
+  it("finds no deviation when the counts match", () => {
+    const result = chiSquareTest([50, 50], [50, 50]);
+    expect(result).not.toBeNull();
+    expect(result!.statistic).toBe(0);
+    expect(result!.degreesOfFreedom).toBe(1);
+    expect(result!.pValue).toBeCloseTo(1, 6);
+    expect(result!.reliable).toBe(true);
+  });
+
+  it("matches textbook p-values", () => {
+    // 60/40 against a fair coin: χ² = 4 on 1 degree of freedom
+    const coin = chiSquareTest([60, 40], [50, 50])!;
+    expect(coin.statistic).toBeCloseTo(4, 10);
+    expect(coin.pValue).toBeCloseTo(0.0455, 4);
+
+    // The 5% critical value on 2 degrees of freedom
+    const die = chiSquareTest([10, 20, 30], [20, 20, 20])!;
+    expect(die.statistic).toBeCloseTo(10, 10);
+    expect(die.degreesOfFreedom).toBe(2);
+    expect(die.pValue).toBeCloseTo(Math.exp(-5), 6);
+  });
+
+  it("skips categories that expect nothing", () => {
+    const result = chiSquareTest([5, 0, 5], [5, 0, 5])!;
+    expect(result.degreesOfFreedom).toBe(1);
+  });
+
+  it("flags small expected counts as unreliable", () => {
+    expect(chiSquareTest([3, 1], [2, 2])!.reliable).toBe(false);
+  });
+
+  it("returns null without enough data", () => {
+    expect(chiSquareTest([10], [10])).toBeNull();
+    expect(chiSquareTest([0, 0], [5, 5])).toBeNull();
+  });
+});
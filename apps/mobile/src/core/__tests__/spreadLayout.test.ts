@@ -0,0 +1,122 @@
+import {
+  defaultPositionLayout,
+  fitSpreadLayout,
+  resolvePositionLayouts,
+  type CardPlacement,
+} from "../spreadLayout";
+import { getAllSpreads, getSpread, initializeTarotData } from "../../data/tarot/loader";
+import type { SpreadPositionLayout, TarotSpread } from "../../types/tarot";
+
+beforeAll(async () => {
+  await initializeTarotData();
+});
+
+const PHONE = { width: 390, height: 700 };
+
+/** Axis-aligned box around a placed card, after rotation */
+function box(card: CardPlacement) {
+  const rad = (card.rotation * Math.PI) / 180;
+  const width =
+    card.width * Math.abs(Math.cos(rad)) + card.height * Math.abs(Math.sin(rad));
+  const height =
+    card.width * Math.abs(Math.sin(rad)) + card.height * Math.abs(Math.cos(rad));
+  const cx = card.x + card.width / 2;
+  const cy = card.y + card.height / 2;
+  return { left: cx - width / 2, right: cx + width / 2, top: cy - height / 2, bottom: cy + height / 2, cx, cy };
+}
+
+function overlaps(a: ReturnType<typeof box>, b: ReturnType<typeof box>): boolean {
+  const epsilon = 0.001;
+  return (
+    a.left < b.right - epsilon &&
+    b.left < a.right - epsilon &&
+    a.top < b.bottom - epsilon &&
+    b.top < a.bottom - epsilon
+  );
+}
+
+function spreadWithLayouts(layouts: SpreadPositionLayout[]): TarotSpread {
+  return {
+    id: "test_layout",
+    displayName: "Test layout",
+    cardCount: layouts.length,
+    creditCost: 1,
+    positions: layouts.map((layout, index) => ({
+      index,
+      label: `Position ${index + 1}`,
+      prompt: "",
+      layout,
+    })),
+  };
+}
+
+describe("fitSpreadLayout", () => {
+  it("fits every built-in spread without collisions, inside the width", () => {
+    for (const spread of getAllSpreads()) {
+      const layout = fitSpreadLayout(spread, PHONE, { labelHeight: 16, labelGap: 4 });
+      expect(layout.cards).toHaveLength(spread.positions.length);
+
+      const boxes = layout.cards.map(box);
+      for (const [i, a] of boxes.entries()) {
+        expect(a.left).toBeGreaterThanOrEqual(-0.001);
+        expect(a.right).toBeLessThanOrEqual(PHONE.width + 0.001);
+        for (const b of boxes.slice(i + 1)) {
+          // Cards sharing a center are crossing and may overlap
+          const crossing = Math.abs(a.cx - b.cx) < 0.5 && Math.abs(a.cy - b.cy) < 0.5;
+          if (!crossing) {
+            expect(overlaps(a, b)).toBe(false);
+          }
+        }
+      }
+    }
+  });
+
+  it("picks the largest card width that fits", () => {
+    const row = spreadWithLayouts([
+      { x: 0, y: 0.5 },
+      { x: 0.5, y: 0.5 },
+      { x: 1, y: 0.5 },
+    ]);
+    // Three cards and two gaps across 390 - 2 × 16 of usable width
+    const layout = fitSpreadLayout(row, PHONE);
+    expect(layout.cardWidth).toBe(Math.floor((PHONE.width - 32 - 24) / 3));
+    expect(layout.cardHeight).toBeCloseTo(layout.cardWidth * 1.5, 10);
+    expect(fitSpreadLayout(row, { width: 2000, height: 700 }).cardWidth).toBe(120);
+  });
+
+  it("lets a layout run taller than the bounds rather than shrink below the minimum", () => {
+    const column = spreadWithLayouts(
+      Array.from({ length: 8 }, (_, idx) => ({ x: 0.5, y: idx / 7 }))
+    );
+    const layout = fitSpreadLayout(column, { width: 390, height: 300 });
+    expect(layout.cardWidth).toBe(56);
+    expect(layout.contentHeight).toBeGreaterThan(300);
+  });
+
+  it("puts the labels of crossing cards above and below the stack", () => {
+    const cross = spreadWithLayouts([
+      { x: 0.5, y: 0.5 },
+      { x: 0.5, y: 0.5, rotation: 90, z: 1 },
+    ]);
+    const [bottom, top] = fitSpreadLayout(cross, PHONE, { labelHeight: 16, labelGap: 4 }).cards;
+    expect(bottom.label!.y + 16).toBeLessThanOrEqual(bottom.y);
+    expect(top.label!.y).toBeGreaterThanOrEqual(bottom.y + bottom.height);
+  });
+});
+
+describe("resolvePositionLayouts", () => {
+  it("fills positions without geometry from the default grid", () => {
+    const spread = getSpread("three_card");
+    const bare = {
+      ...spread,
+      positions: spread.positions.map(({ layout: _layout, ...position }) => position),
+    };
+    expect(resolvePositionLayouts(bare)).toEqual([
+      defaultPositionLayout(0, 3),
+      defaultPositionLayout(1, 3),
+      defaultPositionLayout(2, 3),
+    ]);
+    expect(defaultPositionLayout(0, 1)).toEqual({ x: 0.5, y: 0.5 });
+    expect(defaultPositionLayout(3, 4)).toEqual({ x: 1, y: 1 });
+  });
+});
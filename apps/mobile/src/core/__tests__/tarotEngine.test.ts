@@ -0,0 +1,227 @@
+import {
+  addClarifiers,
+  assignReversals,
+  buildLocalResult,
+  createReadingDraft,
+  drawCards,
+  drawClarifiers,
+  fisherYatesShuffle,
+  getCardsOnTable,
+  getSignificatorCandidates,
+  resolveClarifierReversals,
+  resolveReversalStrategy,
+} from "../tarotEngine";
+import { createSeededProvider } from "../random";
+import { getAllCards, getSpread, initializeTarotData } from "../../data/tarot/loader";
+import type { ReversalStrategy } from "../../types/tarot";
+
+beforeAll(async () => {
+  await initializeTarotData();
+});
+
+describe("drawCards", () => {
+  it("draws a fixed spread for a fixed seed", () => {
+    const drawn = drawCards(
+      getSpread("three_card"),
+      getAllCards(),
+      { mode: "independent", probability: 0.5 },
+      createSeededProvider("golden-seed")
+    );
+    expect(drawn).toEqual([
+      { cardId: "two_pentacles", isReversed: true, positionIndex: 0 },
+      { cardId: "five_swords", isReversed: true, positionIndex: 1 },
+      { cardId: "page_pentacles", isReversed: true, positionIndex: 2 },
+    ]);
+  });
+
+  it("draws a fixed half-turned Celtic Cross for a fixed seed", () => {
+    const drawn = drawCards(
+      getSpread("celtic_cross"),
+      getAllCards(),
+      { mode: "half_turned" },
+      createSeededProvider("celtic")
+    );
+    expect(drawn.map((card) => [card.cardId, card.isReversed])).toEqual([
+      ["six_swords", false],
+      ["ten_pentacles", false],
+      ["four_pentacles", false],
+      ["page_pentacles", false],
+      ["ten_wands", true],
+      ["hermit", true],
+      ["seven_pentacles", false],
+      ["two_cups", true],
+      ["magician", true],
+      ["five_swords", false],
+    ]);
+  });
+
+  it("repeats the draw for the same seed and varies it for another", () => {
+    const spread = getSpread("celtic_cross");
+    const draw = (seed: string) =>
+      drawCards(spread, getAllCards(), { mode: "balanced" }, createSeededProvider(seed));
+    expect(draw("replay")).toEqual(draw("replay"));
+    expect(draw("replay")).not.toEqual(draw("another"));
+  });
+
+  it("never draws excluded cards or the same card twice", () => {
+    const spread = getSpread("celtic_cross");
+    for (let i = 0; i < 20; i++) {
+      const ids = drawCards(
+        spread,
+        getAllCards(),
+        { mode: "none" },
+        createSeededProvider(`exclude-${i}`),
+        ["fool"]
+      ).map((card) => card.cardId);
+      expect(ids).toHaveLength(spread.cardCount);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(ids).not.toContain("fool");
+    }
+  });
+
+  it("applies the reversal strategy", () => {
+    const spread = getSpread("celtic_cross");
+    const reversed = (strategy: ReversalStrategy) =>
+      drawCards(spread, getAllCards(), strategy, createSeededProvider("strategy")).filter(
+        (card) => card.isReversed
+      ).length;
+    expect(reversed({ mode: "none" })).toBe(0);
+    expect(reversed({ mode: "balanced" })).toBe(5);
+    expect(reversed({ mode: "independent", probability: 0 })).toBe(0);
+    expect(reversed({ mode: "independent", probability: 1 })).toBe(10);
+  });
+});
+
+describe("fisherYatesShuffle", () => {
+  it("returns a permutation without touching the input", () => {
+    const input = [1, 2, 3, 4, 5, 6, 7, 8];
+    const shuffled = fisherYatesShuffle(input, createSeededProvider("shuffle"));
+    expect(input).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect([...shuffled].sort()).toEqual(input);
+  });
+});
+
+describe("assignReversals", () => {
+  it("reverses exactly half (rounded) for the balanced strategy", () => {
+    const orientations = assignReversals(
+      7,
+      { mode: "balanced" },
+      createSeededProvider("balanced")
+    );
+    expect(orientations.filter(Boolean)).toHaveLength(4);
+  });
+
+  it("leaves deck orientation to the deck for the half-turned strategy", () => {
+    expect(
+      assignReversals(3, { mode: "half_turned" }, createSeededProvider("half"))
+    ).toEqual([false, false, false]);
+  });
+});
+
+describe("resolveReversalStrategy", () => {
+  it("lets allowReversals=false override the chosen strategy", () => {
+    expect(
+      resolveReversalStrategy({ allowReversals: false, reversalStrategy: { mode: "balanced" } })
+    ).toEqual({ mode: "none" });
+  });
+
+  it("defaults to an even independent chance", () => {
+    expect(resolveReversalStrategy({ allowReversals: true })).toEqual({
+      mode: "independent",
+      probability: 0.5,
+    });
+  });
+
+  it("clamps out-of-range probabilities", () => {
+    expect(
+      resolveReversalStrategy({
+        allowReversals: true,
+        reversalStrategy: { mode: "independent", probability: 3 },
+      })
+    ).toEqual({ mode: "independent", probability: 1 });
+  });
+});
+
+describe("createReadingDraft", () => {
+  it("carries a replay seed through and leaves other drafts unseeded", () => {
+    const spread = getSpread("three_card");
+    expect(
+      createReadingDraft({ spreadId: spread.id, allowReversals: true, seed: "replay" }, spread).seed
+    ).toBe("replay");
+    expect(
+      createReadingDraft({ spreadId: spread.id, allowReversals: true }, spread).seed
+    ).toBeUndefined();
+  });
+
+  it("keeps the significator only for spreads with a significator slot", () => {
+    const input = { allowReversals: true, significatorCardId: "queen_cups" };
+    const celtic = getSpread("celtic_cross");
+    const threeCard = getSpread("three_card");
+    expect(
+      createReadingDraft({ ...input, spreadId: celtic.id }, celtic).significatorCardId
+    ).toBe("queen_cups");
+    expect(
+      createReadingDraft({ ...input, spreadId: threeCard.id }, threeCard).significatorCardId
+    ).toBeUndefined();
+  });
+
+  it("resolves the reversal strategy", () => {
+    const spread = getSpread("three_card");
+    expect(
+      createReadingDraft({ spreadId: spread.id, allowReversals: false }, spread).reversals
+    ).toEqual({ mode: "none" });
+  });
+});
+
+describe("getSignificatorCandidates", () => {
+  it("offers the sixteen court cards or the whole deck", () => {
+    const court = getSignificatorCandidates(getAllCards(), "court");
+    expect(court).toHaveLength(16);
+    expect(court.map((card) => card.id)).toContain("page_wands");
+    expect(getSignificatorCandidates(getAllCards(), "any")).toHaveLength(78);
+  });
+});
+
+describe("clarifiers", () => {
+  const threeCardReading = () => {
+    const spread = getSpread("three_card");
+    const cards = getAllCards();
+    const drawn = drawCards(spread, cards, { mode: "none" }, createSeededProvider("table"));
+    return buildLocalResult(
+      "reading-1",
+      spread,
+      undefined,
+      drawn,
+      new Map(cards.map((card) => [card.id, card])),
+      { reversalStrategy: { mode: "balanced" } }
+    );
+  };
+
+  it("only draws cards that are off the table", () => {
+    const reading = { ...threeCardReading(), significatorCardId: "queen_cups" };
+    const onTable = getCardsOnTable(reading);
+    const clarifiers = drawClarifiers(reading, 5, getAllCards(), createSeededProvider("clarify"));
+    expect(clarifiers).toHaveLength(5);
+    for (const clarifier of clarifiers) {
+      expect(onTable.has(clarifier.cardId)).toBe(false);
+    }
+  });
+
+  it("attaches clarifiers to a position without touching the reading", () => {
+    const reading = threeCardReading();
+    const updated = addClarifiers(reading, 1, [{ cardId: "fool", isReversed: true }]);
+    expect(reading.clarifiers).toBeUndefined();
+    expect(updated.clarifiers).toEqual([
+      { cardId: "fool", isReversed: true, positionIndex: 1, drawnAtIso: expect.any(String) },
+    ]);
+    expect(getCardsOnTable(updated).has("fool")).toBe(true);
+    expect(() => addClarifiers(reading, 7, [])).toThrow("Position index 7 not found");
+  });
+
+  it("gives single clarifiers an even chance under the balanced strategy", () => {
+    expect(resolveClarifierReversals(threeCardReading())).toEqual({
+      mode: "independent",
+      probability: 0.5,
+    });
+  });
+});
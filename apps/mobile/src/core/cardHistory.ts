@@ -0,0 +1,70 @@
+/**
+ * CardHistory - Where one card has turned up in the user's readings
+ * Collects every appearance of a card (drawn, as a clarifier or as the
+ * significator) with the position it held, for the deck's card detail view.
+ */
+
+import { getSpreadForReading } from "../data/tarot/loader";
+import type { CardId, ReadingResultLocal } from "../types/tarot";
+import type { CardAppearance, CardHistory } from "../types/history";
+
+function positionLabel(reading: ReadingResultLocal, positionIndex: number): string {
+  return (
+    getSpreadForReading(reading).positions[positionIndex]?.label ??
+    `Card ${positionIndex + 1}`
+  );
+}
+
+/**
+ * Every appearance of a card in the readings, in the readings' order
+ * Pass readings newest first (as the history returns them) to get the newest first.
+ */
+export function buildCardHistory(
+  readings: ReadingResultLocal[],
+  cardId: CardId
+): CardHistory {
+  const appearances: CardAppearance[] = [];
+
+  for (const reading of readings) {
+    if (reading.significatorCardId === cardId) {
+      appearances.push({
+        reading,
+        role: "significator",
+        positionLabel: "Significator",
+        isReversed: false,
+      });
+    }
+    for (const drawn of reading.drawnCards) {
+      if (drawn.cardId !== cardId) continue;
+      appearances.push({
+        reading,
+        role: "drawn",
+        positionLabel: positionLabel(reading, drawn.positionIndex),
+        isReversed: drawn.isReversed,
+      });
+    }
+    for (const clarifier of reading.clarifiers ?? []) {
+      if (clarifier.cardId !== cardId) continue;
+      appearances.push({
+        reading,
+        role: "clarifier",
+        positionLabel: positionLabel(reading, clarifier.positionIndex),
+        isReversed: clarifier.isReversed,
+      });
+    }
+  }
+
+  const reversedCount = appearances.filter((appearance) => appearance.isReversed).length;
+  const lastSeenIso = appearances.reduce<string | undefined>(
+    (latest, { reading }) =>
+      !latest || reading.createdAtIso > latest ? reading.createdAtIso : latest,
+    undefined
+  );
+
+  return {
+    appearances,
+    uprightCount: appearances.length - reversedCount,
+    reversedCount,
+    lastSeenIso,
+  };
+}
@@ -0,0 +1,417 @@
+/**
+ * DeckSession - Physical-deck simulation for the tarot engine
+ * Pure functions over an immutable DeckSession: each operation returns a new session.
+ * Shuffles model real hand shuffles (riffle, overhand) that preserve some order,
+ * so back-to-back readings feel like one deck rather than 78 fresh cards each time.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { logger } from "./logger";
+import {
+  assignReversals,
+  addClarifiers,
+  drawClarifiers,
+  resolveClarifierReversals,
+} from "./tarotEngine";
+import type { RandomProvider } from "./random";
+import type {
+  TarotCard,
+  DeckCard,
+  DeckSession,
+  DrawnCard,
+  ReversalStrategy,
+  ReadingResultLocal,
+  CardId,
+} from "../types/tarot";
+
+/**
+ * Riffle passes for a brand-new deck (seven riffles mix a 52-card deck well)
+ */
+const NEW_DECK_RIFFLES = 7;
+
+/**
+ * Riffle passes between readings of the same session
+ */
+const CONTINUING_RIFFLES = 3;
+
+/**
+ * Largest packet moved in one step of an overhand shuffle
+ */
+const OVERHAND_MAX_PACKET = 8;
+
+/**
+ * Open a new deck session with the cards in deck order, all upright
+ */
+export function createDeckSession(cards: TarotCard[]): DeckSession {
+  const session: DeckSession = {
+    sessionId: uuidv4(),
+    createdAtIso: new Date().toISOString(),
+    remaining: cards.map((card) => ({ cardId: card.id, isReversed: false })),
+    dealt: [],
+    readingIds: [],
+    setAside: [],
+  };
+
+  logger.info("deck.session.created", {
+    sessionId: session.sessionId,
+    cardCount: session.remaining.length,
+  });
+
+  return session;
+}
+
+/**
+ * Return dealt and set-aside cards to the bottom of the deck, in the order they left it
+ */
+export function gatherCards(session: DeckSession): DeckSession {
+  if (session.dealt.length === 0 && session.setAside.length === 0) {
+    return session;
+  }
+  return {
+    ...session,
+    remaining: [...session.remaining, ...session.setAside, ...session.dealt],
+    dealt: [],
+    setAside: [],
+  };
+}
+
+/**
+ * Take a card out of the deck before shuffling (the significator)
+ * It stays out of every deal until the next gather and always sits upright
+ */
+export function setCardAside(
+  session: DeckSession,
+  cardId: CardId
+): DeckSession {
+  const card = session.remaining.find((entry) => entry.cardId === cardId);
+  if (!card) {
+    throw new Error(`Card ${cardId} is not in the deck`);
+  }
+  return {
+    ...session,
+    remaining: session.remaining.filter((entry) => entry.cardId !== cardId),
+    setAside: [...session.setAside, { cardId, isReversed: false }],
+  };
+}
+
+/**
+ * Riffle shuffle (Gilbert-Shannon-Reeds model)
+ * Cuts the deck binomially and interleaves the halves, dropping from each half
+ * with probability proportional to its size; runs within each half keep their order
+ */
+export function riffleShuffle(
+  session: DeckSession,
+  random: RandomProvider
+): DeckSession {
+  const deck = session.remaining;
+  let cut = 0;
+  for (let i = 0; i < deck.length; i++) {
+    cut += random.nextInt(2);
+  }
+
+  const left = deck.slice(0, cut);
+  const right = deck.slice(cut);
+  const merged: DeckCard[] = [];
+  let l = 0;
+  let r = 0;
+  while (l < left.length || r < right.length) {
+    const leftSize = left.length - l;
+    const rightSize = right.length - r;
+    if (random.nextInt(leftSize + rightSize) < leftSize) {
+      merged.push(left[l++]);
+    } else {
+      merged.push(right[r++]);
+    }
+  }
+
+  return { ...session, remaining: merged };
+}
+
+/**
+ * Overhand shuffle
+ * Moves small packets from the top onto a new pile, reversing packet order
+ * while keeping the order inside each packet
+ */
+export function overhandShuffle(
+  session: DeckSession,
+  random: RandomProvider
+): DeckSession {
+  const deck = session.remaining;
+  let pile: DeckCard[] = [];
+  let offset = 0;
+  while (offset < deck.length) {
+    const size = 1 + random.nextInt(OVERHAND_MAX_PACKET);
+    const packet = deck.slice(offset, offset + size);
+    pile = [...packet, ...pile];
+    offset += size;
+  }
+  return { ...session, remaining: pile };
+}
+
+/**
+ * Cut the deck into piles of roughly equal size
+ * Each cut point wobbles a little around the even split, like a hand cut
+ */
+export function cutDeck(
+  session: DeckSession,
+  pileCount: number,
+  random: RandomProvider
+): DeckCard[][] {
+  const deck = session.remaining;
+  if (!Number.isInteger(pileCount) || pileCount < 1 || pileCount > deck.length) {
+    throw new Error(
+      `Cannot cut ${deck.length} cards into ${pileCount} piles`
+    );
+  }
+
+  const evenSize = deck.length / pileCount;
+  const wobble = Math.floor(evenSize / 4);
+  const cuts: number[] = [0];
+  for (let i = 1; i < pileCount; i++) {
+    const target = Math.round(evenSize * i) - wobble + random.nextInt(wobble * 2 + 1);
+    // Keep every pile non-empty
+    const min = cuts[i - 1] + 1;
+    const max = deck.length - (pileCount - i);
+    cuts.push(Math.min(max, Math.max(min, target)));
+  }
+  cuts.push(deck.length);
+
+  const piles: DeckCard[][] = [];
+  for (let i = 0; i < pileCount; i++) {
+    piles.push(deck.slice(cuts[i], cuts[i + 1]));
+  }
+  return piles;
+}
+
+/**
+ * Restack piles into the deck
+ * order lists pile indices from top to bottom; turned piles are rotated 180°,
+ * which reverses their order and flips every card's orientation
+ */
+export function restackPiles(
+  session: DeckSession,
+  piles: DeckCard[][],
+  order: number[],
+  turned: boolean[] = []
+): DeckSession {
+  const isPermutation =
+    order.length === piles.length &&
+    [...order].sort((a, b) => a - b).every((value, idx) => value === idx);
+  if (!isPermutation) {
+    throw new Error(
+      `Invalid restack order [${order.join(", ")}] for ${piles.length} piles`
+    );
+  }
+
+  const cardCount = piles.reduce((sum, pile) => sum + pile.length, 0);
+  if (cardCount !== session.remaining.length) {
+    throw new Error(
+      `Piles hold ${cardCount} cards but the deck has ${session.remaining.length}`
+    );
+  }
+
+  const remaining = order.flatMap((pileIndex) => {
+    const pile = piles[pileIndex];
+    if (!turned[pileIndex]) {
+      return pile;
+    }
+    return [...pile]
+      .reverse()
+      .map((card) => ({ ...card, isReversed: !card.isReversed }));
+  });
+
+  return { ...session, remaining };
+}
+
+/**
+ * Restack order used when the user hasn't picked one: last pile on top
+ */
+export function defaultRestackOrder(pileCount: number): number[] {
+  return Array.from({ length: pileCount }, (_, idx) => pileCount - 1 - idx);
+}
+
+/**
+ * Shuffle routine run before each reading
+ * Gathers the previous reading's cards, sets the significator aside, optionally turns half the deck,
+ * riffles (more for a fresh deck), finishes with an overhand pass,
+ * then cuts into the requested number of piles and restacks them in the user's
+ * order (pile indices top to bottom; last pile on top when none is given)
+ */
+export function prepareSessionForReading(
+  session: DeckSession,
+  options: {
+    cutPiles: number;
+    restackOrder?: number[] | null;
+    reversals: ReversalStrategy;
+    significatorCardId?: CardId;
+  },
+  random: RandomProvider
+): DeckSession {
+  let next = gatherCards(session);
+  const isFresh = next.readingIds.length === 0;
+
+  if (options.significatorCardId) {
+    next = setCardAside(next, options.significatorCardId);
+  }
+
+  if (options.reversals.mode === "half_turned") {
+    const halves = cutDeck(next, 2, random);
+    const turnedHalf = random.nextInt(2);
+    next = restackPiles(next, halves, [0, 1], [turnedHalf === 0, turnedHalf === 1]);
+  }
+
+  const riffles = isFresh ? NEW_DECK_RIFFLES : CONTINUING_RIFFLES;
+  for (let i = 0; i < riffles; i++) {
+    next = riffleShuffle(next, random);
+  }
+  next = overhandShuffle(next, random);
+
+  const restackOrder =
+    options.cutPiles > 1
+      ? options.restackOrder ?? defaultRestackOrder(options.cutPiles)
+      : null;
+  if (restackOrder) {
+    const piles = cutDeck(next, options.cutPiles, random);
+    next = restackPiles(next, piles, restackOrder);
+  }
+
+  logger.info("deck.session.prepared", {
+    sessionId: next.sessionId,
+    riffles,
+    cutPiles: options.cutPiles,
+    restackOrder,
+    remaining: next.remaining.length,
+  });
+
+  return next;
+}
+
+/**
+ * Deal cards off the top of the deck
+ * Orientation follows the deck for the half-turned strategy; otherwise the
+ * strategy decides it. Dealt cards move to the table until the next gather.
+ */
+function dealFromTop(
+  session: DeckSession,
+  count: number,
+  reversals: ReversalStrategy,
+  random: RandomProvider
+): { session: DeckSession; cards: DeckCard[] } {
+  if (count > session.remaining.length) {
+    throw new Error(
+      `Cannot deal ${count} cards, only ${session.remaining.length} remain in the deck`
+    );
+  }
+
+  const taken = session.remaining.slice(0, count);
+  const orientations =
+    reversals.mode === "half_turned"
+      ? taken.map((card) => card.isReversed)
+      : assignReversals(count, reversals, random);
+  const cards = taken.map((card, idx) => ({
+    cardId: card.cardId,
+    isReversed: orientations[idx],
+  }));
+
+  return {
+    session: {
+      ...session,
+      remaining: session.remaining.slice(count),
+      dealt: [...session.dealt, ...cards],
+    },
+    cards,
+  };
+}
+
+/**
+ * Draw a reading's cards from the session
+ * Records the reading on the session so results can reference it
+ */
+export function drawFromSession(
+  session: DeckSession,
+  cardCount: number,
+  reversals: ReversalStrategy,
+  random: RandomProvider,
+  readingId: string
+): { session: DeckSession; drawnCards: DrawnCard[] } {
+  const dealt = dealFromTop(session, cardCount, reversals, random);
+  const drawnCards = dealt.cards.map((card, idx) => ({
+    ...card,
+    positionIndex: idx,
+  }));
+
+  logger.info("deck.session.draw", {
+    sessionId: session.sessionId,
+    readingId,
+    cardCount,
+    remaining: dealt.session.remaining.length,
+  });
+
+  return {
+    session: {
+      ...dealt.session,
+      readingIds: [...dealt.session.readingIds, readingId],
+    },
+    drawnCards,
+  };
+}
+
+/**
+ * Draw clarifier cards from what remains in the deck
+ * Cards already on the table can never come up again until gathered
+ */
+export function drawClarifiersFromSession(
+  session: DeckSession,
+  count: number,
+  reversals: ReversalStrategy,
+  random: RandomProvider
+): { session: DeckSession; cards: DeckCard[] } {
+  const dealt = dealFromTop(session, count, reversals, random);
+
+  logger.info("deck.session.clarifiers", {
+    sessionId: session.sessionId,
+    count,
+    remaining: dealt.session.remaining.length,
+  });
+
+  return dealt;
+}
+
+/**
+ * Pull clarifiers for one position of a reading
+ * Deals from the deck session when the reading is the latest one dealt from it
+ * (so the table cards are already out of the deck); otherwise draws from the
+ * full deck minus the cards on the table
+ */
+export function drawClarifiersForReading(
+  reading: ReadingResultLocal,
+  positionIndex: number,
+  count: number,
+  cards: TarotCard[],
+  random: RandomProvider,
+  session: DeckSession | null
+): { reading: ReadingResultLocal; session: DeckSession | null } {
+  const sessionHoldsReading =
+    session !== null &&
+    session.sessionId === reading.deckSessionId &&
+    session.readingIds[session.readingIds.length - 1] === reading.readingId;
+
+  if (sessionHoldsReading) {
+    const dealt = drawClarifiersFromSession(
+      session,
+      count,
+      resolveClarifierReversals(reading),
+      random
+    );
+    return {
+      reading: addClarifiers(reading, positionIndex, dealt.cards),
+      session: dealt.session,
+    };
+  }
+
+  const drawn = drawClarifiers(reading, count, cards, random);
+  return {
+    reading: addClarifiers(reading, positionIndex, drawn),
+    session,
+  };
+}
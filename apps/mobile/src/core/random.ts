@@ -0,0 +1,222 @@
+/**
+ * Random - Pluggable randomness providers for the tarot engine
+ * Seeded draws can be regenerated exactly; everyday draws use a seed from WebCrypto
+ * bytes, optionally mixed with user entropy (e.g. tap timings during the shuffle),
+ * and record that seed so they can be regenerated too
+ */
+
+import type { RandomSource } from "../types/tarot";
+
+/**
+ * Random number generator returning floats in [0, 1)
+ * Same contract as Math.random so it can be passed anywhere Math.random is used
+ */
+export type Rng = () => number;
+
+/**
+ * Source of uniformly distributed unsigned 32-bit integers
+ */
+type Uint32Source = () => number;
+
+/**
+ * Randomness provider used by the shuffle
+ * Records which source produced the draw so readings can be audited
+ */
+export interface RandomProvider {
+  /** Which source backs this provider */
+  readonly source: RandomSource;
+  /** Seed that replays this provider's sequence through createSeededProvider */
+  readonly seed: string;
+  /** Uniform integer in [0, maxExclusive) */
+  nextInt(maxExclusive: number): number;
+}
+
+/**
+ * Hash a seed string into four 32-bit words (cyrb128)
+ * Spreads even short or similar seeds across the full generator state
+ */
+function hashSeed(seed: string): [number, number, number, number] {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+/**
+ * Deterministic 32-bit generator seeded from a string (sfc32)
+ * 128-bit state, passes PractRand; identical seeds always yield identical sequences
+ */
+function createSfc32(seed: string): Uint32Source {
+  let [a, b, c, d] = hashSeed(seed);
+  const next: Uint32Source = () => {
+    a >>>= 0;
+    b >>>= 0;
+    c >>>= 0;
+    d >>>= 0;
+    let t = (a + b) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    d = (d + 1) | 0;
+    t = (t + d) | 0;
+    c = (c + t) | 0;
+    return t >>> 0;
+  };
+  // Discard the first outputs so the state is fully mixed
+  for (let i = 0; i < 15; i++) {
+    next();
+  }
+  return next;
+}
+
+/**
+ * Create a deterministic RNG from a seed string
+ */
+export function createSeededRng(seed: string): Rng {
+  const next = createSfc32(seed);
+  return () => next() / 4294967296;
+}
+
+/**
+ * Uniform integer in [0, maxExclusive) via rejection sampling
+ * Discards the top partial range of 32-bit values so there is no modulo bias
+ */
+function uniformInt(next: Uint32Source, maxExclusive: number): number {
+  if (!Number.isInteger(maxExclusive) || maxExclusive <= 0 || maxExclusive > 4294967296) {
+    throw new Error(`Invalid random range: ${maxExclusive}`);
+  }
+  const limit = 4294967296 - (4294967296 % maxExclusive);
+  let value = next();
+  while (value >= limit) {
+    value = next();
+  }
+  return value % maxExclusive;
+}
+
+/**
+ * Hex string of 32-bit words, zero-padded so every seed has the same length
+ */
+function toHex(words: number[]): string {
+  return words.map((word) => (word >>> 0).toString(16).padStart(8, "0")).join("");
+}
+
+/**
+ * Generate a fresh 128-bit seed for a new reading
+ * Backed by WebCrypto getRandomValues, provided on-device by
+ * react-native-get-random-values (see polyfills.ts)
+ */
+export function generateSeed(): string {
+  const cryptoApi = (globalThis as { crypto?: { getRandomValues?: <T extends ArrayBufferView>(array: T) => T } }).crypto;
+  if (!cryptoApi?.getRandomValues) {
+    throw new Error("Secure random source unavailable: crypto.getRandomValues is not defined");
+  }
+  return toHex(Array.from(cryptoApi.getRandomValues(new Uint32Array(4))));
+}
+
+/**
+ * Mix user entropy into a seed
+ * Each word of the hashed seed is XORed with a keystream derived from the entropy;
+ * the result stays uniform as long as either input is
+ */
+export function mixSeed(seed: string, userEntropy: string): string {
+  const keystream = createSfc32(userEntropy);
+  return toHex(hashSeed(seed).map((word) => word ^ keystream()));
+}
+
+/**
+ * Seeded provider: same seed always produces the same shuffle
+ * Used for support tickets, golden tests and shared links
+ */
+export function createSeededProvider(seed: string): RandomProvider {
+  const next = createSfc32(seed);
+  return {
+    source: "seeded",
+    seed,
+    nextInt: (maxExclusive) => uniformInt(next, maxExclusive),
+  };
+}
+
+/**
+ * Provider seeded from WebCrypto random bytes
+ * When user entropy is supplied it is mixed into the seed. The seed is kept on
+ * the provider so the draw can be replayed with createSeededProvider.
+ *
+ * Trade-off: only the seed is cryptographic. Every draw comes from sfc32, which
+ * is not a cryptographic generator, and a 128-bit seed reaches at most 2^128 of
+ * the 78! (~2^385) deck orders. That is far more than any player could tell apart,
+ * but it is why readings record "crypto_seeded" rather than "secure".
+ */
+export function createSecureProvider(userEntropy?: string | null): RandomProvider {
+  const secureSeed = generateSeed();
+  const seed = userEntropy ? mixSeed(secureSeed, userEntropy) : secureSeed;
+  const next = createSfc32(seed);
+  return {
+    source: userEntropy ? "crypto_seeded_mixed" : "crypto_seeded",
+    seed,
+    nextInt: (maxExclusive) => uniformInt(next, maxExclusive),
+  };
+}
+
+/**
+ * Pick the provider for a draw
+ * A seed means a replay of that seed; otherwise seed a fresh draw from WebCrypto
+ */
+export function createRandomProvider(options: {
+  seed?: string;
+  userEntropy?: string | null;
+} = {}): RandomProvider {
+  if (options.seed) {
+    return createSeededProvider(options.seed);
+  }
+  return createSecureProvider(options.userEntropy);
+}
+
+/**
+ * Collects user entropy samples (e.g. tap timestamps during the shuffle animation)
+ */
+export interface EntropyCollector {
+  /** Record one sample, such as a high-resolution timestamp */
+  addSample(value: number): void;
+  /** Number of samples recorded so far */
+  sampleCount(): number;
+  /** Serialized samples for mixing, or null when nothing was collected */
+  toEntropyString(): string | null;
+  /** Drop all samples (e.g. before a reshuffle) */
+  reset(): void;
+}
+
+/**
+ * Create an entropy collector
+ * Samples are kept in memory only and never stored with the reading
+ */
+export function createEntropyCollector(): EntropyCollector {
+  let samples: number[] = [];
+  return {
+    addSample: (value) => {
+      if (Number.isFinite(value)) {
+        samples.push(value);
+      }
+    },
+    sampleCount: () => samples.length,
+    toEntropyString: () => (samples.length > 0 ? samples.join(",") : null),
+    reset: () => {
+      samples = [];
+    },
+  };
+}
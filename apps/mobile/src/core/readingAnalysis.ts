@@ -0,0 +1,212 @@
+/**
+ * ReadingAnalysis - Pattern analysis for a finished reading
+ * Pure functions over a ReadingResultLocal: suit and element balance, arcana ratio,
+ * repeated numbers, court cards, numerology and elemental dignities.
+ * Only the spread's own cards are analysed; clarifiers and the significator are left out.
+ */
+
+import { logger } from "./logger";
+import { isCourtCard } from "./tarotEngine";
+import type {
+  TarotCard,
+  ReadingResultLocal,
+  Suit,
+  TarotElement,
+  ElementalDignity,
+  ReadingAnalysis,
+} from "../types/tarot";
+
+/**
+ * Element of each minor suit
+ */
+export const SUIT_ELEMENTS: Record<Exclude<Suit, "major">, TarotElement> = {
+  wands: "fire",
+  cups: "water",
+  swords: "air",
+  pentacles: "earth",
+};
+
+/**
+ * Element of each Major Arcana card (Golden Dawn attributions;
+ * planets fold into the element of the sign they rule)
+ */
+const MAJOR_ARCANA_ELEMENTS: Record<string, TarotElement> = {
+  fool: "air",
+  magician: "air",
+  high_priestess: "water",
+  empress: "earth",
+  emperor: "fire",
+  hierophant: "earth",
+  lovers: "air",
+  chariot: "water",
+  strength: "fire",
+  hermit: "earth",
+  wheel_of_fortune: "fire",
+  justice: "air",
+  hanged_man: "water",
+  death: "water",
+  temperance: "fire",
+  devil: "earth",
+  tower: "fire",
+  star: "air",
+  moon: "water",
+  sun: "fire",
+  judgement: "fire",
+  world: "earth",
+};
+
+/**
+ * Highest number a numerology reduction can land on (22 stands for The Fool)
+ */
+const NUMEROLOGY_CEILING = 22;
+
+/**
+ * Element of a card, or null for a major card without an attribution
+ */
+export function getCardElement(card: TarotCard): TarotElement | null {
+  if (card.suit && card.suit !== "major") {
+    return SUIT_ELEMENTS[card.suit];
+  }
+  return MAJOR_ARCANA_ELEMENTS[card.id] ?? null;
+}
+
+/**
+ * Elemental dignity between two elements
+ * Same element strengthens; fire/air and water/earth are friendly;
+ * fire/water and air/earth weaken each other; anything else is neutral
+ */
+export function getElementalDignity(
+  a: TarotElement,
+  b: TarotElement
+): ElementalDignity {
+  if (a === b) {
+    return "strengthening";
+  }
+  const pair = [a, b].sort().join("+");
+  switch (pair) {
+    case "air+fire":
+    case "earth+water":
+      return "friendly";
+    case "fire+water":
+    case "air+earth":
+      return "weakening";
+    default:
+      return "neutral";
+  }
+}
+
+/**
+ * Reduce a number by summing its digits until it fits the Major Arcana
+ * 22 maps to The Fool (0)
+ */
+export function reduceToMajorArcana(total: number): number {
+  let value = total;
+  while (value > NUMEROLOGY_CEILING) {
+    value = String(value)
+      .split("")
+      .reduce((sum, digit) => sum + Number(digit), 0);
+  }
+  return value === NUMEROLOGY_CEILING ? 0 : value;
+}
+
+/**
+ * Analyse the patterns in a reading
+ * Courts are counted as people rather than numbers, so they are left out of
+ * repeated numbers and the numerology total
+ */
+export function analyzeReading(
+  reading: ReadingResultLocal,
+  cardIndex: Map<string, TarotCard>
+): ReadingAnalysis {
+  const placed = [...reading.drawnCards]
+    .sort((a, b) => a.positionIndex - b.positionIndex)
+    .map((drawnCard) => {
+      const card = cardIndex.get(drawnCard.cardId);
+      if (!card) {
+        throw new Error(`Card not found: ${drawnCard.cardId}`);
+      }
+      return { drawnCard, card, element: getCardElement(card) };
+    });
+
+  const suits: Record<Suit, number> = {
+    major: 0,
+    wands: 0,
+    cups: 0,
+    swords: 0,
+    pentacles: 0,
+  };
+  const elements: Record<TarotElement, number> = {
+    fire: 0,
+    water: 0,
+    air: 0,
+    earth: 0,
+  };
+  const byNumber = new Map<number, string[]>();
+  const courtCardIds: string[] = [];
+  let numerologyTotal = 0;
+
+  for (const { card, element } of placed) {
+    suits[card.suit ?? "major"] += 1;
+    if (element) {
+      elements[element] += 1;
+    }
+    if (isCourtCard(card)) {
+      courtCardIds.push(card.id);
+    } else if (card.number !== undefined) {
+      byNumber.set(card.number, [...(byNumber.get(card.number) ?? []), card.id]);
+      numerologyTotal += card.number;
+    }
+  }
+
+  const repeatedNumbers = Array.from(byNumber.entries())
+    .filter(([, cardIds]) => cardIds.length > 1)
+    .sort(([a], [b]) => a - b)
+    .map(([number, cardIds]) => ({ number, cardIds }));
+
+  const dignities = placed.slice(1).flatMap((current, idx) => {
+    const previous = placed[idx];
+    if (!previous.element || !current.element) {
+      return [];
+    }
+    return [
+      {
+        fromPositionIndex: previous.drawnCard.positionIndex,
+        toPositionIndex: current.drawnCard.positionIndex,
+        elements: [previous.element, current.element] as [
+          TarotElement,
+          TarotElement,
+        ],
+        dignity: getElementalDignity(previous.element, current.element),
+      },
+    ];
+  });
+
+  const reduced = reduceToMajorArcana(numerologyTotal);
+  const numerologyCard = Array.from(cardIndex.values()).find(
+    (card) => card.suit === "major" && card.number === reduced
+  );
+
+  const analysis: ReadingAnalysis = {
+    suits,
+    elements,
+    majorCount: suits.major,
+    minorCount: placed.length - suits.major,
+    courtCardIds,
+    repeatedNumbers,
+    numerology: {
+      total: numerologyTotal,
+      reduced,
+      cardId: numerologyCard?.id,
+    },
+    dignities,
+  };
+
+  logger.info("reading.analysis.complete", {
+    readingId: reading.readingId,
+    majorCount: analysis.majorCount,
+    courtCount: courtCardIds.length,
+    repeatedNumbers: repeatedNumbers.length,
+  });
+
+  return analysis;
+}
@@ -0,0 +1,140 @@
+/**
+ * ReadingJournal - Reflections, outcome and follow-up reminder for a reading
+ * Pure functions over a ReadingResultLocal: each operation returns a new reading
+ * with an updated journal, ready to be saved to the reading history.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { logger } from "./logger";
+import type {
+  JournalMood,
+  ReadingJournal,
+  ReadingOutcomeStatus,
+  ReadingResultLocal,
+} from "../types/tarot";
+
+/** Longest tag kept; anything longer is cut */
+const MAX_TAG_LENGTH = 30;
+
+/** Most tags kept per entry */
+const MAX_TAGS = 10;
+
+const EMPTY_JOURNAL: ReadingJournal = { entries: [] };
+
+function withJournal(
+  reading: ReadingResultLocal,
+  update: (journal: ReadingJournal) => ReadingJournal
+): ReadingResultLocal {
+  return { ...reading, journal: update(reading.journal ?? EMPTY_JOURNAL) };
+}
+
+/**
+ * Turn free-form tag input into tags
+ * Splits on commas, drops a leading "#", lowercases and removes duplicates
+ */
+export function parseJournalTags(input: string): string[] {
+  const tags = input
+    .split(",")
+    .map((tag) => tag.trim().replace(/^#+/, "").toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter((tag) => tag.length > 0);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+/**
+ * Add a journal entry to a reading
+ * Blank text is rejected so the journal never holds empty entries
+ */
+export function addJournalEntry(
+  reading: ReadingResultLocal,
+  draft: { text: string; mood?: JournalMood; tags?: string[] },
+  now: Date = new Date()
+): ReadingResultLocal {
+  const text = draft.text.trim();
+  if (!text) {
+    throw new Error("Journal entry text is empty");
+  }
+
+  const entry = {
+    id: uuidv4(),
+    createdAtIso: now.toISOString(),
+    text,
+    mood: draft.mood,
+    tags: draft.tags ?? [],
+  };
+
+  logger.info("reading.journal.entry.added", {
+    readingId: reading.readingId,
+    entryId: entry.id,
+    mood: entry.mood ?? null,
+    tagCount: entry.tags.length,
+  });
+
+  return withJournal(reading, (journal) => ({
+    ...journal,
+    entries: [...journal.entries, entry],
+  }));
+}
+
+/**
+ * Remove a journal entry by ID
+ */
+export function removeJournalEntry(
+  reading: ReadingResultLocal,
+  entryId: string
+): ReadingResultLocal {
+  return withJournal(reading, (journal) => ({
+    ...journal,
+    entries: journal.entries.filter((entry) => entry.id !== entryId),
+  }));
+}
+
+/**
+ * Record how things turned out
+ */
+export function setReadingOutcome(
+  reading: ReadingResultLocal,
+  status: ReadingOutcomeStatus,
+  note?: string,
+  now: Date = new Date()
+): ReadingResultLocal {
+  logger.info("reading.journal.outcome.set", {
+    readingId: reading.readingId,
+    status,
+  });
+  return withJournal(reading, (journal) => ({
+    ...journal,
+    outcome: {
+      status,
+      note: note?.trim() || undefined,
+      recordedAtIso: now.toISOString(),
+    },
+  }));
+}
+
+/**
+ * Set or clear the follow-up reminder date
+ */
+export function setFollowUp(
+  reading: ReadingResultLocal,
+  followUpAtIso: string | null
+): ReadingResultLocal {
+  return withJournal(reading, (journal) => ({
+    ...journal,
+    followUpAtIso: followUpAtIso ?? undefined,
+  }));
+}
+
+/**
+ * Whether a follow-up date has arrived and no outcome has been recorded yet
+ */
+export function isFollowUpDue(
+  journal: ReadingJournal | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!journal?.followUpAtIso) {
+    return false;
+  }
+  const resolved =
+    journal.outcome !== undefined && journal.outcome.status !== "pending";
+  return !resolved && journal.followUpAtIso <= now.toISOString();
+}
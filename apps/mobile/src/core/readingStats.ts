@@ -0,0 +1,362 @@
+/**
+ * ReadingStats - Personal statistics over the reading history
+ * Pure functions over stored readings: most drawn cards, suit and arcana balance
+ * month by month, reversal rate, daily streaks, never-drawn cards and chi-square
+ * checks of the observed frequencies against a fair shuffle.
+ * Only the spread's own cards count; clarifiers and the significator are left out.
+ */
+
+import { logger } from "./logger";
+import type {
+  ReadingResultLocal,
+  ReversalStrategy,
+  Suit,
+  TarotCard,
+} from "../types/tarot";
+import type {
+  CardFrequency,
+  ChiSquareResult,
+  DrawStreaks,
+  ReadingStats,
+  ReversalStats,
+  SuitFrequencyPeriod,
+} from "../types/stats";
+
+/** Months shown in the suit timeline */
+const MAX_TIMELINE_MONTHS = 12;
+
+/** Smallest expected count per category for the chi-square approximation to hold */
+const MIN_EXPECTED_COUNT = 5;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const SUITS: Suit[] = ["major", "wands", "cups", "swords", "pentacles"];
+
+function emptySuitCounts(): Record<Suit, number> {
+  return { major: 0, wands: 0, cups: 0, swords: 0, pentacles: 0 };
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Local calendar day as YYYY-MM-DD
+ */
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Local calendar month as YYYY-MM
+ */
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+}
+
+/**
+ * Whole days between two YYYY-MM-DD keys (rounded so DST shifts don't matter)
+ */
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = to.split("-").map(Number);
+  const diff = new Date(ty, tm - 1, td).getTime() - new Date(fy, fm - 1, fd).getTime();
+  return Math.round(diff / MS_PER_DAY);
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  let tmp = x + 5.5;
+  tmp -= (x + 0.5) * Math.log(tmp);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) {
+    y += 1;
+    series += coefficient / y;
+  }
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+/**
+ * Upper regularized incomplete gamma function Q(a, x)
+ * Series expansion below a + 1, continued fraction above
+ */
+function upperRegularizedGamma(a: number, x: number): number {
+  if (x <= 0) {
+    return 1;
+  }
+  const maxIterations = 500;
+  const epsilon = 1e-12;
+  const tiny = 1e-300;
+  const prefactor = Math.exp(-x + a * Math.log(x) - logGamma(a));
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < maxIterations; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * epsilon) break;
+    }
+    return Math.max(0, 1 - sum * prefactor);
+  }
+
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < maxIterations; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+  return Math.min(1, prefactor * h);
+}
+
+/**
+ * Pearson chi-square goodness-of-fit test
+ * Categories expecting nothing are skipped; returns null with fewer than two
+ * categories left or no observations
+ */
+export function chiSquareTest(
+  observed: number[],
+  expected: number[]
+): ChiSquareResult | null {
+  const pairs = observed
+    .map((count, i) => ({ count, expected: expected[i] }))
+    .filter((pair) => pair.expected > 0);
+  const total = pairs.reduce((sum, pair) => sum + pair.count, 0);
+  if (pairs.length < 2 || total === 0) {
+    return null;
+  }
+
+  const statistic = pairs.reduce(
+    (sum, pair) => sum + (pair.count - pair.expected) ** 2 / pair.expected,
+    0
+  );
+  const degreesOfFreedom = pairs.length - 1;
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue: upperRegularizedGamma(degreesOfFreedom / 2, statistic / 2),
+    reliable: pairs.every((pair) => pair.expected >= MIN_EXPECTED_COUNT),
+  };
+}
+
+/**
+ * Reversed cards a strategy produces on average over a reading of `count` cards
+ */
+function expectedReversals(strategy: ReversalStrategy, count: number): number {
+  switch (strategy.mode) {
+    case "independent":
+      return count * strategy.probability;
+    case "balanced":
+      return Math.round(count / 2);
+    case "half_turned":
+      return count / 2;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Reversal rate over readings drawn with reversals on
+ * Readings saved before the strategy was recorded are left out, since
+ * there's no telling whether reversals were allowed
+ */
+function computeReversalStats(readings: ReadingResultLocal[]): ReversalStats {
+  let reversedCount = 0;
+  let eligibleCount = 0;
+  let expectedCount = 0;
+
+  for (const reading of readings) {
+    const strategy = reading.reversalStrategy;
+    if (!strategy || strategy.mode === "none") continue;
+    eligibleCount += reading.drawnCards.length;
+    reversedCount += reading.drawnCards.filter((card) => card.isReversed).length;
+    expectedCount += expectedReversals(strategy, reading.drawnCards.length);
+  }
+
+  if (eligibleCount === 0) {
+    return {
+      reversedCount,
+      eligibleCount,
+      rate: null,
+      expectedRate: null,
+      fairness: null,
+    };
+  }
+
+  return {
+    reversedCount,
+    eligibleCount,
+    rate: reversedCount / eligibleCount,
+    expectedRate: expectedCount / eligibleCount,
+    fairness: chiSquareTest(
+      [reversedCount, eligibleCount - reversedCount],
+      [expectedCount, eligibleCount - expectedCount]
+    ),
+  };
+}
+
+/**
+ * Current and longest runs of consecutive days with a reading
+ */
+export function computeStreaks(
+  readings: ReadingResultLocal[],
+  now: Date = new Date()
+): DrawStreaks {
+  const days = Array.from(
+    new Set(readings.map((reading) => dayKey(new Date(reading.createdAtIso))))
+  ).sort();
+  if (days.length === 0) {
+    return { current: 0, longest: 0, lastDrawDate: null };
+  }
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = daysBetween(days[i - 1], days[i]) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  // `run` now holds the streak ending on the last day; it only counts if that day is recent
+  const lastDrawDate = days[days.length - 1];
+  const sinceLast = daysBetween(lastDrawDate, dayKey(now));
+  return {
+    current: sinceLast <= 1 ? run : 0,
+    longest,
+    lastDrawDate,
+  };
+}
+
+/**
+ * Suit counts for each month from the first reading up to now, capped at the latest months
+ */
+function computeSuitTimeline(
+  readings: ReadingResultLocal[],
+  cardIndex: Map<string, TarotCard>,
+  now: Date
+): SuitFrequencyPeriod[] {
+  if (readings.length === 0) {
+    return [];
+  }
+
+  const byMonth = new Map<string, SuitFrequencyPeriod>();
+  const earliest = readings.reduce(
+    (min, reading) => (reading.createdAtIso < min ? reading.createdAtIso : min),
+    readings[0].createdAtIso
+  );
+  const cursor = new Date(now.getFullYear(), now.getMonth(), 1);
+  const first = new Date(earliest);
+  const firstMonth = new Date(first.getFullYear(), first.getMonth(), 1);
+  while (cursor >= firstMonth && byMonth.size < MAX_TIMELINE_MONTHS) {
+    const month = monthKey(cursor);
+    byMonth.set(month, { month, suits: emptySuitCounts(), total: 0 });
+    cursor.setMonth(cursor.getMonth() - 1);
+  }
+
+  for (const reading of readings) {
+    const period = byMonth.get(monthKey(new Date(reading.createdAtIso)));
+    if (!period) continue;
+    for (const drawnCard of reading.drawnCards) {
+      const card = cardIndex.get(drawnCard.cardId);
+      if (!card) continue;
+      period.suits[card.suit ?? "major"] += 1;
+      period.total += 1;
+    }
+  }
+
+  return Array.from(byMonth.values()).reverse();
+}
+
+/**
+ * Compute statistics over a set of readings
+ * Expected frequencies assume every card in `cards` is equally likely to be drawn
+ */
+export function computeReadingStats(
+  readings: ReadingResultLocal[],
+  cards: TarotCard[],
+  now: Date = new Date()
+): ReadingStats {
+  const cardIndex = new Map(cards.map((card) => [card.id, card]));
+  const frequencies = new Map<string, CardFrequency>();
+  const suits = emptySuitCounts();
+  let cardCount = 0;
+
+  for (const reading of readings) {
+    for (const drawnCard of reading.drawnCards) {
+      const card = cardIndex.get(drawnCard.cardId);
+      if (!card) continue;
+      const frequency = frequencies.get(card.id) ?? {
+        cardId: card.id,
+        count: 0,
+        reversedCount: 0,
+      };
+      frequency.count += 1;
+      if (drawnCard.isReversed) {
+        frequency.reversedCount += 1;
+      }
+      frequencies.set(card.id, frequency);
+      suits[card.suit ?? "major"] += 1;
+      cardCount += 1;
+    }
+  }
+
+  const cardFrequencies = Array.from(frequencies.values()).sort(
+    (a, b) => b.count - a.count || a.cardId.localeCompare(b.cardId)
+  );
+
+  const deckSuits = emptySuitCounts();
+  for (const card of cards) {
+    deckSuits[card.suit ?? "major"] += 1;
+  }
+  const deckSize = cards.length;
+
+  const stats: ReadingStats = {
+    readingCount: readings.length,
+    cardCount,
+    cardFrequencies,
+    suits,
+    majorCount: suits.major,
+    minorCount: cardCount - suits.major,
+    suitTimeline: computeSuitTimeline(readings, cardIndex, now),
+    reversals: computeReversalStats(readings),
+    streaks: computeStreaks(readings, now),
+    neverDrawnCardIds: cards
+      .filter((card) => !frequencies.has(card.id))
+      .map((card) => card.id),
+    fairness: {
+      cards: chiSquareTest(
+        cards.map((card) => frequencies.get(card.id)?.count ?? 0),
+        cards.map(() => cardCount / deckSize)
+      ),
+      suits: chiSquareTest(
+        SUITS.map((suit) => suits[suit]),
+        SUITS.map((suit) => (cardCount * deckSuits[suit]) / deckSize)
+      ),
+    },
+  };
+
+  logger.info("reading.stats.computed", {
+    readingCount: stats.readingCount,
+    cardCount,
+    neverDrawn: stats.neverDrawnCardIds.length,
+    currentStreak: stats.streaks.current,
+  });
+
+  return stats;
+}
@@ -0,0 +1,160 @@
+/**
+ * SpacedRepetition - Review scheduling and mastery for learning mode
+ * A variant of SM-2: each successful review multiplies the card's interval by
+ * its ease, forgetting a card brings it back within minutes and lowers the ease.
+ */
+
+import { logger } from "./logger";
+import type { CardId, Suit, TarotCard } from "../types/tarot";
+import type {
+  StudyCardState,
+  StudyGrade,
+  StudyProgress,
+  SuitMastery,
+} from "../types/learning";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SUITS: Suit[] = ["major", "wands", "cups", "swords", "pentacles"];
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+/** Change to the ease for each grade */
+const EASE_DELTA: Record<StudyGrade, number> = {
+  again: -0.2,
+  hard: -0.15,
+  good: 0,
+  easy: 0.15,
+};
+
+/** A forgotten card comes back this soon */
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+/** Interval, in days, after the first and second successful reviews */
+const FIRST_INTERVAL_DAYS = 1;
+const SECOND_INTERVAL_DAYS = 3;
+
+/** Extra interval growth for "easy"; "hard" grows by this instead of the ease */
+const EASY_BONUS = 1.3;
+const HARD_FACTOR = 1.2;
+
+/** A card whose interval reaches this many days counts as fully mastered */
+export const MASTERY_INTERVAL_DAYS = 21;
+
+/**
+ * Schedule a card after a review
+ * A card without state is treated as new
+ */
+export function reviewCard(
+  state: StudyCardState | undefined,
+  cardId: CardId,
+  grade: StudyGrade,
+  now: Date = new Date()
+): StudyCardState {
+  const previous = state ?? {
+    cardId,
+    repetitions: 0,
+    intervalDays: 0,
+    ease: INITIAL_EASE,
+    lapses: 0,
+  };
+  const ease = Math.max(MIN_EASE, previous.ease + EASE_DELTA[grade]);
+
+  if (grade === "again") {
+    return {
+      cardId,
+      repetitions: 0,
+      intervalDays: 0,
+      ease,
+      lapses: previous.repetitions > 0 ? previous.lapses + 1 : previous.lapses,
+      dueAtIso: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+      lastReviewedIso: now.toISOString(),
+    };
+  }
+
+  let intervalDays: number;
+  if (previous.repetitions === 0) {
+    intervalDays = grade === "easy" ? SECOND_INTERVAL_DAYS : FIRST_INTERVAL_DAYS;
+  } else if (previous.repetitions === 1 && grade !== "hard") {
+    intervalDays = grade === "easy" ? SECOND_INTERVAL_DAYS * EASY_BONUS : SECOND_INTERVAL_DAYS;
+  } else if (grade === "hard") {
+    intervalDays = Math.max(FIRST_INTERVAL_DAYS, previous.intervalDays * HARD_FACTOR);
+  } else {
+    intervalDays = previous.intervalDays * ease * (grade === "easy" ? EASY_BONUS : 1);
+  }
+  intervalDays = Math.round(intervalDays * 10) / 10;
+
+  return {
+    cardId,
+    repetitions: previous.repetitions + 1,
+    intervalDays,
+    ease,
+    lapses: previous.lapses,
+    dueAtIso: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedIso: now.toISOString(),
+  };
+}
+
+/**
+ * Progress with one review applied
+ */
+export function applyReview(
+  progress: StudyProgress,
+  cardId: CardId,
+  grade: StudyGrade,
+  now: Date = new Date()
+): StudyProgress {
+  const next = reviewCard(progress.cards[cardId], cardId, grade, now);
+  logger.info("study.review", {
+    cardId,
+    grade,
+    intervalDays: next.intervalDays,
+  });
+  return { cards: { ...progress.cards, [cardId]: next } };
+}
+
+/**
+ * Studied cards that are due, most overdue first
+ */
+export function getDueCardIds(progress: StudyProgress, now: Date = new Date()): CardId[] {
+  const nowIso = now.toISOString();
+  return Object.values(progress.cards)
+    .filter((state) => state.dueAtIso <= nowIso)
+    .sort((a, b) => a.dueAtIso.localeCompare(b.dueAtIso))
+    .map((state) => state.cardId);
+}
+
+/**
+ * How well a single card is known, 0–1
+ */
+export function cardMastery(state: StudyCardState | undefined): number {
+  if (!state || state.repetitions === 0) {
+    return 0;
+  }
+  return Math.min(1, state.intervalDays / MASTERY_INTERVAL_DAYS);
+}
+
+/**
+ * Mastery of each suit in deck order
+ * Cards never studied count as unknown, so mastery starts at 0 and reaches 1
+ * only once every card of the suit has reached the mastery interval
+ */
+export function computeSuitMastery(
+  progress: StudyProgress,
+  cards: TarotCard[]
+): SuitMastery[] {
+  return SUITS.map((suit) => {
+    const suitCards = cards.filter((card) => (card.suit ?? "major") === suit);
+    const total = suitCards.reduce(
+      (sum, card) => sum + cardMastery(progress.cards[card.id]),
+      0
+    );
+    return {
+      suit,
+      mastery: suitCards.length > 0 ? total / suitCards.length : 0,
+      studiedCount: suitCards.filter((card) => progress.cards[card.id]).length,
+      cardCount: suitCards.length,
+    };
+  });
+}
@@ -0,0 +1,303 @@
+/**
+ * SpreadLayout - Fits a spread's layout geometry to the screen
+ * Spread positions carry normalized card centers, rotation and z-order;
+ * this engine picks the largest card size at which no two cards (or their
+ * position labels) collide, then maps the geometry into pixels.
+ * Cards that share a center are treated as crossing and may overlap.
+ */
+
+import type { SpreadPositionLayout, TarotSpread } from "../types/tarot";
+
+/**
+ * Area the layout is fitted into, in pixels
+ */
+export interface LayoutBounds {
+  width: number;
+  height: number;
+}
+
+export interface SpreadLayoutOptions {
+  /** Largest card width to try */
+  maxCardWidth: number;
+  /** Smallest card width; below this the layout grows taller than the bounds instead */
+  minCardWidth: number;
+  /** Card width divided by card height */
+  cardAspect: number;
+  /** Minimum space between neighbouring cards */
+  gap: number;
+  /** Inset from the edges of the bounds */
+  padding: number;
+  /** Height reserved for each position label; 0 lays out cards without labels */
+  labelHeight: number;
+  /** Space between a label and its card */
+  labelGap: number;
+}
+
+const DEFAULT_OPTIONS: SpreadLayoutOptions = {
+  maxCardWidth: 120,
+  minCardWidth: 56,
+  cardAspect: 2 / 3,
+  gap: 12,
+  padding: 16,
+  labelHeight: 0,
+  labelGap: 0,
+};
+
+/**
+ * Pixel frame of one card
+ * x/y is the top-left of the unrotated card; rotation turns it about its center
+ */
+export interface CardPlacement {
+  positionIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  zIndex: number;
+  /** Where the position label goes; null when the layout has no labels */
+  label: { x: number; y: number; width: number; height: number } | null;
+}
+
+export interface FittedSpreadLayout {
+  /** One placement per position, in position order */
+  cards: CardPlacement[];
+  cardWidth: number;
+  cardHeight: number;
+  /** Height needed to show every card and label; larger than the bounds when the layout must scroll */
+  contentHeight: number;
+}
+
+/**
+ * Normalized distance under which two cards count as sharing a center
+ */
+const CROSSING_EPSILON = 0.01;
+
+/**
+ * Grid placement for positions without layout geometry
+ * Rows of ceil(sqrt(count)) cards, left to right
+ */
+export function defaultPositionLayout(
+  index: number,
+  count: number
+): SpreadPositionLayout {
+  const perRow = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / perRow);
+  const column = index % perRow;
+  const row = Math.floor(index / perRow);
+  return {
+    x: perRow > 1 ? column / (perRow - 1) : 0.5,
+    y: rows > 1 ? row / (rows - 1) : 0.5,
+  };
+}
+
+/**
+ * Layout geometry of every position, filling gaps with the default grid
+ */
+export function resolvePositionLayouts(
+  spread: TarotSpread
+): SpreadPositionLayout[] {
+  return spread.positions.map(
+    (position, idx) =>
+      position.layout ?? defaultPositionLayout(idx, spread.positions.length)
+  );
+}
+
+interface NormalizedCard {
+  positionIndex: number;
+  /** Center stretched to 0–1 across the occupied range of each axis */
+  nx: number;
+  ny: number;
+  rotation: number;
+  z: number;
+  /** Crossing cards sharing this card's center, ordered by z */
+  group: number[];
+  /** Labels stacked below this card's group ahead of its own (0 = label above the card) */
+  labelsBelow: number;
+}
+
+/**
+ * Bounding box of a card turned by rotation degrees
+ */
+function rotatedSize(
+  width: number,
+  height: number,
+  rotation: number
+): { width: number; height: number } {
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  return {
+    width: width * cos + height * sin,
+    height: width * sin + height * cos,
+  };
+}
+
+function normalize(layouts: SpreadPositionLayout[]): NormalizedCard[] {
+  const xs = layouts.map((layout) => layout.x);
+  const ys = layouts.map((layout) => layout.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const rangeX = Math.max(...xs) - minX;
+  const rangeY = Math.max(...ys) - minY;
+
+  const cards = layouts.map((layout, idx) => ({
+    positionIndex: idx,
+    nx: rangeX > 0 ? (layout.x - minX) / rangeX : 0.5,
+    ny: rangeY > 0 ? (layout.y - minY) / rangeY : 0.5,
+    rotation: layout.rotation ?? 0,
+    z: layout.z ?? 0,
+    group: [] as number[],
+    labelsBelow: 0,
+  }));
+
+  for (const card of cards) {
+    card.group = cards
+      .filter(
+        (other) =>
+          Math.abs(layouts[other.positionIndex].x - layouts[card.positionIndex].x) <
+            CROSSING_EPSILON &&
+          Math.abs(layouts[other.positionIndex].y - layouts[card.positionIndex].y) <
+            CROSSING_EPSILON
+      )
+      .sort((a, b) => a.z - b.z || a.positionIndex - b.positionIndex)
+      .map((other) => other.positionIndex);
+    // The bottom card of a stack keeps its label above; the rest go below the stack
+    card.labelsBelow = card.group.indexOf(card.positionIndex);
+  }
+
+  return cards;
+}
+
+/**
+ * Place every card at a given card width
+ * Returns null when two cards in the same row would collide at this size,
+ * unless allowOverlap is set
+ */
+function placeAtWidth(
+  cards: NormalizedCard[],
+  cardWidth: number,
+  bounds: LayoutBounds,
+  options: SpreadLayoutOptions,
+  allowOverlap = false
+): FittedSpreadLayout | null {
+  const cardHeight = cardWidth / options.cardAspect;
+  const labelSpace = options.labelHeight > 0 ? options.labelHeight + options.labelGap : 0;
+  const sizes = cards.map((card) => rotatedSize(cardWidth, cardHeight, card.rotation));
+  // Vertical extent of each crossing stack, so labels below clear every card in it
+  const stackHalfHeight = cards.map((card) =>
+    Math.max(...card.group.map((idx) => sizes[idx].height / 2))
+  );
+  // Labels hanging below each stack; every stack has exactly one label above it
+  const labelsUnder = cards.map((card) => (card.group.length - 1) * labelSpace);
+
+  const widest = Math.max(...sizes.map((size) => size.width));
+  const spanX = Math.max(0, bounds.width - options.padding * 2 - widest);
+  let spanY = 0;
+
+  for (let i = 0; i < cards.length; i++) {
+    for (let j = i + 1; j < cards.length; j++) {
+      if (cards[i].group.includes(j)) continue;
+
+      const dx = Math.abs(cards[i].nx - cards[j].nx) * spanX;
+      if (dx >= (sizes[i].width + sizes[j].width) / 2 + options.gap) continue;
+
+      const dy = Math.abs(cards[i].ny - cards[j].ny);
+      if (dy === 0) {
+        if (allowOverlap) continue;
+        return null;
+      }
+
+      const [upper, lower] = cards[i].ny < cards[j].ny ? [i, j] : [j, i];
+      const required =
+        stackHalfHeight[upper] +
+        labelsUnder[upper] +
+        options.gap +
+        labelSpace +
+        stackHalfHeight[lower];
+      spanY = Math.max(spanY, required / dy);
+    }
+  }
+
+  // Lay out centers, then shift everything so the content starts at the padding
+  const centers = cards.map((card) => ({
+    x: card.nx * spanX,
+    y: card.ny * spanY,
+  }));
+  const top = Math.min(
+    ...centers.map((center, idx) => center.y - stackHalfHeight[idx] - labelSpace)
+  );
+  const bottom = Math.max(
+    ...centers.map((center, idx) => center.y + stackHalfHeight[idx] + labelsUnder[idx])
+  );
+  const left = Math.min(...centers.map((center, idx) => center.x - sizes[idx].width / 2));
+  const right = Math.max(...centers.map((center, idx) => center.x + sizes[idx].width / 2));
+
+  const contentHeight = bottom - top + options.padding * 2;
+  const offsetX = (bounds.width - (right - left)) / 2 - left;
+  const offsetY =
+    Math.max(options.padding, (bounds.height - (bottom - top)) / 2) - top;
+
+  const placements = cards.map((card, idx): CardPlacement => {
+    const cx = centers[idx].x + offsetX;
+    const cy = centers[idx].y + offsetY;
+    const labelWidth = Math.max(cardWidth, sizes[idx].width);
+    let label: CardPlacement["label"] = null;
+    if (labelSpace > 0) {
+      const labelY =
+        card.labelsBelow === 0
+          ? cy - stackHalfHeight[idx] - labelSpace
+          : cy + stackHalfHeight[idx] + options.labelGap + (card.labelsBelow - 1) * labelSpace;
+      label = {
+        x: cx - labelWidth / 2,
+        y: labelY,
+        width: labelWidth,
+        height: options.labelHeight,
+      };
+    }
+    return {
+      positionIndex: card.positionIndex,
+      x: cx - cardWidth / 2,
+      y: cy - cardHeight / 2,
+      width: cardWidth,
+      height: cardHeight,
+      rotation: card.rotation,
+      zIndex: card.z,
+      label,
+    };
+  });
+
+  return { cards: placements, cardWidth, cardHeight, contentHeight };
+}
+
+/**
+ * Fit a spread's layout to the available area
+ * Tries card widths from largest to smallest and keeps the first that fits the bounds;
+ * if none fits, uses the smallest collision-free size and lets the content run taller
+ */
+export function fitSpreadLayout(
+  spread: TarotSpread,
+  bounds: LayoutBounds,
+  overrides: Partial<SpreadLayoutOptions> = {}
+): FittedSpreadLayout {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const cards = normalize(resolvePositionLayouts(spread));
+  const maxWidth = Math.max(options.minCardWidth, options.maxCardWidth);
+
+  let fallback: FittedSpreadLayout | null = null;
+  for (let width = Math.floor(maxWidth); width >= options.minCardWidth; width--) {
+    const layout = placeAtWidth(cards, width, bounds, options);
+    if (!layout) continue;
+    if (layout.contentHeight <= bounds.height) {
+      return layout;
+    }
+    fallback = layout;
+  }
+
+  // Cards placed side by side too close to separate at any size: draw them
+  // at the smallest size and let them overlap
+  return (
+    fallback ??
+    (placeAtWidth(cards, options.minCardWidth, bounds, options, true) as FittedSpreadLayout)
+  );
+}
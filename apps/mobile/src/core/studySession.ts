@@ -0,0 +1,158 @@
+/**
+ * StudySession - Pick the cards and questions for a learning-mode session
+ * Due cards come first, then a few new ones. New cards are introduced as
+ * flashcards; cards already seen get a mix of flashcards and quizzes.
+ */
+
+import { READING_CATEGORIES, fisherYatesShuffle } from "./tarotEngine";
+import { getDueCardIds } from "./spacedRepetition";
+import { logger } from "./logger";
+import type { RandomProvider } from "./random";
+import type { Suit, TarotCard } from "../types/tarot";
+import type {
+  StudyChoice,
+  StudyProgress,
+  StudyQuestion,
+  StudyQuestionKind,
+} from "../types/learning";
+
+/** Wrong answers offered alongside the right one */
+const DISTRACTOR_COUNT = 3;
+
+export interface StudySessionOptions {
+  /** Only study cards of this suit */
+  suit?: Suit;
+  /** Most questions in the session */
+  size?: number;
+  /** Most never-studied cards introduced in the session */
+  newCardLimit?: number;
+}
+
+const DEFAULT_SESSION_SIZE = 10;
+const DEFAULT_NEW_CARD_LIMIT = 5;
+
+/**
+ * Meaning of a card in an orientation; cards without a reversed meaning only have the upright one
+ */
+function meaningFor(card: TarotCard, isReversed: boolean): string {
+  return isReversed ? card.meaningReversed ?? card.meaningUpright : card.meaningUpright;
+}
+
+/**
+ * "Which meaning fits this card?" with the card's opposite-orientation meaning
+ * always among the wrong answers, so the question turns on upright vs reversed
+ */
+export function buildOrientationQuestion(
+  card: TarotCard,
+  cards: TarotCard[],
+  random: RandomProvider
+): StudyQuestion {
+  const isReversed = card.meaningReversed ? random.nextInt(2) === 1 : false;
+  const answer = meaningFor(card, isReversed);
+  const wrong = new Set<string>();
+  if (card.meaningReversed) {
+    wrong.add(meaningFor(card, !isReversed));
+  }
+  for (const other of fisherYatesShuffle(
+    cards.filter((candidate) => candidate.id !== card.id),
+    random
+  )) {
+    if (wrong.size >= DISTRACTOR_COUNT) break;
+    const meaning = meaningFor(other, isReversed);
+    if (meaning !== answer) {
+      wrong.add(meaning);
+    }
+  }
+
+  const choices: StudyChoice[] = fisherYatesShuffle(
+    [
+      { label: answer, correct: true },
+      ...Array.from(wrong, (label) => ({ label, correct: false })),
+    ],
+    random
+  );
+  return { kind: "orientation", cardId: card.id, isReversed, choices };
+}
+
+/**
+ * "Which life area is this meaning for?"
+ */
+export function buildCategoryQuestion(
+  card: TarotCard,
+  random: RandomProvider
+): StudyQuestion {
+  const isReversed = random.nextInt(2) === 1;
+  const category = READING_CATEGORIES[random.nextInt(READING_CATEGORIES.length)];
+  const meanings = isReversed ? card.meaningsReversed : card.meaningsUpright;
+  return {
+    kind: "category",
+    cardId: card.id,
+    isReversed,
+    category,
+    meaning: meanings[category],
+  };
+}
+
+function buildQuestion(
+  kind: StudyQuestionKind,
+  card: TarotCard,
+  cards: TarotCard[],
+  random: RandomProvider
+): StudyQuestion {
+  switch (kind) {
+    case "flashcard":
+      return { kind: "flashcard", cardId: card.id };
+    case "orientation":
+      return buildOrientationQuestion(card, cards, random);
+    case "category":
+      return buildCategoryQuestion(card, random);
+  }
+}
+
+const REVIEW_KINDS: StudyQuestionKind[] = ["flashcard", "orientation", "category"];
+
+/**
+ * Questions for one session: due cards (most overdue first), then new cards in deck order
+ * Returns an empty list when nothing is due and every card has been introduced.
+ */
+export function buildStudySession(
+  progress: StudyProgress,
+  cards: TarotCard[],
+  random: RandomProvider,
+  options: StudySessionOptions = {},
+  now: Date = new Date()
+): StudyQuestion[] {
+  const size = options.size ?? DEFAULT_SESSION_SIZE;
+  const newCardLimit = options.newCardLimit ?? DEFAULT_NEW_CARD_LIMIT;
+  const pool = options.suit
+    ? cards.filter((card) => (card.suit ?? "major") === options.suit)
+    : cards;
+  const poolById = new Map(pool.map((card) => [card.id, card]));
+
+  const due = getDueCardIds(progress, now)
+    .map((cardId) => poolById.get(cardId))
+    .filter((card): card is TarotCard => card !== undefined)
+    .slice(0, size);
+  const fresh = pool
+    .filter((card) => !progress.cards[card.id])
+    .slice(0, Math.min(newCardLimit, size - due.length));
+
+  const questions = [
+    ...due.map((card) => {
+      // A card forgotten last time is relearned from its flashcard
+      const kind =
+        progress.cards[card.id].repetitions === 0
+          ? "flashcard"
+          : REVIEW_KINDS[random.nextInt(REVIEW_KINDS.length)];
+      return buildQuestion(kind, card, cards, random);
+    }),
+    ...fresh.map((card) => buildQuestion("flashcard", card, cards, random)),
+  ];
+
+  logger.info("study.session.built", {
+    suit: options.suit ?? "all",
+    due: due.length,
+    new: fresh.length,
+  });
+  return questions;
+}
@@ -5,106 +5,240 @@
 
 import { v4 as uuidv4 } from "uuid";
 import { logger } from "./logger";
+import { createRandomProvider } from "./random";
+import { findCombinations, getRankCombination } from "../data/tarot/loader";
+import type { RandomProvider } from "./random";
 import type {
   TarotCard,
   TarotSpread,
   ReadingDraftInput,
   DrawnCard,
   ReadingResultLocal,
+  RandomSource,
+  ReversalStrategy,
+  DeckCard,
+  CardId,
+  SignificatorPool,
+  DetectedCombination,
+  CreditCostRule,
+  SpreadId,
+  CardMeanings,
+  ReadingCategory,
+  NarrativeTone,
 } from "../types/tarot";
 
+/**
+ * Every reading category, in the order meanings are usually shown
+ */
+export const READING_CATEGORIES: ReadingCategory[] = [
+  "love",
+  "health",
+  "moneyCareer",
+  "spirituality",
+];
+
 /**
  * Creates a reading draft with a unique ID
  * Validates the spread exists and prepares the reading structure
+ * Carries the optional replay seed through so a seeded reading can be regenerated;
+ * other readings record the seed of the secure provider they are drawn with
+ * Resolves the reversal strategy, honoring allowReversals
  */
 export function createReadingDraft(
   input: ReadingDraftInput,
   spread: TarotSpread
-): { readingId: string; spread: TarotSpread } {
+): {
+  readingId: string;
+  spread: TarotSpread;
+  seed?: string;
+  reversals: ReversalStrategy;
+  significatorCardId?: CardId;
+  focusCategory?: ReadingCategory;
+  tone: NarrativeTone;
+} {
   logger.info("reading.draft.create", {
     readingId: "pending",
     spreadId: input.spreadId,
   });
 
   const readingId = uuidv4();
+  const seed = input.seed || undefined;
+  const reversals = resolveReversalStrategy(input);
+  // Only spreads with a significator slot set a card aside
+  const significatorCardId = spread.significator
+    ? input.significatorCardId
+    : undefined;
+  const tone = input.tone ?? DEFAULT_NARRATIVE_TONE;
 
   logger.info("reading.draft.created", {
     readingId,
     spreadId: input.spreadId,
     question: input.question || null,
+    seed,
+    reversalMode: reversals.mode,
+    significatorCardId: significatorCardId || null,
+    focusCategory: input.focusCategory || null,
+    tone,
   });
 
   return {
     readingId,
     spread,
+    seed,
+    reversals,
+    significatorCardId,
+    focusCategory: input.focusCategory,
+    tone,
   };
 }
 
 /**
  * Fisher-Yates shuffle algorithm
  * Produces a uniformly random permutation of the array
+ * Index selection is delegated to the provider, which guarantees unbiased integers
  */
-function fisherYatesShuffle<T>(array: T[], rng: () => number = Math.random): T[] {
+export function fisherYatesShuffle<T>(array: T[], random: RandomProvider): T[] {
   const shuffled = [...array]; // Create a copy to avoid mutating input
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(rng() * (i + 1));
+    const j = random.nextInt(i + 1);
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 }
 
+/**
+ * Default reversal strategy when reversals are allowed and none is chosen
+ * Each card independently has an even chance of landing reversed
+ */
+export const DEFAULT_REVERSAL_STRATEGY: ReversalStrategy = {
+  mode: "independent",
+  probability: 0.5,
+};
+
+/**
+ * Narrative voice used when none is chosen (and for readings saved before tones existed)
+ */
+export const DEFAULT_NARRATIVE_TONE: NarrativeTone = "heavenly_clean";
+
+/**
+ * Every narrative voice, default first
+ */
+export const NARRATIVE_TONE_IDS: NarrativeTone[] = [
+  "heavenly_clean",
+  "practical_coach",
+  "poetic_mystic",
+  "blunt_direct",
+  "jungian",
+  "kid_friendly",
+];
+
+/**
+ * Resolve the reversal strategy for a draft
+ * allowReversals=false always wins over any chosen strategy
+ */
+export function resolveReversalStrategy(
+  input: Pick<ReadingDraftInput, "allowReversals" | "reversalStrategy">
+): ReversalStrategy {
+  if (!input.allowReversals) {
+    return { mode: "none" };
+  }
+  const strategy = input.reversalStrategy ?? DEFAULT_REVERSAL_STRATEGY;
+  if (strategy.mode === "independent") {
+    // Clamp so a bad stored setting can't produce impossible probabilities
+    const probability = Math.min(1, Math.max(0, strategy.probability));
+    return { mode: "independent", probability };
+  }
+  return strategy;
+}
+
+/**
+ * Resolution used to turn a probability into an integer draw
+ */
+const PROBABILITY_RESOLUTION = 1_000_000;
+
+/**
+ * Decide orientations for an already-selected set of cards
+ * Used by the strategies that don't depend on deck orientation
+ */
+export function assignReversals(
+  count: number,
+  strategy: ReversalStrategy,
+  random: RandomProvider
+): boolean[] {
+  switch (strategy.mode) {
+    case "independent": {
+      const threshold = Math.round(strategy.probability * PROBABILITY_RESOLUTION);
+      return Array.from(
+        { length: count },
+        () => random.nextInt(PROBABILITY_RESOLUTION) < threshold
+      );
+    }
+    case "balanced": {
+      // Exactly half reversed (rounded), shuffled across positions to avoid clustering
+      const reversedCount = Math.round(count / 2);
+      const reversalStates = Array.from(
+        { length: count },
+        (_, i) => i < reversedCount
+      );
+      return fisherYatesShuffle(reversalStates, random);
+    }
+    default:
+      return Array.from({ length: count }, () => false);
+  }
+}
+
 /**
  * Draws cards from the deck for a reading
  * Uses Fisher-Yates shuffle to ensure random selection
- * Optionally applies reversals based on allowReversals flag
+ * Applies reversals according to the given strategy
+ * Randomness comes from the given provider (a fresh WebCrypto seed by default);
+ * the same seed, spread and deck always produce the same draw
+ * Excluded cards (the significator) are taken out of the deck before shuffling
  */
 export function drawCards(
   spread: TarotSpread,
   cards: TarotCard[],
-  allowReversals: boolean
+  reversals: ReversalStrategy,
+  random: RandomProvider = createRandomProvider(),
+  excludedCardIds: CardId[] = []
 ): DrawnCard[] {
   logger.info("reading.draw.start", {
     spreadId: spread.id,
     cardCount: spread.cardCount,
-    allowReversals,
+    reversalMode: reversals.mode,
+    randomSource: random.source,
+    excludedCount: excludedCardIds.length,
   });
 
-  // Get all card IDs
-  const deckIds = cards.map((card) => card.id);
+  // Deck of cards with their physical orientation before the shuffle
+  let deck = cards
+    .filter((card) => !excludedCardIds.includes(card.id))
+    .map((card) => ({ cardId: card.id, isReversed: false }));
+
+  if (reversals.mode === "half_turned") {
+    // Split the deck near the middle and turn one pile around, as a reader would
+    // when shuffling; orientation then travels with each card through the shuffle
+    const wobble = Math.max(1, Math.floor(deck.length / 10));
+    const cut = Math.floor(deck.length / 2) - wobble + random.nextInt(wobble * 2 + 1);
+    deck = deck.map((entry, idx) => ({ ...entry, isReversed: idx < cut }));
+  }
 
   // Shuffle the deck
-  const shuffled = fisherYatesShuffle(deckIds);
+  const shuffled = fisherYatesShuffle(deck, random);
 
   // Select the first N cards for the spread
-  const selectedIds = shuffled.slice(0, spread.cardCount);
-
-  // Build DrawnCard objects with optional reversals
-  // To prevent clustering of reversed cards, shuffle reversal states separately
-  // This ensures better distribution of reversed vs upright cards
-  let drawnCards: DrawnCard[];
-  if (allowReversals) {
-    // Create an array of reversal states with roughly 50% reversed
-    // Use a balanced approach: for even counts, split 50/50; for odd, round up/down
-    const reversedCount = Math.round(spread.cardCount / 2);
-    const reversalStates = Array.from(
-      { length: spread.cardCount },
-      (_, i) => i < reversedCount
-    );
-    // Shuffle the reversal states to distribute them randomly across cards
-    const shuffledReversals = fisherYatesShuffle(reversalStates);
-    
-    drawnCards = selectedIds.map((cardId, idx) => ({
-      cardId,
-      isReversed: shuffledReversals[idx],
-      positionIndex: idx,
-    }));
-  } else {
-    drawnCards = selectedIds.map((cardId, idx) => ({
-      cardId,
-      isReversed: false,
-      positionIndex: idx,
-    }));
-  }
+  const selected = shuffled.slice(0, spread.cardCount);
+
+  const orientations =
+    reversals.mode === "half_turned"
+      ? selected.map((entry) => entry.isReversed)
+      : assignReversals(selected.length, reversals, random);
+
+  const drawnCards: DrawnCard[] = selected.map((entry, idx) => ({
+    cardId: entry.cardId,
+    isReversed: orientations[idx],
+    positionIndex: idx,
+  }));
 
   logger.info("reading.draw.complete", {
     spreadId: spread.id,
@@ -115,6 +249,15 @@ export function drawCards(
   return drawnCards;
 }
 
+/**
+ * Categories in display order: the focus category first, then the rest as usual
+ */
+export function categoryOrder(focusCategory?: ReadingCategory): ReadingCategory[] {
+  return focusCategory
+    ? [focusCategory, ...READING_CATEGORIES.filter((category) => category !== focusCategory)]
+    : READING_CATEGORIES;
+}
+
 /**
  * Builds the per-card text for a reading
  * Combines card meaning with position label
@@ -122,13 +265,14 @@ export function drawCards(
 function buildPerCardText(
   drawnCard: DrawnCard,
   spread: TarotSpread,
-  card: TarotCard
+  card: TarotCard,
+  focusCategory?: ReadingCategory
 ): {
   cardId: string;
   title: string;
   meaning: string;
   description: string;
-  categoryMeanings: import("../types/tarot").CardMeanings;
+  categoryMeanings: CardMeanings;
 } {
   const position = spread.positions[drawnCard.positionIndex];
   if (!position) {
@@ -148,10 +292,14 @@ function buildPerCardText(
     ? card.descriptionReversed || card.description
     : card.description;
 
-  // Select category meanings based on reversal
-  const categoryMeanings = drawnCard.isReversed
+  // Select category meanings based on reversal, focus category first
+  const meanings = drawnCard.isReversed
     ? card.meaningsReversed
     : card.meaningsUpright;
+  const categoryMeanings = {} as CardMeanings;
+  for (const category of categoryOrder(focusCategory)) {
+    categoryMeanings[category] = meanings[category];
+  }
 
   // Build title: "Card Name — Position Label"
   const title = `${card.name}${drawnCard.isReversed ? " (Reversed)" : ""} — ${position.label}`;
@@ -165,16 +313,88 @@ function buildPerCardText(
   };
 }
 
+/**
+ * Detect notable combinations among the drawn cards
+ * Pairs already covered by a detected triad are dropped; repeated Minor Arcana
+ * ranks are matched against the rank meanings in combinations.json
+ */
+export function detectCombinations(
+  drawnCards: DrawnCard[],
+  cardIndex: Map<string, TarotCard>
+): DetectedCombination[] {
+  const ordered = [...drawnCards].sort(
+    (a, b) => a.positionIndex - b.positionIndex
+  );
+  const cardIds = ordered.map((card) => card.cardId);
+  const nameOf = (cardId: CardId) => cardIndex.get(cardId)?.name ?? cardId;
+  const inDrawOrder = (ids: CardId[]) =>
+    [...ids].sort((a, b) => cardIds.indexOf(a) - cardIds.indexOf(b));
+
+  const matches = findCombinations(cardIds);
+  const triads = matches.filter((match) => match.cardIds.length === 3);
+  const pairs = matches.filter(
+    (match) =>
+      match.cardIds.length === 2 &&
+      !triads.some((triad) =>
+        match.cardIds.every((cardId) => triad.cardIds.includes(cardId))
+      )
+  );
+
+  const detected: DetectedCombination[] = [...triads, ...pairs].map(
+    (match) => {
+      const ids = inDrawOrder(match.cardIds);
+      return {
+        kind: ids.length === 3 ? "triad" : "pair",
+        cardIds: ids,
+        title: ids.map(nameOf).join(" + "),
+        meaning: match.meaning,
+      };
+    }
+  );
+
+  const byRank = new Map<number, CardId[]>();
+  for (const cardId of cardIds) {
+    const card = cardIndex.get(cardId);
+    if (card?.suit && card.suit !== "major" && card.number !== undefined) {
+      byRank.set(card.number, [...(byRank.get(card.number) ?? []), cardId]);
+    }
+  }
+  for (const [rank, ids] of byRank) {
+    const entry = ids.length > 1 ? getRankCombination(rank, ids.length) : undefined;
+    if (entry) {
+      detected.push({
+        kind: "rank",
+        cardIds: ids,
+        title: entry.title,
+        meaning: entry.meaning,
+      });
+    }
+  }
+
+  return detected;
+}
+
 /**
  * Builds a complete ReadingResultLocal from draft and drawn cards
- * Computes all per-card text and prepares structure for AI narrative
+ * Computes all per-card text and notable combinations, and prepares structure for AI narrative
+ * Records how the cards were drawn (seed, randomness source, reversal strategy) for regeneration and audit
+ * With a focus category, each card's meaning for that category is listed first
  */
 export function buildLocalResult(
   readingId: string,
   spread: TarotSpread,
   question: string | undefined,
   drawnCards: DrawnCard[],
-  cardIndex: Map<string, TarotCard>
+  cardIndex: Map<string, TarotCard>,
+  draw: {
+    seed?: string;
+    randomSource?: RandomSource;
+    reversalStrategy?: ReversalStrategy;
+    deckSessionId?: string;
+    significatorCardId?: CardId;
+    focusCategory?: ReadingCategory;
+    tone?: NarrativeTone;
+  } = {}
 ): ReadingResultLocal {
   logger.info("reading.result.build.start", { readingId });
 
@@ -184,16 +404,26 @@ export function buildLocalResult(
     if (!card) {
       throw new Error(`Card not found: ${drawnCard.cardId}`);
     }
-    return buildPerCardText(drawnCard, spread, card);
+    return buildPerCardText(drawnCard, spread, card, draw.focusCategory);
   });
 
+  const combinations = detectCombinations(drawnCards, cardIndex);
+
   const result: ReadingResultLocal = {
     readingId,
     createdAtIso: new Date().toISOString(),
     spreadId: spread.id,
     question,
+    seed: draw.seed,
+    randomSource: draw.randomSource,
+    reversalStrategy: draw.reversalStrategy,
+    deckSessionId: draw.deckSessionId,
+    significatorCardId: draw.significatorCardId,
+    focusCategory: draw.focusCategory,
+    tone: draw.tone,
     drawnCards,
     perCardText,
+    combinations,
     // aiNarrative will be filled after backend call
     aiNarrative: undefined,
   };
@@ -201,8 +431,165 @@ export function buildLocalResult(
   logger.info("reading.result.build.complete", {
     readingId,
     cardCount: perCardText.length,
+    combinationCount: combinations.length,
   });
 
   return result;
 }
 
+
+/**
+ * Credit cost of each clarifier card pulled on a revealed reading
+ */
+export const CLARIFIER_CREDIT_COST = 1;
+
+/**
+ * Reversal strategy for clarifier pulls
+ * Clarifiers come one at a time, so the balanced split falls back to an even chance per card
+ */
+export function resolveClarifierReversals(
+  reading: ReadingResultLocal
+): ReversalStrategy {
+  const strategy = reading.reversalStrategy ?? DEFAULT_REVERSAL_STRATEGY;
+  if (strategy.mode === "balanced") {
+    return { mode: "independent", probability: 0.5 };
+  }
+  return strategy;
+}
+
+/**
+ * Card IDs already out of the deck for a reading (significator, spread cards and clarifiers)
+ */
+export function getCardsOnTable(reading: ReadingResultLocal): Set<CardId> {
+  return new Set([
+    ...(reading.significatorCardId ? [reading.significatorCardId] : []),
+    ...reading.drawnCards.map((card) => card.cardId),
+    ...(reading.clarifiers ?? []).map((card) => card.cardId),
+  ]);
+}
+
+/**
+ * Draws clarifier cards for a reading without a deck session
+ * Picks from the full deck minus every card already on the table
+ */
+export function drawClarifiers(
+  reading: ReadingResultLocal,
+  count: number,
+  cards: TarotCard[],
+  random: RandomProvider = createRandomProvider()
+): DeckCard[] {
+  const onTable = getCardsOnTable(reading);
+  const available = cards
+    .map((card) => card.id)
+    .filter((cardId) => !onTable.has(cardId));
+  if (count > available.length) {
+    throw new Error(
+      `Cannot draw ${count} clarifiers, only ${available.length} cards are off the table`
+    );
+  }
+
+  const selected = fisherYatesShuffle(available, random).slice(0, count);
+
+  // Without a physical deck there is no orientation to inherit
+  const strategy = resolveClarifierReversals(reading);
+  const reversals: ReversalStrategy =
+    strategy.mode === "half_turned"
+      ? { mode: "independent", probability: 0.5 }
+      : strategy;
+  const orientations = assignReversals(count, reversals, random);
+
+  return selected.map((cardId, idx) => ({
+    cardId,
+    isReversed: orientations[idx],
+  }));
+}
+
+/**
+ * Attach clarifier cards to a reading position
+ * Returns a new reading; the original is left untouched
+ */
+export function addClarifiers(
+  reading: ReadingResultLocal,
+  positionIndex: number,
+  cards: DeckCard[]
+): ReadingResultLocal {
+  if (!reading.drawnCards.some((card) => card.positionIndex === positionIndex)) {
+    throw new Error(
+      `Position index ${positionIndex} not found in reading ${reading.readingId}`
+    );
+  }
+
+  const drawnAtIso = new Date().toISOString();
+  const clarifiers = cards.map((card) => ({
+    cardId: card.cardId,
+    isReversed: card.isReversed,
+    positionIndex,
+    drawnAtIso,
+  }));
+
+  logger.info("reading.clarifiers.added", {
+    readingId: reading.readingId,
+    positionIndex,
+    count: clarifiers.length,
+  });
+
+  return {
+    ...reading,
+    clarifiers: [...(reading.clarifiers ?? []), ...clarifiers],
+  };
+}
+
+/**
+ * Whether a card is a court card (Page, Knight, Queen or King of a minor suit)
+ */
+export function isCourtCard(card: TarotCard): boolean {
+  return (
+    card.suit !== undefined &&
+    card.suit !== "major" &&
+    card.number !== undefined &&
+    card.number >= 11
+  );
+}
+
+/**
+ * Cards offered when picking a significator from the given pool
+ */
+export function getSignificatorCandidates(
+  cards: TarotCard[],
+  pool: SignificatorPool
+): TarotCard[] {
+  return pool === "court" ? cards.filter(isCourtCard) : cards;
+}
+
+/**
+ * Prefix of user-designed spread IDs (built-in IDs never start with it)
+ */
+export const CUSTOM_SPREAD_ID_PREFIX = "custom_";
+
+/**
+ * New unique ID for a user-designed spread
+ */
+export function createCustomSpreadId(): SpreadId {
+  return `${CUSTOM_SPREAD_ID_PREFIX}${uuidv4()}`;
+}
+
+/**
+ * Whether a spread ID belongs to a user-designed spread
+ */
+export function isCustomSpreadId(spreadId: SpreadId): boolean {
+  return spreadId.startsWith(CUSTOM_SPREAD_ID_PREFIX);
+}
+
+/**
+ * Credit cost of a custom spread under its rule
+ * Tiered matches the built-in pricing (1, 2 and 5 credits for 1, 3 and 10 cards)
+ */
+export function creditCostForRule(
+  rule: CreditCostRule,
+  cardCount: number
+): number {
+  if (rule === "per_card") {
+    return Math.max(1, cardCount);
+  }
+  return Math.max(1, Math.ceil(cardCount / 2));
+}
@@ -0,0 +1,38 @@
+import {
+  DELETED_SPREAD_NAME,
+  getSpread,
+  getSpreadForReading,
+  initializeTarotData,
+} from "../loader";
+
+beforeAll(async () => {
+  await initializeTarotData();
+});
+
+describe("getSpreadForReading", () => {
+  it("returns the spread the reading was drawn with", () => {
+    expect(getSpreadForReading({ spreadId: "three_card" })).toBe(getSpread("three_card"));
+  });
+
+  it("falls back to a plain grid when the spread is gone", () => {
+    const spread = getSpreadForReading({
+      spreadId: "custom_deleted",
+      drawnCards: [
+        { cardId: "fool", isReversed: false, positionIndex: 0 },
+        { cardId: "magician", isReversed: true, positionIndex: 1 },
+      ],
+    });
+    expect(spread.displayName).toBe(DELETED_SPREAD_NAME);
+    expect(spread.positions.map((position) => position.label)).toEqual(["Card 1", "Card 2"]);
+    expect(spread.significator).toBeUndefined();
+  });
+
+  it("keeps a significator slot when the reading had one", () => {
+    const spread = getSpreadForReading({
+      spreadId: "custom_deleted",
+      drawnCards: [],
+      significatorCardId: "queen_cups",
+    });
+    expect(spread.significator?.label).toBe("Significator");
+  });
+});
@@ -1,12 +1,18 @@
 /**
  * Tarot data loader with runtime validation
- * Loads and validates cards.json and spreads.json using Zod schemas
+ * Loads and validates cards.json, spreads.json and combinations.json using Zod schemas
  * Fails fast with clear error messages if data is invalid
  */
 
 import { z } from "zod";
 import { logger } from "../../core/logger";
-import type { TarotCard, TarotSpread } from "../../types/tarot";
+import type {
+  TarotCard,
+  TarotSpread,
+  CardCombination,
+  RankCombination,
+  ReadingResultLocal,
+} from "../../types/tarot";
 
 /**
  * Zod schema for validating CardMeanings
@@ -41,20 +47,80 @@ const TarotCardSchema = z.object({
  */
 const SpreadPositionSchema = z.object({
   index: z.number(),
+  label: z.string().min(1),
+  prompt: z.string(),
+  layout: z
+    .object({
+      x: z.number().min(0).max(1),
+      y: z.number().min(0).max(1),
+      rotation: z.number().min(-360).max(360).optional(),
+      z: z.number().int().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Zod schema for validating SpreadSignificator
+ */
+const SpreadSignificatorSchema = z.object({
   label: z.string(),
   prompt: z.string(),
+  cardPool: z.enum(["court", "any"]),
 });
 
 /**
  * Zod schema for validating TarotSpread
+ * Shared by spreads.json and user-designed spreads; positions must be indexed 0..cardCount-1
  */
-const TarotSpreadSchema = z.object({
-  id: z.enum(["one_card", "three_card", "celtic_cross"]),
-  displayName: z.string(),
-  description: z.string().optional(),
-  cardCount: z.number(),
-  creditCost: z.number(),
-  positions: z.array(SpreadPositionSchema),
+export const TarotSpreadSchema = z
+  .object({
+    id: z.string().min(1),
+    displayName: z.string().min(1),
+    description: z.string().optional(),
+    cardCount: z.number().int().min(1),
+    creditCost: z.number().int().min(1),
+    positions: z.array(SpreadPositionSchema),
+    significator: SpreadSignificatorSchema.optional(),
+    creditCostRule: z.enum(["tiered", "per_card"]).optional(),
+  })
+  .superRefine((spread, ctx) => {
+    if (spread.positions.length !== spread.cardCount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["positions"],
+        message: `Spread has ${spread.positions.length} positions but cardCount is ${spread.cardCount}`,
+      });
+    }
+    spread.positions.forEach((position, idx) => {
+      if (position.index !== idx) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["positions", idx, "index"],
+          message: `Position ${idx} has index ${position.index}`,
+        });
+      }
+    });
+  });
+
+/**
+ * Zod schema for validating combinations.json
+ */
+const CombinationsSchema = z.object({
+  combinations: z.array(
+    z.object({
+      id: z.string(),
+      cardIds: z.array(z.string()).min(2).max(3),
+      meaning: z.string(),
+    })
+  ),
+  repeatedRanks: z.array(
+    z.object({
+      rank: z.number().int().min(1).max(14),
+      count: z.number().int().min(2).max(4),
+      title: z.string(),
+      meaning: z.string(),
+    })
+  ),
 });
 
 /**
@@ -62,6 +128,11 @@ const TarotSpreadSchema = z.object({
  */
 let cardsMap: Map<string, TarotCard> | null = null;
 let spreadsMap: Map<string, TarotSpread> | null = null;
+let customSpreadsMap: Map<string, TarotSpread> = new Map();
+let combinationsData: {
+  combinations: CardCombination[];
+  repeatedRanks: RankCombination[];
+} | null = null;
 
 /**
  * Load and validate cards.json
@@ -147,12 +218,61 @@ export async function loadSpreads(): Promise<Map<string, TarotSpread>> {
   }
 }
 
+/**
+ * Load and validate combinations.json
+ * Every referenced card must exist in cards.json
+ */
+export async function loadCombinations(): Promise<{
+  combinations: CardCombination[];
+  repeatedRanks: RankCombination[];
+}> {
+  if (combinationsData) {
+    return combinationsData;
+  }
+
+  logger.info("tarot.data.load.start", { type: "combinations" });
+
+  try {
+    const cards = await loadCards();
+    const rawData = require("./combinations.json");
+
+    const validated = CombinationsSchema.parse(rawData);
+    for (const combination of validated.combinations) {
+      const unknown = combination.cardIds.filter((cardId) => !cards.has(cardId));
+      if (unknown.length > 0) {
+        throw new Error(
+          `Combination ${combination.id} references unknown cards: ${unknown.join(", ")}`
+        );
+      }
+    }
+
+    combinationsData = validated;
+
+    logger.info("tarot.data.load.success", {
+      type: "combinations",
+      count: validated.combinations.length,
+      rankCount: validated.repeatedRanks.length,
+    });
+
+    return combinationsData;
+  } catch (error) {
+    logger.error("tarot.data.load.failed", {
+      type: "combinations",
+      error: error instanceof Error ? error.message : String(error),
+      details: error instanceof z.ZodError ? error.errors : undefined,
+    });
+    throw new Error(
+      `Failed to load combinations: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
 /**
  * Initialize all tarot data
  * Call this at app startup to preload and validate all data
  */
 export async function initializeTarotData(): Promise<void> {
-  await Promise.all([loadCards(), loadSpreads()]);
+  await Promise.all([loadCards(), loadSpreads(), loadCombinations()]);
 }
 
 /**
@@ -178,13 +298,62 @@ export function getSpread(spreadId: string): TarotSpread {
   if (!spreadsMap) {
     throw new Error("Spreads not loaded. Call loadSpreads() first.");
   }
-  const spread = spreadsMap.get(spreadId);
+  const spread = spreadsMap.get(spreadId) ?? customSpreadsMap.get(spreadId);
   if (!spread) {
     throw new Error(`Spread not found: ${spreadId}`);
   }
   return spread;
 }
 
+/**
+ * Name shown for a reading whose spread no longer exists
+ */
+export const DELETED_SPREAD_NAME = "Deleted spread";
+
+/**
+ * Get the spread a reading was drawn with
+ * A custom spread may have been deleted since, or left out of a restored backup;
+ * the reading then gets a plain grid named DELETED_SPREAD_NAME with one
+ * "Card n" position per drawn card, so it can still be shown and exported
+ */
+export function getSpreadForReading(
+  reading: Pick<ReadingResultLocal, "spreadId"> &
+    Partial<Pick<ReadingResultLocal, "drawnCards" | "significatorCardId">>
+): TarotSpread {
+  if (!spreadsMap) {
+    throw new Error("Spreads not loaded. Call loadSpreads() first.");
+  }
+  const spread =
+    spreadsMap.get(reading.spreadId) ?? customSpreadsMap.get(reading.spreadId);
+  if (spread) {
+    return spread;
+  }
+
+  const drawnCards = reading.drawnCards ?? [];
+  const count = drawnCards.reduce(
+    (max, card) => Math.max(max, card.positionIndex + 1),
+    0
+  );
+  return {
+    id: reading.spreadId,
+    displayName: DELETED_SPREAD_NAME,
+    cardCount: count,
+    creditCost: 0,
+    positions: Array.from({ length: count }, (_, index) => ({
+      index,
+      label: `Card ${index + 1}`,
+      prompt: "",
+    })),
+    significator: reading.significatorCardId
+      ? {
+          label: "Significator",
+          prompt: "This card was chosen to represent the querent.",
+          cardPool: "any",
+        }
+      : undefined,
+  };
+}
+
 /**
  * Get all cards as an array
  */
@@ -196,12 +365,54 @@ export function getAllCards(): TarotCard[] {
 }
 
 /**
- * Get all spreads as an array
+ * Get all spreads as an array (built-in first, then user-designed)
  */
 export function getAllSpreads(): TarotSpread[] {
   if (!spreadsMap) {
     throw new Error("Spreads not loaded. Call loadSpreads() first.");
   }
-  return Array.from(spreadsMap.values());
+  return [
+    ...Array.from(spreadsMap.values()),
+    ...Array.from(customSpreadsMap.values()),
+  ];
+}
+
+/**
+ * Replace the user-designed spreads known to the loader
+ * Called by the custom spread store after hydrating or saving
+ */
+export function registerCustomSpreads(spreads: TarotSpread[]): void {
+  customSpreadsMap = new Map(spreads.map((spread) => [spread.id, spread]));
+  logger.info("tarot.data.custom_spreads.registered", {
+    count: customSpreadsMap.size,
+  });
+}
+
+/**
+ * Get every pair and triad whose cards are all among the given cards
+ */
+export function findCombinations(cardIds: string[]): CardCombination[] {
+  if (!combinationsData) {
+    throw new Error("Combinations not loaded. Call loadCombinations() first.");
+  }
+  const present = new Set(cardIds);
+  return combinationsData.combinations.filter((combination) =>
+    combination.cardIds.every((cardId) => present.has(cardId))
+  );
 }
 
+/**
+ * Get the meaning for a rank repeated count times
+ * Uses the entry with the highest count that the repetition reaches
+ */
+export function getRankCombination(
+  rank: number,
+  count: number
+): RankCombination | undefined {
+  if (!combinationsData) {
+    throw new Error("Combinations not loaded. Call loadCombinations() first.");
+  }
+  return combinationsData.repeatedRanks
+    .filter((entry) => entry.rank === rank && entry.count <= count)
+    .sort((a, b) => b.count - a.count)[0];
+}
@@ -0,0 +1,114 @@
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+import { parseBackup } from "../backupService";
+import { READING_EXPORT_VERSION } from "../exportService";
+import { initializeTarotData } from "../../data/tarot/loader";
+import { InvalidBackupError } from "../../types/export";
+
+beforeAll(async () => {
+  await initializeTarotData();
+});
+
+const meanings = { love: "", health: "", moneyCareer: "", spirituality: "" };
+
+function reading(readingId: string, cardId = "fool") {
+  return {
+    readingId,
+    createdAtIso: "2026-01-02T03:04:05.000Z",
+    spreadId: "one_card",
+    seed: "golden-seed",
+    drawnCards: [{ cardId, isReversed: false, positionIndex: 0 }],
+    perCardText: [
+      { cardId, title: "", meaning: "", description: "", categoryMeanings: meanings },
+    ],
+  };
+}
+
+function backup(document: Record<string, unknown>): string {
+  return JSON.stringify({
+    kind: "tarot-readings",
+    exportedAtIso: "2026-01-02T03:04:05.000Z",
+    ...document,
+  });
+}
+
+describe("parseBackup", () => {
+  it("migrates a version 1 export to the current version", () => {
+    const { document, invalid } = parseBackup(
+      backup({ version: 1, readings: [reading("r1")] })
+    );
+    expect(invalid).toBe(0);
+    expect(document.version).toBe(READING_EXPORT_VERSION);
+    expect(document.readings.map((entry) => entry.readingId)).toEqual(["r1"]);
+    expect(document.settings).toBeUndefined();
+  });
+
+  it("drops readings that fail validation or reference unknown cards", () => {
+    const { document, invalid } = parseBackup(
+      backup({
+        version: READING_EXPORT_VERSION,
+        readings: [reading("good"), reading("unknown", "no_such_card"), { readingId: "broken" }],
+      })
+    );
+    expect(document.readings.map((entry) => entry.readingId)).toEqual(["good"]);
+    expect(invalid).toBe(2);
+  });
+
+  it("rejects tones and focus categories the app doesn't offer", () => {
+    const { document, invalid } = parseBackup(
+      backup({
+        version: READING_EXPORT_VERSION,
+        readings: [
+          { ...reading("toned"), tone: "jungian", focusCategory: "love" },
+          { ...reading("bad-tone"), tone: "sarcastic" },
+          { ...reading("bad-focus"), focusCategory: "weather" },
+        ],
+      })
+    );
+    expect(document.readings.map((entry) => entry.readingId)).toEqual(["toned"]);
+    expect(invalid).toBe(2);
+  });
+
+  it("keeps and counts readings whose spread is no longer known", () => {
+    const { document, invalid, unknownSpreads } = parseBackup(
+      backup({
+        version: READING_EXPORT_VERSION,
+        readings: [reading("known"), { ...reading("orphan"), spreadId: "custom_gone" }],
+      })
+    );
+    expect(document.readings.map((entry) => entry.readingId)).toEqual(["known", "orphan"]);
+    expect(invalid).toBe(0);
+    expect(unknownSpreads).toBe(1);
+  });
+
+  it("keeps valid settings and drops invalid custom spreads", () => {
+    const { document } = parseBackup(
+      backup({
+        version: READING_EXPORT_VERSION,
+        readings: [],
+        settings: {
+          accentHue: 200,
+          reversalStrategy: { mode: "balanced" },
+          customSpreads: [{ id: "broken" }],
+        },
+      })
+    );
+    expect(document.settings).toEqual({
+      accentHue: 200,
+      reversalStrategy: { mode: "balanced" },
+      customSpreads: [],
+    });
+  });
+
+  it("rejects files this app can't read", () => {
+    expect(() => parseBackup("not json")).toThrow(InvalidBackupError);
+    expect(() => parseBackup(JSON.stringify({ kind: "other", version: 1 }))).toThrow(
+      "not a tarot reading export"
+    );
+    expect(() =>
+      parseBackup(backup({ version: READING_EXPORT_VERSION + 1, readings: [] }))
+    ).toThrow("newer version");
+  });
+});
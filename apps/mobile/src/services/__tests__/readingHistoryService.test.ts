@@ -0,0 +1,60 @@
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getAllReadings, queryReadings, saveReading } from "../readingHistoryService";
+import type { ReadingResultLocal } from "../../types/tarot";
+
+function reading(readingId: string, createdAtIso: string): ReadingResultLocal {
+  return {
+    readingId,
+    createdAtIso,
+    spreadId: "one_card",
+    drawnCards: [{ cardId: "fool", isReversed: false, positionIndex: 0 }],
+    perCardText: [],
+  };
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe("saveReading and queryReadings", () => {
+  it("keeps every reading, newest first", async () => {
+    await saveReading("account-save", reading("old", "2026-01-01T00:00:00.000Z"));
+    await saveReading("account-save", reading("new", "2026-02-01T00:00:00.000Z"));
+    const page = await queryReadings("account-save");
+    expect(page.readings.map((entry) => entry.readingId)).toEqual(["new", "old"]);
+  });
+});
+
+describe("legacy last reading", () => {
+  it("moves the legacy value into the history", async () => {
+    await AsyncStorage.setItem(
+      "@tarot:lastReading:account-legacy",
+      JSON.stringify(reading("legacy", "2026-01-01T00:00:00.000Z"))
+    );
+    const readings = await getAllReadings("account-legacy");
+    expect(readings.map((entry) => entry.readingId)).toEqual(["legacy"]);
+    expect(await AsyncStorage.getItem("@tarot:lastReading:account-legacy")).toBeNull();
+  });
+
+  it("drops a corrupt legacy value instead of blocking the history", async () => {
+    await AsyncStorage.setItem("@tarot:lastReading:account-corrupt", "{not json");
+    await saveReading("account-corrupt", reading("fresh", "2026-01-01T00:00:00.000Z"));
+    const readings = await getAllReadings("account-corrupt");
+    expect(readings.map((entry) => entry.readingId)).toEqual(["fresh"]);
+    expect(await AsyncStorage.getItem("@tarot:lastReading:account-corrupt")).toBeNull();
+  });
+});
+
+describe("corrupt index", () => {
+  it("is rebuilt from the stored readings", async () => {
+    await saveReading("account-index", reading("a", "2026-01-01T00:00:00.000Z"));
+    await saveReading("account-index", reading("b", "2026-02-01T00:00:00.000Z"));
+    await AsyncStorage.setItem("@tarot:history:account-index:index", "{broken");
+    const readings = await getAllReadings("account-index");
+    expect(readings.map((entry) => entry.readingId)).toEqual(["b", "a"]);
+  });
+});
@@ -2,10 +2,22 @@
  * AiService - Client for backend AI narrative generation
  * Never calls OpenAI directly from mobile
  * All AI requests go through the backend API
+ * Narratives arrive as Server-Sent Events so text can be shown as it is written
  */
 
+import { fetch } from "expo/fetch";
 import { logger } from "../core/logger";
-import type { ReadingResultLocal } from "../types/tarot";
+import { analyzeReading } from "../core/readingAnalysis";
+import { DEFAULT_NARRATIVE_TONE } from "../core/tarotEngine";
+import { getAllCards, getCard, getSpreadForReading } from "../data/tarot/loader";
+import type {
+  ReadingAnalysis,
+  NarrativeTone,
+  ReadingCategory,
+  ReadingChatMessage,
+  ReadingResultLocal,
+  StructuredNarrative,
+} from "../types/tarot";
 import type { AppConfig } from "../types/config";
 
 /**
@@ -45,17 +57,96 @@ interface AiReadingRequest {
     isReversed: boolean;
     meaning: string;
     description: string;
+    /** Meaning for the reading's focus category, when it has one */
+    categoryMeaning?: string;
   }>;
-  tone: "heavenly_clean";
-  outputFormat: "text";
+  /** Area of life the narrative should be framed around */
+  focusCategory?: ReadingCategory;
+  /** Card set aside to represent the querent, for spreads with a significator slot */
+  significator?: {
+    cardId: string;
+    name: string;
+    label: string;
+    prompt: string;
+    meaning: string;
+  };
+  /** Suit/element balance, numerology and dignities for the narrative to draw on */
+  patterns: ReadingAnalysis;
+  /** Notable pairs, triads and repeated ranks found in the draw */
+  combinations: Array<{
+    kind: "pair" | "triad" | "rank";
+    title: string;
+    meaning: string;
+  }>;
+  /** Reader persona the narrative is written as */
+  tone: NarrativeTone;
+  outputFormat: AiNarrativeFormat;
 }
 
+/**
+ * "text" streams a paragraph plus bullets; "json" streams the overview as it is
+ * written and returns a StructuredNarrative once the backend has validated it
+ */
+export type AiNarrativeFormat = "text" | "json";
+
 /**
  * Response from AI reading endpoint
  */
 interface AiReadingResponse {
   readingId: string;
   aiNarrative: string;
+  /** Present for the "json" format */
+  structuredNarrative?: StructuredNarrative;
+}
+
+/**
+ * Generated narrative for a reading
+ */
+export type AiNarrative = Omit<AiReadingResponse, "readingId">;
+
+/**
+ * Most earlier chat messages sent with a follow-up question
+ */
+const CHAT_HISTORY_LIMIT = 40;
+
+/**
+ * Token budget for a follow-up conversation, matching the backend's
+ * AI_CHAT_HISTORY_TOKENS default; the backend drops anything beyond its budget
+ */
+const CHAT_HISTORY_TOKENS = 2000;
+
+/**
+ * Rough characters per token, as the backend estimates them
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Response from the follow-up chat endpoint
+ */
+interface AiChatResponse {
+  readingId: string;
+  message: { role: "assistant"; content: string };
+}
+
+/**
+ * Server-Sent Events from POST /v1/ai/reading/stream
+ */
+type AiReadingStreamEvent =
+  | { event: "start"; data: { readingId: string } }
+  | { event: "delta"; data: { readingId: string; text: string } }
+  | { event: "done"; data: AiReadingResponse }
+  | { event: "error"; data: { readingId: string; error: string; requestId: string } };
+
+/**
+ * Options for generateAiNarrative
+ */
+export interface AiNarrativeOptions {
+  /** Narrative format (default "text") */
+  outputFormat?: AiNarrativeFormat;
+  /** Called with each piece of narrative text as it arrives (the overview, for "json") */
+  onDelta?: (text: string) => void;
+  /** Abort to stop the request (the backend then cancels the model call) */
+  signal?: AbortSignal;
 }
 
 /**
@@ -67,13 +158,175 @@ interface ApiError {
   requestId?: string;
 }
 
+/**
+ * Build the backend request payload for a reading
+ */
+function buildAiReadingRequest(
+  reading: ReadingResultLocal,
+  outputFormat: AiNarrativeFormat
+): AiReadingRequest {
+  // Significator travels as the querent's card (never as a drawn position)
+  const significatorSlot = getSpreadForReading(reading).significator;
+  const significatorCard =
+    significatorSlot && reading.significatorCardId
+      ? getCard(reading.significatorCardId)
+      : null;
+
+  return {
+    readingId: reading.readingId,
+    question: reading.question || null,
+    spread: {
+      id: reading.spreadId,
+      positions: reading.perCardText.map((card, idx) => {
+        // Find the position from the original spread
+        // For now, we'll use a simplified structure
+        return {
+          index: idx,
+          label: card.title.split(" — ")[1] || `Position ${idx + 1}`,
+          prompt: `This card represents ${card.title.split(" — ")[1] || `position ${idx + 1}`}. ${card.meaning}`,
+        };
+      }),
+    },
+    cards: reading.perCardText.map((card, idx) => ({
+      cardId: reading.drawnCards[idx].cardId,
+      name: card.title.split(" — ")[0],
+      positionIndex: idx,
+      positionLabel: card.title.split(" — ")[1] || `Position ${idx + 1}`,
+      isReversed: reading.drawnCards[idx].isReversed,
+      meaning: card.meaning,
+      description: card.description,
+      categoryMeaning: reading.focusCategory
+        ? card.categoryMeanings[reading.focusCategory]
+        : undefined,
+    })),
+    focusCategory: reading.focusCategory,
+    significator:
+      significatorSlot && significatorCard
+        ? {
+            cardId: significatorCard.id,
+            name: significatorCard.name,
+            label: significatorSlot.label,
+            prompt: significatorSlot.prompt,
+            meaning: significatorCard.meaningUpright,
+          }
+        : undefined,
+    patterns: analyzeReading(
+      reading,
+      new Map(getAllCards().map((card) => [card.id, card]))
+    ),
+    combinations: (reading.combinations ?? []).map((combination) => ({
+      kind: combination.kind,
+      title: combination.title,
+      meaning: combination.meaning,
+    })),
+    tone: reading.tone ?? DEFAULT_NARRATIVE_TONE,
+    outputFormat,
+  };
+}
+
+/**
+ * Parse complete Server-Sent Events out of a buffer
+ * Returns the parsed events and the unfinished tail to keep buffering
+ */
+function parseSseEvents(buffer: string): {
+  events: AiReadingStreamEvent[];
+  rest: string;
+} {
+  const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events: AiReadingStreamEvent[] = [];
+  for (const block of blocks) {
+    let event = "message";
+    let data = "";
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data += line.slice(5).trim();
+      }
+    }
+    if (data) {
+      events.push({ event, data: JSON.parse(data) } as AiReadingStreamEvent);
+    }
+  }
+  return { events, rest };
+}
+
+/**
+ * Read a string field out of JSON that is still streaming in
+ * Returns the value decoded so far, or "" until the field has started; stops at
+ * an escape sequence that hasn't fully arrived.
+ */
+function readPartialJsonString(json: string, key: string): string {
+  const start = json.match(new RegExp(`"${key}"\\s*:\\s*"`));
+  if (!start || start.index === undefined) return "";
+
+  const escapes: Record<string, string> = {
+    '"': '"',
+    "\\": "\\",
+    "/": "/",
+    b: "\b",
+    f: "\f",
+    n: "\n",
+    r: "\r",
+    t: "\t",
+  };
+  let value = "";
+  for (let i = start.index + start[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') break;
+    if (char !== "\\") {
+      value += char;
+      continue;
+    }
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = json.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += escapes[next] ?? next;
+      i += 1;
+    }
+  }
+  return value;
+}
+
+/**
+ * Most recent chat messages that fit the history budget alongside the question
+ * Starts with a user message, like the backend's own trimming, so nothing is
+ * sent only to be dropped there.
+ */
+function trimChatHistory(
+  chat: ReadingChatMessage[],
+  question: string
+): ReadingChatMessage[] {
+  const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+  let tokens = estimateTokens(question);
+  let start = chat.length;
+  while (start > 0 && chat.length - start < CHAT_HISTORY_LIMIT) {
+    const next = tokens + estimateTokens(chat[start - 1].content);
+    if (next > CHAT_HISTORY_TOKENS) break;
+    tokens = next;
+    start--;
+  }
+  while (start < chat.length && chat[start].role !== "user") {
+    start++;
+  }
+  return chat.slice(start);
+}
+
 /**
  * Generate AI narrative for a reading
- * Sends reading data to backend and returns narrative text
+ * Sends reading data to backend, reports text through onDelta as it streams in,
+ * and resolves with the full narrative (plus its parts for the "json" format)
  */
 export async function generateAiNarrative(
-  reading: ReadingResultLocal
-): Promise<string> {
+  reading: ReadingResultLocal,
+  options: AiNarrativeOptions = {}
+): Promise<AiNarrative> {
   if (!config) {
     throw new Error("AI service not initialized");
   }
@@ -85,45 +338,23 @@ export async function generateAiNarrative(
     readingId: reading.readingId,
     spreadId: reading.spreadId,
     cardCount: reading.drawnCards.length,
+    focusCategory: reading.focusCategory ?? null,
+    tone: reading.tone ?? DEFAULT_NARRATIVE_TONE,
   });
 
   try {
-    // Build request payload
-    const requestBody: AiReadingRequest = {
-      readingId: reading.readingId,
-      question: reading.question || null,
-      spread: {
-        id: reading.spreadId,
-        positions: reading.perCardText.map((card, idx) => {
-          // Find the position from the original spread
-          // For now, we'll use a simplified structure
-          return {
-            index: idx,
-            label: card.title.split(" — ")[1] || `Position ${idx + 1}`,
-            prompt: `This card represents ${card.title.split(" — ")[1] || `position ${idx + 1}`}. ${card.meaning}`,
-          };
-        }),
-      },
-      cards: reading.perCardText.map((card, idx) => ({
-        cardId: reading.drawnCards[idx].cardId,
-        name: card.title.split(" — ")[0],
-        positionIndex: idx,
-        positionLabel: card.title.split(" — ")[1] || `Position ${idx + 1}`,
-        isReversed: reading.drawnCards[idx].isReversed,
-        meaning: card.meaning,
-        description: card.description,
-      })),
-      tone: "heavenly_clean",
-      outputFormat: "text",
-    };
+    const outputFormat = options.outputFormat ?? "text";
+    const requestBody = buildAiReadingRequest(reading, outputFormat);
 
     // Make API request
-    const response = await fetch(`${config.apiBaseUrl}/v1/ai/reading`, {
+    const response = await fetch(`${config.apiBaseUrl}/v1/ai/reading/stream`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
+        Accept: "text/event-stream",
       },
       body: JSON.stringify(requestBody),
+      signal: options.signal,
     });
 
     // Handle error responses
@@ -155,17 +386,72 @@ export async function generateAiNarrative(
       throw new Error(`Server error: ${errorData.error || response.statusText}`);
     }
 
-    // Parse successful response
-    const data = (await response.json()) as AiReadingResponse;
+    if (!response.body) {
+      throw new Error("Server error: empty response");
+    }
+
+    // Read the event stream until done or error
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    // Raw JSON so far, for the "json" format; only its overview is shown while streaming
+    let json = "";
+    let narrative: AiNarrative = { aiNarrative: "" };
+    let finished = false;
+    while (!finished) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      const parsed = parseSseEvents(buffer + decoder.decode(value, { stream: true }));
+      buffer = parsed.rest;
+      for (const event of parsed.events) {
+        if (event.event === "delta") {
+          let text = event.data.text;
+          if (outputFormat === "json") {
+            json += text;
+            text = readPartialJsonString(json, "overview").slice(
+              narrative.aiNarrative.length
+            );
+          }
+          if (text) {
+            narrative.aiNarrative += text;
+            options.onDelta?.(text);
+          }
+        } else if (event.event === "done") {
+          narrative = {
+            aiNarrative: event.data.aiNarrative,
+            structuredNarrative: event.data.structuredNarrative,
+          };
+          finished = true;
+        } else if (event.event === "error") {
+          logger.error("ai.reading.error.server", {
+            requestId,
+            error: event.data.error,
+            requestIdFromServer: event.data.requestId,
+          });
+          throw new Error(`Server error: ${event.data.error}`);
+        }
+      }
+    }
+    if (!finished) {
+      throw new Error("Server error: narrative stream ended early");
+    }
 
     logger.info("ai.reading.success", {
       requestId,
       readingId: reading.readingId,
-      narrativeLength: data.aiNarrative.length,
+      outputFormat,
+      narrativeLength: narrative.aiNarrative.length,
     });
 
-    return data.aiNarrative;
+    return narrative;
   } catch (error) {
+    if (options.signal?.aborted) {
+      logger.info("ai.reading.cancelled", {
+        requestId,
+        readingId: reading.readingId,
+      });
+      throw error;
+    }
     logger.error("ai.reading.error", {
       requestId,
       message: error instanceof Error ? error.message : String(error),
@@ -175,3 +461,72 @@ export async function generateAiNarrative(
   }
 }
 
+/**
+ * Ask a follow-up question about a reading
+ * Sends the reading, its narrative and as much of the recent conversation
+ * (reading.chat) as fits the chat token budget, and resolves with the answer
+ */
+export async function askReadingQuestion(
+  reading: ReadingResultLocal,
+  question: string
+): Promise<string> {
+  if (!config) {
+    throw new Error("AI service not initialized");
+  }
+
+  const requestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const history = trimChatHistory(reading.chat ?? [], question);
+
+  logger.info("ai.chat.request", {
+    requestId,
+    readingId: reading.readingId,
+    historyLength: history.length,
+  });
+
+  try {
+    const response = await fetch(
+      `${config.apiBaseUrl}/v1/ai/reading/${reading.readingId}/messages`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          reading: buildAiReadingRequest(reading, "text"),
+          narrative: reading.aiNarrative,
+          messages: [
+            ...history.map(({ role, content }) => ({ role, content })),
+            { role: "user", content: question },
+          ],
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = (await response.json()) as ApiError;
+      logger.error("ai.chat.error.server", {
+        requestId,
+        status: response.status,
+        error: errorData.error,
+        requestIdFromServer: errorData.requestId,
+      });
+      throw new Error(`Server error: ${errorData.error || response.statusText}`);
+    }
+
+    const data = (await response.json()) as AiChatResponse;
+
+    logger.info("ai.chat.success", {
+      requestId,
+      readingId: reading.readingId,
+      answerLength: data.message.content.length,
+    });
+
+    return data.message.content;
+  } catch (error) {
+    logger.error("ai.chat.error", {
+      requestId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * Backup Service - Move readings and preferences between phones
+ * A backup is the JSON export document with a settings block. Restoring validates
+ * the file with Zod, migrates older document versions, merges readings into the
+ * account's history (existing readingIds win) and restores the theme hue,
+ * reversal preference and custom spreads.
+ */
+
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+import { z } from "zod";
+import { logger } from "../core/logger";
+import { NARRATIVE_TONE_IDS, READING_CATEGORIES } from "../core/tarotEngine";
+import {
+  DELETED_SPREAD_NAME,
+  getAllCards,
+  getAllSpreads,
+} from "../data/tarot/loader";
+import { useThemeStore } from "../state/themeStore";
+import {
+  ReversalStrategySchema,
+  useReadingSettingsStore,
+} from "../state/readingSettingsStore";
+import {
+  parseCustomSpread,
+  useCustomSpreadStore,
+} from "../state/customSpreadStore";
+import { exportReadings, READING_EXPORT_VERSION } from "./exportService";
+import { getAllReadings, importReadings } from "./readingHistoryService";
+import { InvalidBackupError } from "../types/export";
+import type {
+  NarrativeTone,
+  ReadingCategory,
+  ReadingResultLocal,
+} from "../types/tarot";
+import type {
+  BackupRestoreSummary,
+  BackupSettings,
+  ReadingExportDocument,
+} from "../types/export";
+
+const CardMeaningsSchema = z.object({
+  love: z.string(),
+  health: z.string(),
+  moneyCareer: z.string(),
+  spirituality: z.string(),
+});
+
+const DrawnCardSchema = z.object({
+  cardId: z.string().min(1),
+  isReversed: z.boolean(),
+  positionIndex: z.number().int().min(0),
+});
+
+const ReadingJournalSchema = z.object({
+  entries: z.array(
+    z.object({
+      id: z.string(),
+      createdAtIso: z.string(),
+      text: z.string(),
+      mood: z
+        .enum(["joyful", "hopeful", "calm", "uncertain", "anxious", "sad", "frustrated"])
+        .optional(),
+      tags: z.array(z.string()),
+    })
+  ),
+  outcome: z
+    .object({
+      status: z.enum(["pending", "came_true", "partly", "did_not"]),
+      note: z.string().optional(),
+      recordedAtIso: z.string(),
+    })
+    .optional(),
+  followUpAtIso: z.string().optional(),
+});
+
+/**
+ * Zod schema for a stored ReadingResultLocal
+ */
+const ReadingSchema = z.object({
+  readingId: z.string().min(1),
+  createdAtIso: z.string().datetime(),
+  spreadId: z.string().min(1),
+  question: z.string().optional(),
+  seed: z.string().optional(),
+  randomSource: z
+    .enum(["seeded", "crypto_seeded", "crypto_seeded_mixed", "secure", "secure_mixed"])
+    .optional(),
+  reversalStrategy: ReversalStrategySchema.optional(),
+  deckSessionId: z.string().optional(),
+  significatorCardId: z.string().optional(),
+  focusCategory: z
+    .enum(READING_CATEGORIES as [ReadingCategory, ...ReadingCategory[]])
+    .optional(),
+  tone: z.enum(NARRATIVE_TONE_IDS as [NarrativeTone, ...NarrativeTone[]]).optional(),
+  combinations: z
+    .array(
+      z.object({
+        kind: z.enum(["pair", "triad", "rank"]),
+        cardIds: z.array(z.string()),
+        title: z.string(),
+        meaning: z.string(),
+      })
+    )
+    .optional(),
+  drawnCards: z.array(DrawnCardSchema).min(1),
+  perCardText: z.array(
+    z.object({
+      cardId: z.string(),
+      title: z.string(),
+      meaning: z.string(),
+      description: z.string(),
+      categoryMeanings: CardMeaningsSchema,
+    })
+  ),
+  aiNarrative: z.string().optional(),
+  aiStructuredNarrative: z
+    .object({
+      overview: z.string(),
+      positions: z.array(
+        z.object({ positionIndex: z.number(), interpretation: z.string() })
+      ),
+      advice: z.string(),
+      takeaways: z.array(z.string()),
+      disclaimer: z.string(),
+    })
+    .optional(),
+  chat: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        content: z.string(),
+        createdAtIso: z.string(),
+      })
+    )
+    .optional(),
+  clarifiers: z
+    .array(DrawnCardSchema.extend({ drawnAtIso: z.string() }))
+    .optional(),
+  journal: ReadingJournalSchema.optional(),
+});
+
+const BackupSettingsSchema = z.object({
+  accentHue: z.number().min(0).max(360),
+  reversalStrategy: ReversalStrategySchema,
+  // Each spread is checked on its own so one bad spread doesn't sink the restore
+  customSpreads: z.array(z.unknown()),
+});
+
+/**
+ * Zod schema for the current export document version
+ * Readings are validated one by one after the envelope passes
+ */
+const ExportDocumentSchema = z.object({
+  kind: z.literal("tarot-readings"),
+  version: z.literal(READING_EXPORT_VERSION),
+  exportedAtIso: z.string(),
+  readings: z.array(z.unknown()),
+  settings: BackupSettingsSchema.optional(),
+});
+
+const EnvelopeSchema = z.object({
+  kind: z.literal("tarot-readings"),
+  version: z.number().int().min(1),
+});
+
+/**
+ * Migrations from each older document version to the next one
+ */
+const MIGRATIONS: Record<number, (document: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 had no settings block; its readings already match v2
+  1: (document) => ({ ...document, version: 2 }),
+};
+
+function describeZodError(error: z.ZodError): string {
+  const issue = error.errors[0];
+  return issue ? `${issue.path.join(".") || "document"}: ${issue.message}` : error.message;
+}
+
+/**
+ * Parse backup file contents into the current document shape
+ * Older versions are migrated first; readings that fail validation or reference
+ * unknown cards are dropped and counted rather than failing the whole file.
+ * Readings whose spread is neither built in, on this phone nor in the backup are
+ * kept (they show as DELETED_SPREAD_NAME) and counted in unknownSpreads.
+ * Throws InvalidBackupError if the file isn't a backup this app can read.
+ */
+export function parseBackup(json: string): {
+  document: ReadingExportDocument;
+  invalid: number;
+  unknownSpreads: number;
+} {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new InvalidBackupError("not a JSON file");
+  }
+
+  const envelope = EnvelopeSchema.safeParse(raw);
+  if (!envelope.success) {
+    throw new InvalidBackupError("not a tarot reading export");
+  }
+  if (envelope.data.version > READING_EXPORT_VERSION) {
+    throw new InvalidBackupError(
+      `made by a newer version of the app (version ${envelope.data.version})`
+    );
+  }
+
+  let migrated = raw as Record<string, unknown>;
+  for (let version = envelope.data.version; version < READING_EXPORT_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+
+  const parsed = ExportDocumentSchema.safeParse(migrated);
+  if (!parsed.success) {
+    throw new InvalidBackupError(describeZodError(parsed.error));
+  }
+
+  const settings = parsed.data.settings;
+  const customSpreads = (settings?.customSpreads ?? []).flatMap((spread) => {
+    const result = parseCustomSpread(spread);
+    if (!result.success) {
+      logger.warn("backup.spread.invalid", { error: result.error });
+      return [];
+    }
+    return [result.spread];
+  });
+
+  const knownCards = new Set(getAllCards().map((card) => card.id));
+  const knownSpreads = new Set(
+    [...getAllSpreads(), ...customSpreads].map((spread) => spread.id)
+  );
+  const readings: ReadingResultLocal[] = [];
+  let invalid = 0;
+  let unknownSpreads = 0;
+  for (const entry of parsed.data.readings) {
+    const reading = ReadingSchema.safeParse(entry);
+    const cardIds = reading.success
+      ? [
+          ...reading.data.drawnCards.map((card) => card.cardId),
+          ...(reading.data.clarifiers ?? []).map((card) => card.cardId),
+          ...(reading.data.significatorCardId ? [reading.data.significatorCardId] : []),
+        ]
+      : [];
+    if (!reading.success || !cardIds.every((cardId) => knownCards.has(cardId))) {
+      invalid += 1;
+      logger.warn("backup.reading.invalid", {
+        error: reading.success ? "unknown card" : describeZodError(reading.error),
+      });
+      continue;
+    }
+    if (!knownSpreads.has(reading.data.spreadId)) {
+      unknownSpreads += 1;
+      logger.warn("backup.reading.unknown_spread", {
+        readingId: reading.data.readingId,
+        spreadId: reading.data.spreadId,
+        shownAs: DELETED_SPREAD_NAME,
+      });
+    }
+    readings.push(reading.data);
+  }
+
+  return {
+    document: {
+      kind: parsed.data.kind,
+      version: parsed.data.version,
+      exportedAtIso: parsed.data.exportedAtIso,
+      readings,
+      settings: settings && {
+        accentHue: settings.accentHue,
+        reversalStrategy: settings.reversalStrategy,
+        customSpreads,
+      },
+    },
+    invalid,
+    unknownSpreads,
+  };
+}
+
+/**
+ * Current preferences, as written into a backup
+ */
+function currentSettings(): BackupSettings {
+  return {
+    accentHue: Math.round(useThemeStore.getState().accentHue),
+    reversalStrategy: useReadingSettingsStore.getState().reversalStrategy,
+    customSpreads: useCustomSpreadStore.getState().spreads,
+  };
+}
+
+/**
+ * Write a full backup of the account's readings and the app preferences, then share it
+ */
+export async function createBackup(accountId: string | null): Promise<void> {
+  const readings = accountId ? await getAllReadings(accountId) : [];
+  logger.info("backup.create", { readingCount: readings.length });
+  await exportReadings(readings, "json", currentSettings());
+}
+
+/**
+ * Let the user pick a backup file; returns its contents, or null if they cancel
+ */
+export async function pickBackupFile(): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ["application/json", "text/plain"],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+  return new File(result.assets[0].uri).text();
+}
+
+/**
+ * Restore a backup: merge its readings into the account's history and apply its settings
+ * Readings need an account; without one only the settings are restored
+ */
+export async function restoreBackup(
+  accountId: string | null,
+  json: string
+): Promise<BackupRestoreSummary> {
+  const { document, invalid, unknownSpreads } = parseBackup(json);
+
+  const { imported, skipped } = accountId
+    ? await importReadings(accountId, document.readings)
+    : { imported: 0, skipped: document.readings.length };
+
+  const settings = document.settings;
+  if (settings) {
+    useThemeStore.getState().setAccentHue(settings.accentHue);
+    useReadingSettingsStore.getState().setReversalStrategy(settings.reversalStrategy);
+    const spreadStore = useCustomSpreadStore.getState();
+    for (const spread of settings.customSpreads) {
+      spreadStore.saveSpread(spread);
+    }
+  }
+
+  const summary: BackupRestoreSummary = {
+    imported,
+    skipped,
+    invalid,
+    unknownSpreads,
+    settingsRestored: settings !== undefined,
+    customSpreads: settings?.customSpreads.length ?? 0,
+  };
+  logger.info("backup.restored", { ...summary, version: document.version });
+  return summary;
+}
@@ -0,0 +1,211 @@
+/**
+ * Export Service - Save readings outside the app
+ * Writes one reading or a range of readings as a versioned JSON document,
+ * a Markdown file or a PDF, then hands the file to the system share sheet.
+ * Markdown and PDF embed the card images as data URIs so the files stand alone.
+ * Reading images captured on the result screen go through the same share sheet.
+ */
+
+import { Asset } from "expo-asset";
+import { File, Paths } from "expo-file-system";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import { logger } from "../core/logger";
+import { getCard } from "../data/tarot/loader";
+import { getCardImagePath } from "../utils/cardImageMapper";
+import { getCardImageSource } from "../utils/cardImageMap";
+import {
+  renderReadingsHtml,
+  renderReadingsMarkdown,
+} from "../utils/readingExportFormat";
+import type { ReadingResultLocal } from "../types/tarot";
+import type {
+  BackupSettings,
+  CardImageUris,
+  ExportFormat,
+  ReadingExportDocument,
+} from "../types/export";
+
+/**
+ * Version of the JSON export document
+ * Bump when the document shape changes and add a migration to backupService
+ * v2: optional settings block, making a JSON export usable as a full backup
+ */
+export const READING_EXPORT_VERSION = 2;
+
+const FILE_TYPES: Record<
+  ExportFormat,
+  { extension: string; mimeType: string; uti: string }
+> = {
+  json: { extension: "json", mimeType: "application/json", uti: "public.json" },
+  markdown: {
+    extension: "md",
+    mimeType: "text/markdown",
+    uti: "net.daringfireball.markdown",
+  },
+  pdf: { extension: "pdf", mimeType: "application/pdf", uti: "com.adobe.pdf" },
+};
+
+/**
+ * Build the versioned JSON document for a set of readings
+ * Passing settings turns the document into a full backup
+ */
+export function buildExportDocument(
+  readings: ReadingResultLocal[],
+  settings?: BackupSettings,
+  now: Date = new Date()
+): ReadingExportDocument {
+  return {
+    kind: "tarot-readings",
+    version: READING_EXPORT_VERSION,
+    exportedAtIso: now.toISOString(),
+    readings,
+    settings,
+  };
+}
+
+/**
+ * File name for an export, e.g. "tarot-reading-2026-10-19.md"
+ */
+function exportFileName(
+  count: number,
+  format: ExportFormat,
+  isBackup: boolean,
+  now: Date
+): string {
+  const date = now.toISOString().slice(0, 10);
+  const stem = isBackup
+    ? "tarot-backup"
+    : count === 1
+      ? "tarot-reading"
+      : "tarot-readings";
+  return `${stem}-${date}.${FILE_TYPES[format].extension}`;
+}
+
+/**
+ * Load the bundled image of every card in the readings as a JPEG data URI
+ * Cards whose image can't be read are left out; the export still goes ahead
+ */
+async function loadCardImages(
+  readings: ReadingResultLocal[]
+): Promise<CardImageUris> {
+  const cardIds = new Set(
+    readings.flatMap((reading) =>
+      reading.perCardText.map((cardText) => cardText.cardId)
+    )
+  );
+  const images: CardImageUris = new Map();
+
+  for (const cardId of cardIds) {
+    try {
+      const asset = Asset.fromModule(
+        getCardImageSource(getCardImagePath(getCard(cardId)))
+      );
+      await asset.downloadAsync();
+      if (!asset.localUri) continue;
+      const base64 = await new File(asset.localUri).base64();
+      images.set(cardId, `data:image/jpeg;base64,${base64}`);
+    } catch (error) {
+      logger.warn("export.image.failed", {
+        cardId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return images;
+}
+
+function writeCacheFile(name: string, content: string): File {
+  const file = new File(Paths.cache, name);
+  file.create({ overwrite: true });
+  file.write(content);
+  return file;
+}
+
+/**
+ * Write the export file and return its URI
+ */
+async function writeExport(
+  readings: ReadingResultLocal[],
+  format: ExportFormat,
+  settings: BackupSettings | undefined,
+  now: Date
+): Promise<string> {
+  const isBackup = format === "json" && settings !== undefined;
+  const name = exportFileName(readings.length, format, isBackup, now);
+
+  if (format === "json") {
+    const document = buildExportDocument(readings, settings, now);
+    return writeCacheFile(name, JSON.stringify(document, null, 2)).uri;
+  }
+
+  const images = await loadCardImages(readings);
+  if (format === "markdown") {
+    return writeCacheFile(name, renderReadingsMarkdown(readings, images)).uri;
+  }
+
+  const { uri } = await Print.printToFileAsync({
+    html: renderReadingsHtml(readings, images),
+  });
+  // Print names the file at random; give it a readable name before sharing
+  const target = new File(Paths.cache, name);
+  if (target.exists) {
+    target.delete();
+  }
+  new File(uri).move(target);
+  return target.uri;
+}
+
+/**
+ * Export readings in the given format and open the share sheet
+ * Settings are only written to JSON, where they make the file a restorable backup.
+ * Throws if there is nothing to export or sharing isn't available on the device
+ */
+export async function exportReadings(
+  readings: ReadingResultLocal[],
+  format: ExportFormat,
+  settings?: BackupSettings
+): Promise<void> {
+  if (readings.length === 0 && !settings) {
+    throw new Error("No readings to export");
+  }
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+
+  logger.info("export.start", { format, count: readings.length });
+  try {
+    const uri = await writeExport(readings, format, settings, new Date());
+    const fileType = FILE_TYPES[format];
+    await Sharing.shareAsync(uri, {
+      mimeType: fileType.mimeType,
+      UTI: fileType.uti,
+      dialogTitle: readings.length === 1 ? "Export reading" : "Export readings",
+    });
+    logger.info("export.shared", { format, count: readings.length });
+  } catch (error) {
+    logger.error("export.failed", {
+      format,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Open the share sheet for a captured reading image
+ */
+export async function shareReadingImage(
+  uri: string,
+  readingId: string
+): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+  await Sharing.shareAsync(uri, {
+    mimeType: "image/png",
+    UTI: "public.png",
+    dialogTitle: "Share reading",
+  });
+  logger.info("export.image.shared", { readingId });
+}
@@ -3,7 +3,11 @@
  * Central export point for all service modules
  */
 
-export { initializeAiService, generateAiNarrative } from "./aiService";
+export {
+  initializeAiService,
+  generateAiNarrative,
+  askReadingQuestion,
+} from "./aiService";
 export {
   initializeSolanaService,
   connectWallet,
@@ -0,0 +1,500 @@
+/**
+ * Reading History Service - Persist every reading per wallet
+ * Keyed by account ID (wallet address). Each reading is stored under its own key;
+ * a per-account index of summaries (newest first) drives paging and filtering.
+ * Replaces the single "@tarot:lastReading:<account>" value, which is migrated on first use.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { z } from "zod";
+import { logger } from "../core/logger";
+import type { ReadingResultLocal } from "../types/tarot";
+import type {
+  ReadingHistoryEntry,
+  ReadingHistoryFilters,
+  ReadingHistoryPage,
+} from "../types/history";
+
+const STORAGE_KEY_PREFIX = "@tarot:history:";
+
+/** Pre-history storage: one reading per account */
+const LEGACY_LAST_READING_PREFIX = "@tarot:lastReading:";
+
+/** Readings per page when the caller doesn't ask for a size */
+export const DEFAULT_HISTORY_PAGE_SIZE = 20;
+
+/** Readings loaded per batch while scanning for a text match */
+const TEXT_SCAN_BATCH = 20;
+
+const ReadingHistoryEntrySchema = z.object({
+  readingId: z.string(),
+  createdAtIso: z.string(),
+  spreadId: z.string(),
+  question: z.string().optional(),
+  cardIds: z.array(z.string()),
+});
+
+/**
+ * Storage key for an account's history index
+ */
+function getIndexKey(accountId: string): string {
+  return `${STORAGE_KEY_PREFIX}${accountId}:index`;
+}
+
+/**
+ * Storage key for one stored reading
+ */
+function getReadingKey(accountId: string, readingId: string): string {
+  return `${STORAGE_KEY_PREFIX}${accountId}:reading:${readingId}`;
+}
+
+function maskAccount(accountId: string): string {
+  return `${accountId.substring(0, 8)}...`;
+}
+
+/**
+ * Index summary for a reading
+ */
+function toEntry(reading: ReadingResultLocal): ReadingHistoryEntry {
+  const cardIds = [
+    ...reading.drawnCards.map((card) => card.cardId),
+    ...(reading.clarifiers ?? []).map((card) => card.cardId),
+    ...(reading.significatorCardId ? [reading.significatorCardId] : []),
+  ];
+  return {
+    readingId: reading.readingId,
+    createdAtIso: reading.createdAtIso,
+    spreadId: reading.spreadId,
+    question: reading.question,
+    cardIds: Array.from(new Set(cardIds)),
+  };
+}
+
+/**
+ * Simple in-memory mutex so concurrent saves don't overwrite each other's index
+ */
+let historyLock = false;
+
+async function acquireLock(): Promise<void> {
+  while (historyLock) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  historyLock = true;
+}
+
+function releaseLock(): void {
+  historyLock = false;
+}
+
+/**
+ * Load the account's index
+ * An index that no longer parses is rebuilt from the stored readings rather than
+ * treated as empty, so the next save can't write over the whole history.
+ * Must be called with the lock held
+ */
+async function loadIndex(accountId: string): Promise<ReadingHistoryEntry[]> {
+  const json = await AsyncStorage.getItem(getIndexKey(accountId));
+  if (!json) {
+    return [];
+  }
+  let error: string;
+  try {
+    const parsed = z.array(ReadingHistoryEntrySchema).safeParse(JSON.parse(json));
+    if (parsed.success) {
+      return parsed.data;
+    }
+    error = parsed.error.message;
+  } catch (parseError) {
+    error = parseError instanceof Error ? parseError.message : String(parseError);
+  }
+  logger.warn("readingHistory.index.invalid", {
+    accountId: maskAccount(accountId),
+    error,
+  });
+  return rebuildIndex(accountId);
+}
+
+/**
+ * Recreate the account's index from its stored reading keys and save it
+ * Readings that fail to parse are left in storage but kept out of the index
+ */
+async function rebuildIndex(accountId: string): Promise<ReadingHistoryEntry[]> {
+  const readingKeyPrefix = getReadingKey(accountId, "");
+  const keys = (await AsyncStorage.getAllKeys()).filter((key) =>
+    key.startsWith(readingKeyPrefix)
+  );
+  const pairs = await AsyncStorage.multiGet(keys);
+
+  const entries: ReadingHistoryEntry[] = [];
+  let unreadable = 0;
+  for (const [, value] of pairs) {
+    try {
+      entries.push(toEntry(JSON.parse(value ?? "") as ReadingResultLocal));
+    } catch {
+      unreadable++;
+    }
+  }
+  const index = entries.sort((a, b) => b.createdAtIso.localeCompare(a.createdAtIso));
+  await saveIndex(accountId, index);
+
+  logger.info("readingHistory.index.rebuilt", {
+    accountId: maskAccount(accountId),
+    count: index.length,
+    unreadable,
+  });
+  return index;
+}
+
+async function saveIndex(
+  accountId: string,
+  index: ReadingHistoryEntry[]
+): Promise<void> {
+  await AsyncStorage.setItem(getIndexKey(accountId), JSON.stringify(index));
+}
+
+/**
+ * Insert or replace a reading in the index, keeping newest first
+ */
+function upsertEntry(
+  index: ReadingHistoryEntry[],
+  entry: ReadingHistoryEntry
+): ReadingHistoryEntry[] {
+  return [...index.filter((e) => e.readingId !== entry.readingId), entry].sort(
+    (a, b) => b.createdAtIso.localeCompare(a.createdAtIso)
+  );
+}
+
+/** Accounts whose legacy last reading has been moved this session */
+const migratedAccounts = new Set<string>();
+
+/**
+ * Move the legacy last reading into the history, once per account
+ * A legacy value that can't be read is logged and dropped so it can't block the history.
+ * Must be called with the lock held
+ */
+async function migrateLastReading(accountId: string): Promise<void> {
+  if (migratedAccounts.has(accountId)) {
+    return;
+  }
+  const legacyKey = `${LEGACY_LAST_READING_PREFIX}${accountId}`;
+  const json = await AsyncStorage.getItem(legacyKey);
+  if (json) {
+    let reading: ReadingResultLocal | null = null;
+    let entry: ReadingHistoryEntry | null = null;
+    try {
+      reading = JSON.parse(json) as ReadingResultLocal;
+      entry = toEntry(reading);
+    } catch (error) {
+      logger.warn("readingHistory.migrate.invalid", {
+        accountId: maskAccount(accountId),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    if (reading && entry) {
+      const { readingId } = entry;
+      const index = await loadIndex(accountId);
+      if (!index.some((existing) => existing.readingId === readingId)) {
+        await AsyncStorage.setItem(
+          getReadingKey(accountId, readingId),
+          JSON.stringify(reading)
+        );
+        await saveIndex(accountId, upsertEntry(index, entry));
+      }
+      logger.info("readingHistory.migrated", {
+        accountId: maskAccount(accountId),
+        readingId,
+      });
+    }
+    await AsyncStorage.removeItem(legacyKey);
+  }
+  migratedAccounts.add(accountId);
+}
+
+/**
+ * Run an operation on an account's history with the lock held and the legacy value migrated
+ */
+async function withHistory<T>(
+  accountId: string,
+  operation: () => Promise<T>
+): Promise<T> {
+  await acquireLock();
+  try {
+    await migrateLastReading(accountId);
+    return await operation();
+  } finally {
+    releaseLock();
+  }
+}
+
+/**
+ * Save a reading to the account's history.
+ * Saving a reading that is already stored (e.g. after pulling clarifiers) replaces it.
+ */
+export async function saveReading(
+  accountId: string,
+  reading: ReadingResultLocal
+): Promise<void> {
+  try {
+    await withHistory(accountId, async () => {
+      await AsyncStorage.setItem(
+        getReadingKey(accountId, reading.readingId),
+        JSON.stringify(reading)
+      );
+      const index = await loadIndex(accountId);
+      await saveIndex(accountId, upsertEntry(index, toEntry(reading)));
+    });
+    logger.info("readingHistory.save", {
+      accountId: maskAccount(accountId),
+      readingId: reading.readingId,
+      spreadId: reading.spreadId,
+    });
+  } catch (error) {
+    logger.error("readingHistory.save.failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Add readings to the account's history in one pass (used when restoring a backup).
+ * Readings whose readingId is already stored are skipped, never overwritten.
+ */
+export async function importReadings(
+  accountId: string,
+  readings: ReadingResultLocal[]
+): Promise<{ imported: number; skipped: number }> {
+  const result = await withHistory(accountId, async () => {
+    const index = await loadIndex(accountId);
+    const known = new Set(index.map((entry) => entry.readingId));
+    const fresh: ReadingResultLocal[] = [];
+    for (const reading of readings) {
+      if (known.has(reading.readingId)) continue;
+      known.add(reading.readingId);
+      fresh.push(reading);
+    }
+    if (fresh.length > 0) {
+      await AsyncStorage.multiSet(
+        fresh.map((reading) => [
+          getReadingKey(accountId, reading.readingId),
+          JSON.stringify(reading),
+        ])
+      );
+      await saveIndex(
+        accountId,
+        [...index, ...fresh.map(toEntry)].sort((a, b) =>
+          b.createdAtIso.localeCompare(a.createdAtIso)
+        )
+      );
+    }
+    return { imported: fresh.length, skipped: readings.length - fresh.length };
+  });
+  logger.info("readingHistory.import", {
+    accountId: maskAccount(accountId),
+    ...result,
+  });
+  return result;
+}
+
+/**
+ * Load one reading by ID, or null if it isn't in the account's history
+ */
+export async function getReading(
+  accountId: string,
+  readingId: string
+): Promise<ReadingResultLocal | null> {
+  try {
+    const json = await withHistory(accountId, () =>
+      AsyncStorage.getItem(getReadingKey(accountId, readingId))
+    );
+    return json ? (JSON.parse(json) as ReadingResultLocal) : null;
+  } catch (error) {
+    logger.error("readingHistory.load.failed", {
+      readingId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Load the most recent reading for the given account, or null if there is none
+ */
+export async function getLatestReading(
+  accountId: string | null
+): Promise<ReadingResultLocal | null> {
+  if (!accountId) {
+    return null;
+  }
+  const page = await queryReadings(accountId, {}, { limit: 1 });
+  return page.readings[0] ?? null;
+}
+
+/**
+ * Load every stored reading that matches the filters, newest first
+ * Used for statistics and exports, which need the whole range rather than a page
+ */
+export async function getAllReadings(
+  accountId: string,
+  filters: ReadingHistoryFilters = {}
+): Promise<ReadingResultLocal[]> {
+  const text = filters.text?.trim();
+  try {
+    const readings = await withHistory(accountId, async () => {
+      const candidates = (await loadIndex(accountId)).filter((entry) =>
+        matchesEntry(entry, filters)
+      );
+      const loaded = await loadReadings(accountId, candidates);
+      return loaded.filter(
+        (reading): reading is ReadingResultLocal =>
+          reading !== null && (!text || matchesText(reading, text))
+      );
+    });
+    logger.info("readingHistory.loadAll", {
+      accountId: maskAccount(accountId),
+      count: readings.length,
+    });
+    return readings;
+  } catch (error) {
+    logger.error("readingHistory.loadAll.failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * Whether an index entry passes the filters that don't need the full reading
+ */
+function matchesEntry(
+  entry: ReadingHistoryEntry,
+  filters: ReadingHistoryFilters
+): boolean {
+  if (filters.spreadId && entry.spreadId !== filters.spreadId) return false;
+  if (filters.cardId && !entry.cardIds.includes(filters.cardId)) return false;
+  if (filters.fromIso && entry.createdAtIso < filters.fromIso) return false;
+  if (filters.toIso && entry.createdAtIso > filters.toIso) return false;
+  return true;
+}
+
+function matchesText(reading: ReadingResultLocal, text: string): boolean {
+  const needle = text.toLowerCase();
+  return [reading.question, reading.aiNarrative].some(
+    (value) => value != null && value.toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Load stored readings for index entries, aligned with the entries (null where missing)
+ */
+async function loadReadings(
+  accountId: string,
+  entries: ReadingHistoryEntry[]
+): Promise<Array<ReadingResultLocal | null>> {
+  const pairs = await AsyncStorage.multiGet(
+    entries.map((entry) => getReadingKey(accountId, entry.readingId))
+  );
+  return pairs.map(([, json]) =>
+    json ? (JSON.parse(json) as ReadingResultLocal) : null
+  );
+}
+
+/**
+ * Search the account's history, newest first.
+ * offset counts index entries that pass the spread/card/date filters, so the
+ * returned nextOffset can be passed back as-is to continue a text search.
+ */
+export async function queryReadings(
+  accountId: string,
+  filters: ReadingHistoryFilters = {},
+  page: { offset?: number; limit?: number } = {}
+): Promise<ReadingHistoryPage> {
+  const offset = page.offset ?? 0;
+  const limit = page.limit ?? DEFAULT_HISTORY_PAGE_SIZE;
+  const text = filters.text?.trim();
+
+  try {
+    const result = await withHistory(accountId, async () => {
+      const candidates = (await loadIndex(accountId)).filter((entry) =>
+        matchesEntry(entry, filters)
+      );
+
+      if (!text) {
+        const slice = candidates.slice(offset, offset + limit);
+        const end = offset + slice.length;
+        const loaded = await loadReadings(accountId, slice);
+        return {
+          readings: loaded.filter(
+            (reading): reading is ReadingResultLocal => reading !== null
+          ),
+          nextOffset: end < candidates.length ? end : null,
+        };
+      }
+
+      // Text lives in the full reading: scan in batches until the page is full
+      const readings: ReadingResultLocal[] = [];
+      for (
+        let cursor = offset;
+        cursor < candidates.length;
+        cursor += TEXT_SCAN_BATCH
+      ) {
+        const batch = candidates.slice(cursor, cursor + TEXT_SCAN_BATCH);
+        const loaded = await loadReadings(accountId, batch);
+        for (let i = 0; i < loaded.length; i++) {
+          const reading = loaded[i];
+          if (!reading || !matchesText(reading, text)) continue;
+          readings.push(reading);
+          if (readings.length === limit) {
+            // Resume right after the last match on the next page
+            const next = cursor + i + 1;
+            return {
+              readings,
+              nextOffset: next < candidates.length ? next : null,
+            };
+          }
+        }
+      }
+      return { readings, nextOffset: null };
+    });
+
+    logger.info("readingHistory.query", {
+      accountId: maskAccount(accountId),
+      offset,
+      count: result.readings.length,
+      hasMore: result.nextOffset !== null,
+    });
+    return result;
+  } catch (error) {
+    logger.error("readingHistory.query.failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { readings: [], nextOffset: null };
+  }
+}
+
+/**
+ * Remove a reading from the account's history
+ */
+export async function deleteReading(
+  accountId: string,
+  readingId: string
+): Promise<void> {
+  try {
+    await withHistory(accountId, async () => {
+      const index = await loadIndex(accountId);
+      await saveIndex(
+        accountId,
+        index.filter((entry) => entry.readingId !== readingId)
+      );
+      await AsyncStorage.removeItem(getReadingKey(accountId, readingId));
+    });
+    logger.info("readingHistory.delete", {
+      accountId: maskAccount(accountId),
+      readingId,
+    });
+  } catch (error) {
+    logger.error("readingHistory.delete.failed", {
+      readingId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
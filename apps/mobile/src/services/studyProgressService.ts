@@ -0,0 +1,77 @@
+/**
+ * Study Progress Service - Persist learning-mode progress per wallet
+ * Keyed by account ID (wallet address) like the reading history. Without a
+ * connected wallet, progress is kept on the device under a shared key so the
+ * study mode works before sign-in.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { z } from "zod";
+import { logger } from "../core/logger";
+import type { StudyProgress } from "../types/learning";
+
+const STORAGE_KEY_PREFIX = "@tarot:study:";
+
+/** Storage slot used while no wallet is connected */
+const DEVICE_SLOT = "device";
+
+const StudyCardStateSchema = z.object({
+  cardId: z.string(),
+  repetitions: z.number().int().min(0),
+  intervalDays: z.number().min(0),
+  ease: z.number().positive(),
+  lapses: z.number().int().min(0),
+  dueAtIso: z.string(),
+  lastReviewedIso: z.string(),
+});
+
+const StudyProgressSchema = z.object({
+  cards: z.record(StudyCardStateSchema),
+});
+
+const EMPTY_PROGRESS: StudyProgress = { cards: {} };
+
+function getStorageKey(accountId: string | null): string {
+  return `${STORAGE_KEY_PREFIX}${accountId ?? DEVICE_SLOT}`;
+}
+
+/**
+ * Load the account's study progress
+ * Missing or unreadable progress starts over from nothing
+ */
+export async function loadStudyProgress(
+  accountId: string | null
+): Promise<StudyProgress> {
+  try {
+    const raw = await AsyncStorage.getItem(getStorageKey(accountId));
+    if (raw == null) {
+      return EMPTY_PROGRESS;
+    }
+    const parsed = StudyProgressSchema.safeParse(JSON.parse(raw));
+    if (parsed.success) {
+      return parsed.data;
+    }
+    logger.warn("study.progress.invalid", { error: parsed.error.message });
+  } catch (error) {
+    logger.error("study.progress.load.failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return EMPTY_PROGRESS;
+}
+
+/**
+ * Save the account's study progress
+ */
+export async function saveStudyProgress(
+  accountId: string | null,
+  progress: StudyProgress
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(getStorageKey(accountId), JSON.stringify(progress));
+  } catch (error) {
+    logger.error("study.progress.save.failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
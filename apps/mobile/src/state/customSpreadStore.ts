@@ -0,0 +1,130 @@
+/**
+ * Custom spread store - user-designed spreads.
+ * Persisted to AsyncStorage and registered with the tarot data loader so
+ * getSpread/getAllSpreads see them alongside the built-in spreads.
+ */
+
+import { create } from "zustand";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { z } from "zod";
+import {
+  TarotSpreadSchema,
+  registerCustomSpreads,
+} from "../data/tarot/loader";
+import { creditCostForRule, isCustomSpreadId } from "../core/tarotEngine";
+import { logger } from "../core/logger";
+import type { TarotSpread } from "../types/tarot";
+
+const STORAGE_KEY = "@tarot:customSpreads";
+
+interface CustomSpreadStore {
+  spreads: TarotSpread[];
+  /** True until we've loaded from storage once */
+  hydrated: boolean;
+  /** Insert or replace a spread (matched by id) */
+  saveSpread: (spread: TarotSpread) => void;
+  deleteSpread: (spreadId: string) => void;
+  hydrate: () => Promise<void>;
+}
+
+/**
+ * Validate a user-designed spread
+ * Uses the same schema as spreads.json; the credit cost is always re-derived
+ * from the rule so a stored or edited value can't undercut it
+ */
+export function parseCustomSpread(
+  data: unknown
+): { success: true; spread: TarotSpread } | { success: false; error: string } {
+  const parsed = TarotSpreadSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    return {
+      success: false,
+      error: issue
+        ? `${issue.path.join(".") || "spread"}: ${issue.message}`
+        : parsed.error.message,
+    };
+  }
+  const spread = parsed.data;
+  if (!isCustomSpreadId(spread.id)) {
+    return { success: false, error: `id: ${spread.id} is not a custom spread id` };
+  }
+  const rule = spread.creditCostRule ?? "tiered";
+  return {
+    success: true,
+    spread: {
+      ...spread,
+      creditCostRule: rule,
+      creditCost: creditCostForRule(rule, spread.cardCount),
+    },
+  };
+}
+
+function persist(spreads: TarotSpread[]): void {
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(spreads)).catch((err) => {
+    logger.error("customSpreads.store.persist.failed", {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  });
+}
+
+export const useCustomSpreadStore = create<CustomSpreadStore>((set, get) => ({
+  spreads: [],
+  hydrated: false,
+
+  saveSpread: (spread) => {
+    const existing = get().spreads;
+    const spreads = existing.some((s) => s.id === spread.id)
+      ? existing.map((s) => (s.id === spread.id ? spread : s))
+      : [...existing, spread];
+    registerCustomSpreads(spreads);
+    set({ spreads });
+    persist(spreads);
+    logger.info("customSpreads.store.saved", {
+      spreadId: spread.id,
+      cardCount: spread.cardCount,
+    });
+  },
+
+  deleteSpread: (spreadId) => {
+    const spreads = get().spreads.filter((s) => s.id !== spreadId);
+    registerCustomSpreads(spreads);
+    set({ spreads });
+    persist(spreads);
+    logger.info("customSpreads.store.deleted", { spreadId });
+  },
+
+  hydrate: async () => {
+    if (get().hydrated) return;
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      if (raw != null) {
+        const stored = z.array(z.unknown()).safeParse(JSON.parse(raw));
+        if (stored.success) {
+          const spreads: TarotSpread[] = [];
+          for (const entry of stored.data) {
+            const result = parseCustomSpread(entry);
+            if (result.success) {
+              spreads.push(result.spread);
+            } else {
+              logger.warn("customSpreads.store.hydrate.invalid", {
+                error: result.error,
+              });
+            }
+          }
+          registerCustomSpreads(spreads);
+          set({ spreads, hydrated: true });
+          return;
+        }
+        logger.warn("customSpreads.store.hydrate.invalid", {
+          error: stored.error.message,
+        });
+      }
+    } catch (err) {
+      logger.error("customSpreads.store.hydrate.failed", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+    set({ hydrated: true });
+  },
+}));
@@ -0,0 +1,27 @@
+/**
+ * Deck session store
+ * Holds the physical-deck simulation for the current app session (in memory only)
+ */
+
+import { create } from "zustand";
+import type { DeckSession } from "../types/tarot";
+
+interface DeckSessionStore {
+  /** Current deck; null until the first reading opens one */
+  session: DeckSession | null;
+  setSession: (session: DeckSession) => void;
+  /** Put the deck away; the next reading starts from a fresh deck */
+  clearSession: () => void;
+}
+
+export const useDeckSessionStore = create<DeckSessionStore>((set) => ({
+  session: null,
+
+  setSession: (session) => {
+    set({ session });
+  },
+
+  clearSession: () => {
+    set({ session: null });
+  },
+}));
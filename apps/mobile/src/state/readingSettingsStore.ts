@@ -0,0 +1,81 @@
+/**
+ * Reading settings store - default preferences applied to new readings.
+ * Persisted to AsyncStorage so choices survive restarts.
+ */
+
+import { create } from "zustand";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { z } from "zod";
+import { DEFAULT_REVERSAL_STRATEGY } from "../core/tarotEngine";
+import { logger } from "../core/logger";
+import type { ReversalStrategy } from "../types/tarot";
+
+const STORAGE_KEY = "@tarot:settings:reading";
+
+/**
+ * Zod schema for ReversalStrategy (validates persisted settings)
+ */
+export const ReversalStrategySchema = z.discriminatedUnion("mode", [
+  z.object({ mode: z.literal("none") }),
+  z.object({
+    mode: z.literal("independent"),
+    probability: z.number().min(0).max(1),
+  }),
+  z.object({ mode: z.literal("balanced") }),
+  z.object({ mode: z.literal("half_turned") }),
+]);
+
+export const ReadingSettingsSchema = z.object({
+  reversalStrategy: ReversalStrategySchema,
+});
+
+type ReadingSettings = z.infer<typeof ReadingSettingsSchema>;
+
+interface ReadingSettingsStore extends ReadingSettings {
+  /** True until we've loaded from storage once */
+  hydrated: boolean;
+  setReversalStrategy: (strategy: ReversalStrategy) => void;
+  hydrate: () => Promise<void>;
+}
+
+function persist(settings: ReadingSettings): void {
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings)).catch((err) => {
+    logger.error("readingSettings.store.persist.failed", {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  });
+}
+
+export const useReadingSettingsStore = create<ReadingSettingsStore>(
+  (set, get) => ({
+    reversalStrategy: DEFAULT_REVERSAL_STRATEGY,
+    hydrated: false,
+
+    setReversalStrategy: (strategy) => {
+      set({ reversalStrategy: strategy });
+      persist({ reversalStrategy: strategy });
+    },
+
+    hydrate: async () => {
+      if (get().hydrated) return;
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEY);
+        if (raw != null) {
+          const parsed = ReadingSettingsSchema.safeParse(JSON.parse(raw));
+          if (parsed.success) {
+            set({ ...parsed.data, hydrated: true });
+            return;
+          }
+          logger.warn("readingSettings.store.hydrate.invalid", {
+            error: parsed.error.message,
+          });
+        }
+      } catch (err) {
+        logger.error("readingSettings.store.hydrate.failed", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+      set({ hydrated: true });
+    },
+  })
+);
@@ -5,7 +5,14 @@
 
 import { create } from "zustand";
 import type { ReadingState, ReadingResultLocal } from "../types/reading";
-import type { SpreadId } from "../types/tarot";
+import type {
+  SpreadId,
+  ReversalStrategy,
+  CardId,
+  ReadingCategory,
+  NarrativeTone,
+} from "../types/tarot";
+import { DEFAULT_NARRATIVE_TONE } from "../core/tarotEngine";
 
 interface ReadingStore {
   // State machine state
@@ -18,11 +25,29 @@ interface ReadingStore {
   selectedSpreadId: SpreadId | null;
   question: string | undefined;
   enableAiNarrative: boolean;
+  /** Reversal strategy chosen for this reading (null = use settings default) */
+  reversalStrategy: ReversalStrategy | null;
+  /** Number of piles the user cuts the deck into before dealing (1 = no cut) */
+  cutPiles: number;
+  /** Order the cut piles go back on the deck, pile indices top first (null = last pile on top) */
+  restackOrder: number[] | null;
+  /** Card set aside to represent the querent (spreads with a significator slot) */
+  significatorCardId: CardId | null;
+  /** Area of life the reading is about (null = general reading) */
+  focusCategory: ReadingCategory | null;
+  /** Voice the AI narrative is written in */
+  tone: NarrativeTone;
   
   // Actions
   selectSpread: (spreadId: SpreadId) => void;
   setQuestion: (question: string | undefined) => void;
   setEnableAiNarrative: (enable: boolean) => void;
+  setReversalStrategy: (strategy: ReversalStrategy | null) => void;
+  setCutPiles: (piles: number) => void;
+  setRestackOrder: (order: number[] | null) => void;
+  setSignificatorCardId: (cardId: CardId | null) => void;
+  setFocusCategory: (category: ReadingCategory | null) => void;
+  setTone: (tone: NarrativeTone) => void;
   setReadingState: (state: ReadingState) => void;
   setCurrentReading: (reading: ReadingResultLocal | null) => void;
   reset: () => void;
@@ -37,6 +62,12 @@ const initialState = {
   selectedSpreadId: null,
   question: undefined,
   enableAiNarrative: true,
+  reversalStrategy: null,
+  cutPiles: 1,
+  restackOrder: null,
+  significatorCardId: null,
+  focusCategory: null,
+  tone: DEFAULT_NARRATIVE_TONE,
 };
 
 /**
@@ -47,7 +78,12 @@ export const useReadingStore = create<ReadingStore>((set) => ({
   ...initialState,
   
   selectSpread: (spreadId) => {
-    set({ selectedSpreadId: spreadId, readingState: "SPREAD_SELECTED" });
+    // A significator is picked from one spread's pool, so it doesn't carry over
+    set({
+      selectedSpreadId: spreadId,
+      readingState: "SPREAD_SELECTED",
+      significatorCardId: null,
+    });
   },
   
   setQuestion: (question) => {
@@ -58,6 +94,31 @@ export const useReadingStore = create<ReadingStore>((set) => ({
     set({ enableAiNarrative: enable });
   },
   
+  setReversalStrategy: (strategy) => {
+    set({ reversalStrategy: strategy });
+  },
+  
+  setCutPiles: (piles) => {
+    // An order only fits the pile count it was picked for
+    set({ cutPiles: piles, restackOrder: null });
+  },
+  
+  setRestackOrder: (order) => {
+    set({ restackOrder: order });
+  },
+  
+  setSignificatorCardId: (cardId) => {
+    set({ significatorCardId: cardId });
+  },
+  
+  setFocusCategory: (category) => {
+    set({ focusCategory: category });
+  },
+  
+  setTone: (tone) => {
+    set({ tone });
+  },
+  
   setReadingState: (state) => {
     set({ readingState: state });
   },
@@ -0,0 +1,84 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
+import { useTheme } from '../index';
+
+export interface ChipOption<T extends string> {
+  value: T;
+  label: string;
+}
+
+interface OptionChipsProps<T extends string> {
+  options: ChipOption<T>[];
+  selected: T | null;
+  onSelect: (value: T) => void;
+  style?: ViewStyle;
+}
+
+/**
+ * Row of selectable pill chips (single choice)
+ * Wraps onto multiple lines when options don't fit
+ */
+export function OptionChips<T extends string>({
+  options,
+  selected,
+  onSelect,
+  style,
+}: OptionChipsProps<T>) {
+  const theme = useTheme();
+
+  return (
+    <View style={[styles.row, style]}>
+      {options.map((option) => {
+        const isSelected = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            onPress={() => onSelect(option.value)}
+            activeOpacity={0.7}
+            style={[
+              styles.chip,
+              {
+                borderRadius: theme.spacing.borderRadius.lg,
+                borderColor: isSelected
+                  ? theme.colors.jade.primary
+                  : theme.colors.glass.border,
+                backgroundColor: isSelected
+                  ? theme.colors.glass.background
+                  : 'transparent',
+              },
+            ]}
+          >
+            <Text
+              style={[
+                theme.typography.bodySmall,
+                {
+                  color: isSelected
+                    ? theme.colors.jade.primary
+                    : theme.colors.text.secondary,
+                  fontWeight: isSelected
+                    ? theme.typography.weights.semibold
+                    : theme.typography.weights.regular,
+                },
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+});
@@ -2,3 +2,5 @@ export { LiquidBackground } from './LiquidBackground';
 export { GlassCard } from './GlassCard';
 export { NeonButton } from './NeonButton';
 export { JadeRipple } from './JadeRipple';
+export { OptionChips } from './OptionChips';
+export type { ChipOption } from './OptionChips';
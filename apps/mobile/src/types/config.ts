@@ -22,6 +22,8 @@ export interface AppConfig {
   apiBaseUrl: string;
   /** Solana recipient address for payments */
   solanaRecipientAddress: string;
+  /** Credits charged for each follow-up question about a reading */
+  chatCreditCost: number;
   /** Feature flags */
   featureFlags: FeatureFlags;
 }
@@ -0,0 +1,74 @@
+/**
+ * Reading export types
+ * Formats and the versioned JSON document readings are exported as
+ */
+
+import type { ReadingResultLocal, ReversalStrategy, TarotSpread } from "./tarot";
+
+/**
+ * File format a reading export is written in
+ */
+export type ExportFormat = "json" | "markdown" | "pdf";
+
+/**
+ * Preferences carried in a backup so a new phone looks and draws the same
+ */
+export interface BackupSettings {
+  /** Accent hue 0-360 from the theme store */
+  accentHue: number;
+  /** Default reversal strategy for new readings */
+  reversalStrategy: ReversalStrategy;
+  /** User-designed spreads */
+  customSpreads: TarotSpread[];
+}
+
+/**
+ * Versioned JSON export of one or more readings
+ * `version` is bumped whenever the shape of an exported reading changes,
+ * so an import can migrate older files
+ */
+export interface ReadingExportDocument {
+  /** Identifies the file as a reading export */
+  kind: "tarot-readings";
+  version: number;
+  /** ISO timestamp when the export was made */
+  exportedAtIso: string;
+  /** Readings in the export, newest first */
+  readings: ReadingResultLocal[];
+  /** Present when the file is a full backup rather than a plain export */
+  settings?: BackupSettings;
+}
+
+/**
+ * What restoring a backup changed
+ */
+export interface BackupRestoreSummary {
+  /** Readings added to the history */
+  imported: number;
+  /** Readings already in the history (matched by readingId) and left as they were */
+  skipped: number;
+  /** Readings dropped because they reference cards this app doesn't know */
+  invalid: number;
+  /** Readings kept whose spread is no longer known; they show as a deleted spread */
+  unknownSpreads: number;
+  /** Whether theme and reading preferences were restored */
+  settingsRestored: boolean;
+  /** Custom spreads added or updated */
+  customSpreads: number;
+}
+
+/**
+ * Thrown when a file can't be read as a backup
+ */
+export class InvalidBackupError extends Error {
+  constructor(public readonly reason: string) {
+    super(`Invalid backup file: ${reason}`);
+    this.name = "InvalidBackupError";
+  }
+}
+
+/**
+ * Image to show for a card in Markdown and PDF exports, keyed by card ID
+ * Values are URIs the target format can load (data URIs keep the file self-contained)
+ */
+export type CardImageUris = Map<string, string>;
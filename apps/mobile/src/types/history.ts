@@ -0,0 +1,71 @@
+/**
+ * Reading history types
+ * Index entries, search filters and pages for the per-account reading history
+ */
+
+import type { CardId, ReadingResultLocal, SpreadId } from "./tarot";
+
+/**
+ * Summary of a stored reading
+ * Kept in the account's history index so filters don't have to load every reading
+ */
+export interface ReadingHistoryEntry {
+  readingId: string;
+  /** ISO timestamp when the reading was created */
+  createdAtIso: string;
+  spreadId: SpreadId;
+  question?: string;
+  /** Every card on the table: drawn cards, clarifiers and the significator */
+  cardIds: CardId[];
+}
+
+/**
+ * Filters for searching the history; all given filters must match
+ */
+export interface ReadingHistoryFilters {
+  spreadId?: SpreadId;
+  /** Card that appears anywhere in the reading */
+  cardId?: CardId;
+  /** Inclusive lower bound on createdAtIso */
+  fromIso?: string;
+  /** Inclusive upper bound on createdAtIso */
+  toIso?: string;
+  /** Case-insensitive text to find in the question or narrative */
+  text?: string;
+}
+
+/**
+ * One page of search results, newest first
+ */
+export interface ReadingHistoryPage {
+  readings: ReadingResultLocal[];
+  /** Offset to pass for the next page, or null when there are no more results */
+  nextOffset: number | null;
+}
+
+/**
+ * How the card came to be on the table
+ */
+export type CardAppearanceRole = "drawn" | "clarifier" | "significator";
+
+/**
+ * One time a card was on the table in a reading
+ */
+export interface CardAppearance {
+  reading: ReadingResultLocal;
+  role: CardAppearanceRole;
+  /** Label of the position it was drawn for (or clarified) */
+  positionLabel: string;
+  isReversed: boolean;
+}
+
+/**
+ * A card's appearances across the history, for the deck's card detail view
+ */
+export interface CardHistory {
+  appearances: CardAppearance[];
+  uprightCount: number;
+  reversedCount: number;
+  /** ISO timestamp of the newest reading with the card */
+  lastSeenIso?: string;
+}
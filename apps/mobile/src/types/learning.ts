@@ -0,0 +1,84 @@
+/**
+ * Learning mode types
+ * Spaced-repetition state, study questions and mastery for memorizing the deck
+ */
+
+import type { CardId, ReadingCategory, Suit } from "./tarot";
+
+/**
+ * How well a card was recalled
+ * Flashcards are graded by the user; quiz answers grade "good" when right and "again" when wrong
+ */
+export type StudyGrade = "again" | "hard" | "good" | "easy";
+
+/**
+ * Spaced-repetition schedule of one card
+ */
+export interface StudyCardState {
+  cardId: CardId;
+  /** Successful reviews in a row; reset by "again" */
+  repetitions: number;
+  /** Days until the next review after the last one */
+  intervalDays: number;
+  /** Growth factor applied to the interval on a successful review */
+  ease: number;
+  /** Times the card was forgotten after being learned */
+  lapses: number;
+  /** ISO timestamp when the card is next due */
+  dueAtIso: string;
+  /** ISO timestamp of the last review */
+  lastReviewedIso: string;
+}
+
+/**
+ * An account's study progress, keyed by card
+ */
+export interface StudyProgress {
+  cards: Record<CardId, StudyCardState>;
+}
+
+/**
+ * One answer of a multiple-choice question
+ */
+export interface StudyChoice {
+  label: string;
+  correct: boolean;
+}
+
+/**
+ * A question in a study session
+ * - flashcard: card image first, then the name and keywords; graded by the user
+ * - orientation: pick the card's meaning in the shown orientation, with its
+ *   opposite-orientation meaning among the wrong answers
+ * - category: name the life area a category meaning belongs to
+ */
+export type StudyQuestion =
+  | { kind: "flashcard"; cardId: CardId }
+  | {
+      kind: "orientation";
+      cardId: CardId;
+      isReversed: boolean;
+      choices: StudyChoice[];
+    }
+  | {
+      kind: "category";
+      cardId: CardId;
+      isReversed: boolean;
+      /** The answer; every category is offered as a choice */
+      category: ReadingCategory;
+      meaning: string;
+    };
+
+export type StudyQuestionKind = StudyQuestion["kind"];
+
+/**
+ * How well the cards of one suit are known
+ */
+export interface SuitMastery {
+  suit: Suit;
+  /** 0–1; each card counts by how far its interval is toward the mastery interval */
+  mastery: number;
+  /** Cards of the suit reviewed at least once */
+  studiedCount: number;
+  cardCount: number;
+}
@@ -0,0 +1,90 @@
+/**
+ * Reading statistics types
+ * Draw frequencies, streaks and fairness checks computed over the reading history
+ */
+
+import type { CardId, Suit } from "./tarot";
+
+/**
+ * How often one card has come up
+ */
+export interface CardFrequency {
+  cardId: CardId;
+  /** Times drawn in any orientation */
+  count: number;
+  /** Times drawn reversed */
+  reversedCount: number;
+}
+
+/**
+ * Cards drawn per suit within one calendar month
+ */
+export interface SuitFrequencyPeriod {
+  /** Month as YYYY-MM (local time) */
+  month: string;
+  suits: Record<Suit, number>;
+  /** Cards drawn in the month */
+  total: number;
+}
+
+/**
+ * Runs of consecutive days with at least one reading (local calendar days)
+ */
+export interface DrawStreaks {
+  /** Days in the run ending today, or yesterday if there is no reading yet today */
+  current: number;
+  longest: number;
+  /** Last day with a reading as YYYY-MM-DD, or null with no readings */
+  lastDrawDate: string | null;
+}
+
+/**
+ * Pearson chi-square goodness-of-fit against a fair shuffle
+ */
+export interface ChiSquareResult {
+  statistic: number;
+  degreesOfFreedom: number;
+  /** Chance of a deviation at least this large if the shuffle is fair */
+  pValue: number;
+  /** Whether every category expects at least 5 observations, the usual rule of thumb */
+  reliable: boolean;
+}
+
+/**
+ * Reversals across readings drawn with reversals turned on
+ */
+export interface ReversalStats {
+  reversedCount: number;
+  /** Cards drawn while reversals were allowed */
+  eligibleCount: number;
+  /** reversedCount / eligibleCount, or null when nothing was eligible */
+  rate: number | null;
+  /** Rate the reversal strategies used would produce on average */
+  expectedRate: number | null;
+  fairness: ChiSquareResult | null;
+}
+
+/**
+ * Everything shown on the statistics screen
+ */
+export interface ReadingStats {
+  readingCount: number;
+  /** Spread cards drawn; clarifiers and significators are left out */
+  cardCount: number;
+  /** Drawn cards, most frequent first */
+  cardFrequencies: CardFrequency[];
+  suits: Record<Suit, number>;
+  majorCount: number;
+  minorCount: number;
+  /** Month by month suit counts, oldest first */
+  suitTimeline: SuitFrequencyPeriod[];
+  reversals: ReversalStats;
+  streaks: DrawStreaks;
+  /** Cards in the deck that have never been drawn, in deck order */
+  neverDrawnCardIds: CardId[];
+  /** Observed card and suit frequencies compared with a fair shuffle */
+  fairness: {
+    cards: ChiSquareResult | null;
+    suits: ChiSquareResult | null;
+  };
+}
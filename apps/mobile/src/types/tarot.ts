@@ -10,12 +10,72 @@
 export type CardId = string;
 
 /**
- * Available spread types in the MVP
+ * Spreads that ship with the app (spreads.json)
  * - one_card: Single card reading
  * - three_card: Past/Present/Future spread
- * - celtic_cross: Full 10-card spread (stub for MVP)
+ * - mind_body_spirit: Three-card wellbeing check-in
+ * - relationship: Five-card relationship cross
+ * - two_paths: Five-card decision spread comparing two options
+ * - horseshoe: Seven cards from past to outcome
+ * - chakra: Seven cards, root to crown
+ * - celtic_cross: Full 10-card spread
+ * - year_ahead: Twelve cards around the astrological houses
  */
-export type SpreadId = "one_card" | "three_card" | "celtic_cross";
+export type BuiltInSpreadId =
+  | "one_card"
+  | "three_card"
+  | "mind_body_spirit"
+  | "relationship"
+  | "two_paths"
+  | "horseshoe"
+  | "chakra"
+  | "celtic_cross"
+  | "year_ahead";
+
+/**
+ * Identifier for any spread: a built-in ID or a user-defined one ("custom_<uuid>")
+ */
+export type SpreadId = BuiltInSpreadId | (string & {});
+
+/**
+ * How a custom spread's credit cost is derived from its card count
+ * - tiered: same pricing as the built-in spreads (one credit per two cards, rounded up)
+ * - per_card: one credit per card
+ */
+export type CreditCostRule = "tiered" | "per_card";
+
+/**
+ * Randomness source used to shuffle a reading
+ * - seeded: deterministic PRNG from a given replay seed (reproducible)
+ * - crypto_seeded: deterministic PRNG from a 128-bit WebCrypto seed (reproducible)
+ * - crypto_seeded_mixed: as crypto_seeded, with user entropy (shuffle taps) mixed into the seed
+ * - secure / secure_mixed: every draw straight from WebCrypto bytes; only on readings
+ *   saved by earlier versions, which can't be replayed
+ */
+export type RandomSource =
+  | "seeded"
+  | "crypto_seeded"
+  | "crypto_seeded_mixed"
+  | "secure"
+  | "secure_mixed";
+
+/**
+ * How reversed cards are decided for a reading
+ * - none: every card upright
+ * - independent: each card reversed with its own probability p
+ * - balanced: exactly half the spread reversed (rounded), positions shuffled
+ * - half_turned: half the deck is turned around before the shuffle, like a physical deck
+ */
+export type ReversalStrategy =
+  | { mode: "none" }
+  | { mode: "independent"; probability: number }
+  | { mode: "balanced" }
+  | { mode: "half_turned" };
+
+/**
+ * Reversal mode identifier
+ */
+export type ReversalMode = ReversalStrategy["mode"];
 
 /**
  * Suit classification for tarot cards
@@ -39,6 +99,11 @@ export interface CardMeanings {
   spirituality: string;
 }
 
+/**
+ * Area of life a reading can focus on; matches the keys of CardMeanings
+ */
+export type ReadingCategory = keyof CardMeanings;
+
 /**
  * Represents a single tarot card in the deck
  * Contains all static information about the card
@@ -70,6 +135,20 @@ export interface TarotCard {
   descriptionReversed: string;
 }
 
+/**
+ * Where a position's card sits in the spread layout
+ * Coordinates are the card center, normalized to 0–1 across the layout's width and height;
+ * the layout engine fits them to the screen
+ */
+export interface SpreadPositionLayout {
+  x: number;
+  y: number;
+  /** Clockwise rotation in degrees (90 for a card crossing another) */
+  rotation?: number;
+  /** Stacking order; higher sits on top (defaults to 0) */
+  z?: number;
+}
+
 /**
  * Represents a position within a spread
  * Each position has semantic meaning (e.g., "Past", "Present", "Future")
@@ -81,6 +160,27 @@ export interface SpreadPosition {
   label: string;
   /** Prompt text used for AI narrative generation */
   prompt: string;
+  /** Placement in the spread layout; positions without one fall back to a grid */
+  layout?: SpreadPositionLayout;
+}
+
+/**
+ * Cards offered first when choosing a significator
+ * "court" suggests the sixteen court cards; "any" lists the whole deck
+ */
+export type SignificatorPool = "court" | "any";
+
+/**
+ * Optional significator slot of a spread
+ * The significator represents the querent and is removed from the deck before shuffling
+ */
+export interface SpreadSignificator {
+  /** Human-readable label (e.g., "Significator") */
+  label: string;
+  /** Prompt text used for AI narrative generation */
+  prompt: string;
+  /** Suggested pool to pick the card from */
+  cardPool: SignificatorPool;
 }
 
 /**
@@ -100,8 +200,23 @@ export interface TarotSpread {
   creditCost: number;
   /** Array of position definitions */
   positions: SpreadPosition[];
+  /** Significator slot, for spreads that set a querent card aside */
+  significator?: SpreadSignificator;
+  /** Set on user-designed spreads; creditCost is derived from it */
+  creditCostRule?: CreditCostRule;
 }
 
+/**
+ * Voice the AI narrative is written in (reader persona)
+ */
+export type NarrativeTone =
+  | "heavenly_clean"
+  | "practical_coach"
+  | "poetic_mystic"
+  | "blunt_direct"
+  | "jungian"
+  | "kid_friendly";
+
 /**
  * User input for creating a new reading
  */
@@ -110,8 +225,18 @@ export interface ReadingDraftInput {
   spreadId: SpreadId;
   /** Optional user question or intent */
   question?: string;
-  /** Whether to allow reversed cards (MVP default: false) */
+  /** Whether to allow reversed cards (MVP default: false); false forces the "none" strategy */
   allowReversals: boolean;
+  /** How reversals are decided when allowed (defaults to DEFAULT_REVERSAL_STRATEGY) */
+  reversalStrategy?: ReversalStrategy;
+  /** Optional draw seed; reusing a reading's seed reproduces its exact cards */
+  seed?: string;
+  /** Card chosen to represent the querent (ignored for spreads without a significator slot) */
+  significatorCardId?: CardId;
+  /** Area of life the reading is about; unset for a general reading */
+  focusCategory?: ReadingCategory;
+  /** Narrative voice (defaults to DEFAULT_NARRATIVE_TONE) */
+  tone?: NarrativeTone;
 }
 
 /**
@@ -127,6 +252,132 @@ export interface DrawnCard {
   positionIndex: number;
 }
 
+/**
+ * A physical card in a deck session, with its current orientation
+ */
+export interface DeckCard {
+  /** ID of the card */
+  cardId: CardId;
+  /** Whether the card is currently upside down in the deck */
+  isReversed: boolean;
+}
+
+/**
+ * Persistent physical-deck simulation
+ * Keeps the deck order between readings so back-to-back readings use one deck
+ */
+export interface DeckSession {
+  /** Unique identifier for this deck session */
+  sessionId: string;
+  /** ISO timestamp when the deck was first opened */
+  createdAtIso: string;
+  /** Cards still in the deck, top card first */
+  remaining: DeckCard[];
+  /** Cards dealt onto the table since the last gather, in dealing order */
+  dealt: DeckCard[];
+  /** Readings drawn from this session, oldest first */
+  readingIds: string[];
+  /** Cards taken out of the deck before shuffling (the significator) */
+  setAside: DeckCard[];
+}
+
+/**
+ * Clarifier card pulled after a reading was revealed
+ * positionIndex is the spread position it clarifies
+ */
+export interface ClarifierCard extends DrawnCard {
+  /** ISO timestamp when the clarifier was drawn */
+  drawnAtIso: string;
+}
+
+/**
+ * How the querent felt when writing a journal entry
+ */
+export type JournalMood =
+  | "joyful"
+  | "hopeful"
+  | "calm"
+  | "uncertain"
+  | "anxious"
+  | "sad"
+  | "frustrated";
+
+/**
+ * Personal reflection written about a reading
+ */
+export interface JournalEntry {
+  /** Unique identifier for this entry */
+  id: string;
+  /** ISO timestamp when the entry was written */
+  createdAtIso: string;
+  text: string;
+  mood?: JournalMood;
+  /** Free-form tags, lowercased and without a leading "#" */
+  tags: string[];
+}
+
+/**
+ * How things turned out, recorded after the reading
+ * - pending: not known yet
+ * - came_true / partly / did_not: how closely events matched the reading
+ */
+export type ReadingOutcomeStatus = "pending" | "came_true" | "partly" | "did_not";
+
+export interface ReadingOutcome {
+  status: ReadingOutcomeStatus;
+  note?: string;
+  /** ISO timestamp when the outcome was last updated */
+  recordedAtIso: string;
+}
+
+/**
+ * Journal kept alongside a reading
+ */
+export interface ReadingJournal {
+  entries: JournalEntry[];
+  outcome?: ReadingOutcome;
+  /** ISO timestamp when the user wants to be reminded to look back at this reading */
+  followUpAtIso?: string;
+}
+
+/**
+ * Notable combination of specific cards (combinations.json)
+ */
+export interface CardCombination {
+  /** Stable identifier (card IDs joined with "+") */
+  id: string;
+  /** Two cards for a pair, three for a triad; order does not matter */
+  cardIds: CardId[];
+  /** What the cards mean together */
+  meaning: string;
+}
+
+/**
+ * Meaning of the same rank appearing several times (combinations.json)
+ */
+export interface RankCombination {
+  /** Minor Arcana rank (1 = Ace … 14 = King) */
+  rank: number;
+  /** Minimum number of cards of this rank */
+  count: number;
+  /** Display title (e.g., "Three Queens") */
+  title: string;
+  /** What the repetition means */
+  meaning: string;
+}
+
+/**
+ * Combination found in a reading's draw
+ */
+export interface DetectedCombination {
+  kind: "pair" | "triad" | "rank";
+  /** Cards in the reading that form the combination, in position order */
+  cardIds: CardId[];
+  /** Display title (e.g., "The Tower + Ten of Swords") */
+  title: string;
+  meaning: string;
+}
+
 /**
  * Complete reading result stored locally
  * Contains all card information and optional AI narrative
@@ -140,6 +391,26 @@ export interface ReadingResultLocal {
   spreadId: SpreadId;
   /** Optional user question */
   question?: string;
+  /**
+   * Seed the draw's random sequence came from: the replay seed, or the secure seed
+   * mixed with tap entropy. Replays exactly from a fresh deck; draws from a
+   * continuing deck session also depend on the deck order left by earlier readings.
+   */
+  seed?: string;
+  /** Randomness source the shuffle used (absent on readings saved before auditing) */
+  randomSource?: RandomSource;
+  /** Reversal strategy the cards were drawn with */
+  reversalStrategy?: ReversalStrategy;
+  /** Deck session the cards were dealt from */
+  deckSessionId?: string;
+  /** Significator chosen to represent the querent, kept out of the draw */
+  significatorCardId?: CardId;
+  /** Area of life the reading was scoped to */
+  focusCategory?: ReadingCategory;
+  /** Narrative voice chosen at setup (readings from before tones were added have none) */
+  tone?: NarrativeTone;
+  /** Notable pairs, triads and repeated ranks in the draw */
+  combinations?: DetectedCombination[];
   /** Array of cards drawn in this reading */
   drawnCards: DrawnCard[];
   /** Static meaning payload computed on-device */
@@ -152,9 +423,83 @@ export interface ReadingResultLocal {
     meaning: string;
     /** Full description of the card (upright or reversed) */
     description: string;
-    /** Category-specific meanings (love, health, money & career, spirituality) */
+    /**
+     * Category-specific meanings (love, health, money & career, spirituality)
+     * The reading's focus category, if any, comes first
+     */
     categoryMeanings: CardMeanings;
   }>;
   /** AI-generated narrative (filled after backend call) */
   aiNarrative?: string;
+  /** The same narrative split into parts, when generated in the JSON format */
+  aiStructuredNarrative?: StructuredNarrative;
+  /** Follow-up questions about the reading and their answers, oldest first */
+  chat?: ReadingChatMessage[];
+  /** Clarifier cards pulled for specific positions after the reveal */
+  clarifiers?: ClarifierCard[];
+  /** Reflections, outcome and follow-up reminder written after the reading */
+  journal?: ReadingJournal;
+}
+
+/**
+ * AI narrative split into an overview, one interpretation per card, advice,
+ * takeaways and a disclaimer
+ */
+export interface StructuredNarrative {
+  overview: string;
+  /** Keyed by the card's index in perCardText */
+  positions: Array<{ positionIndex: number; interpretation: string }>;
+  advice: string;
+  takeaways: string[];
+  disclaimer: string;
+}
+
+/**
+ * One message in a follow-up conversation about a reading
+ */
+export interface ReadingChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  createdAtIso: string;
+}
+
+/**
+ * Classical element associated with a card
+ */
+export type TarotElement = "fire" | "water" | "air" | "earth";
+
+/**
+ * How two neighbouring cards' elements act on each other
+ */
+export type ElementalDignity =
+  | "strengthening"
+  | "friendly"
+  | "neutral"
+  | "weakening";
+
+/**
+ * Patterns computed from a reading's spread cards
+ */
+export interface ReadingAnalysis {
+  /** Number of cards per suit (Major Arcana counted as "major") */
+  suits: Record<Suit, number>;
+  /** Number of cards per element (Major Arcana by astrological attribution) */
+  elements: Record<TarotElement, number>;
+  /** Number of Major Arcana cards */
+  majorCount: number;
+  /** Number of Minor Arcana cards */
+  minorCount: number;
+  /** Court cards in the spread, in position order */
+  courtCardIds: CardId[];
+  /** Numbers that appear on more than one card (courts excluded) */
+  repeatedNumbers: Array<{ number: number; cardIds: CardId[] }>;
+  /** Sum of card numbers, its reduction and the Major Arcana card it lands on */
+  numerology: { total: number; reduced: number; cardId?: CardId };
+  /** Elemental dignity between each pair of adjacent positions */
+  dignities: Array<{
+    fromPositionIndex: number;
+    toPositionIndex: number;
+    elements: [TarotElement, TarotElement];
+    dignity: ElementalDignity;
+  }>;
 }
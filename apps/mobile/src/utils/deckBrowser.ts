@@ -0,0 +1,49 @@
+/**
+ * Deck browser
+ * Suit grouping, full-text search and category labels for the deck screens
+ */
+
+import type { ReadingCategory, Suit, TarotCard } from "../types/tarot";
+
+export const CARD_CATEGORY_LABELS: Array<[ReadingCategory, string]> = [
+  ["love", "Love"],
+  ["health", "Health"],
+  ["moneyCareer", "Money & Career"],
+  ["spirituality", "Spirituality"],
+];
+
+export const DECK_SUIT_ORDER: Suit[] = ["major", "wands", "cups", "swords", "pentacles"];
+
+export interface CardSuitGroup {
+  suit: Suit;
+  cards: TarotCard[];
+}
+
+/**
+ * Cards grouped by suit in deck order, each group sorted by number
+ * Empty groups are left out, so a search shows only suits with matches
+ */
+export function groupCardsBySuit(cards: TarotCard[]): CardSuitGroup[] {
+  return DECK_SUIT_ORDER.map((suit) => ({
+    suit,
+    cards: cards
+      .filter((card) => (card.suit ?? "major") === suit)
+      .sort((a, b) => (a.number ?? 0) - (b.number ?? 0)),
+  })).filter((group) => group.cards.length > 0);
+}
+
+/**
+ * Cards whose name or keywords contain every word of the query
+ * Case-insensitive; words may match different fields ("cups connection" finds
+ * "Two of Cups" through its keywords). A blank query returns every card.
+ */
+export function searchCards(cards: TarotCard[], query: string): TarotCard[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return cards;
+  }
+  return cards.filter((card) => {
+    const haystack = [card.name, ...card.keywords].join(" ").toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
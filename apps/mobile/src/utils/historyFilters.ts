@@ -0,0 +1,73 @@
+/**
+ * History filters
+ * Date range presets and date parsing for the reading history screen
+ */
+
+import type { ChipOption } from "../theme/components";
+
+export type HistoryDateRange = "any" | "week" | "month" | "year" | "custom";
+
+export const HISTORY_DATE_RANGE_OPTIONS: ChipOption<HistoryDateRange>[] = [
+  { value: "any", label: "Any time" },
+  { value: "week", label: "Past week" },
+  { value: "month", label: "Past month" },
+  { value: "year", label: "Past year" },
+  { value: "custom", label: "Custom" },
+];
+
+const PRESET_DAYS: Record<Exclude<HistoryDateRange, "any" | "custom">, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+const DATE_INPUT_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parse a YYYY-MM-DD input as a local calendar day
+ * Returns null for anything that isn't a real date
+ */
+export function parseDateInput(value: string): Date | null {
+  const match = DATE_INPUT_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Inclusive ISO bounds for a date range
+ * Custom ranges cover whole local days; a blank or invalid custom bound is left open
+ */
+export function dateRangeBounds(
+  range: HistoryDateRange,
+  custom: { from: string; to: string },
+  now: Date = new Date()
+): { fromIso?: string; toIso?: string } {
+  if (range === "any") {
+    return {};
+  }
+  if (range === "custom") {
+    const from = parseDateInput(custom.from);
+    const to = parseDateInput(custom.to);
+    if (to) {
+      to.setHours(23, 59, 59, 999);
+    }
+    return {
+      fromIso: from?.toISOString(),
+      toIso: to?.toISOString(),
+    };
+  }
+  const from = new Date(now);
+  from.setDate(from.getDate() - PRESET_DAYS[range]);
+  return { fromIso: from.toISOString() };
+}
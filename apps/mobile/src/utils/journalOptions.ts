@@ -0,0 +1,58 @@
+/**
+ * Journal options
+ * Display labels for journal moods, outcomes and follow-up reminders
+ */
+
+import type { ChipOption } from "../theme/components";
+import type { JournalMood, ReadingOutcomeStatus } from "../types/tarot";
+
+export const JOURNAL_MOOD_OPTIONS: ChipOption<JournalMood>[] = [
+  { value: "joyful", label: "Joyful" },
+  { value: "hopeful", label: "Hopeful" },
+  { value: "calm", label: "Calm" },
+  { value: "uncertain", label: "Uncertain" },
+  { value: "anxious", label: "Anxious" },
+  { value: "sad", label: "Sad" },
+  { value: "frustrated", label: "Frustrated" },
+];
+
+export const JOURNAL_MOOD_LABELS: Record<JournalMood, string> = Object.fromEntries(
+  JOURNAL_MOOD_OPTIONS.map((option) => [option.value, option.label])
+) as Record<JournalMood, string>;
+
+export const OUTCOME_OPTIONS: ChipOption<ReadingOutcomeStatus>[] = [
+  { value: "pending", label: "Still waiting" },
+  { value: "came_true", label: "Came true" },
+  { value: "partly", label: "Partly" },
+  { value: "did_not", label: "Didn't happen" },
+];
+
+export type FollowUpPreset = "none" | "week" | "month" | "quarter";
+
+export const FOLLOW_UP_OPTIONS: ChipOption<FollowUpPreset>[] = [
+  { value: "none", label: "No reminder" },
+  { value: "week", label: "In a week" },
+  { value: "month", label: "In a month" },
+  { value: "quarter", label: "In 3 months" },
+];
+
+const FOLLOW_UP_DAYS: Record<Exclude<FollowUpPreset, "none">, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+};
+
+/**
+ * Reminder date for a preset, or null for no reminder
+ */
+export function followUpDateForPreset(
+  preset: FollowUpPreset,
+  now: Date = new Date()
+): string | null {
+  if (preset === "none") {
+    return null;
+  }
+  const date = new Date(now);
+  date.setDate(date.getDate() + FOLLOW_UP_DAYS[preset]);
+  return date.toISOString();
+}
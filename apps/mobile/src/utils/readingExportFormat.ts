@@ -0,0 +1,303 @@
+/**
+ * Reading export format
+ * Renders readings as Markdown and as the HTML that PDF exports are printed from
+ */
+
+import { getCard, getSpreadForReading } from "../data/tarot/loader";
+import { JOURNAL_MOOD_LABELS, OUTCOME_OPTIONS } from "./journalOptions";
+import { CARD_CATEGORY_LABELS } from "./deckBrowser";
+import type {
+  CardMeanings,
+  ReadingJournal,
+  ReadingResultLocal,
+} from "../types/tarot";
+import type { CardImageUris } from "../types/export";
+
+const DISCLAIMER =
+  "This reading is for reflection and entertainment purposes only. " +
+  "It is not intended as medical, legal, or financial advice.";
+
+/**
+ * One card of a reading, with everything an export shows for it
+ */
+interface ExportedCard {
+  cardId: string;
+  positionLabel: string;
+  cardName: string;
+  isReversed: boolean;
+  meaning: string;
+  description: string;
+  categoryMeanings?: CardMeanings;
+  clarifierNames: string[];
+}
+
+/**
+ * Spread name and position labels, with the loader's fallback for deleted spreads
+ */
+function spreadDetails(reading: ReadingResultLocal): {
+  name: string;
+  positionLabel: (positionIndex: number) => string;
+  significatorLabel: string;
+} {
+  const spread = getSpreadForReading(reading);
+  return {
+    name: spread.displayName,
+    positionLabel: (positionIndex) =>
+      spread.positions[positionIndex]?.label ?? `Card ${positionIndex + 1}`,
+    significatorLabel: spread.significator?.label ?? "Significator",
+  };
+}
+
+function exportedCards(reading: ReadingResultLocal): ExportedCard[] {
+  const { positionLabel } = spreadDetails(reading);
+  return reading.perCardText.map((cardText, index) => {
+    const drawnCard = reading.drawnCards[index];
+    const positionIndex = drawnCard?.positionIndex ?? index;
+    return {
+      cardId: cardText.cardId,
+      positionLabel: positionLabel(positionIndex),
+      cardName: getCard(cardText.cardId).name,
+      isReversed: drawnCard?.isReversed ?? false,
+      meaning: cardText.meaning,
+      description: cardText.description,
+      categoryMeanings: cardText.categoryMeanings,
+      clarifierNames: (reading.clarifiers ?? [])
+        .filter((clarifier) => clarifier.positionIndex === positionIndex)
+        .map(
+          (clarifier) =>
+            `${getCard(clarifier.cardId).name}${clarifier.isReversed ? " (reversed)" : ""}`
+        ),
+    };
+  });
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
+
+function outcomeLabel(journal: ReadingJournal): string | null {
+  const status = journal.outcome?.status;
+  return OUTCOME_OPTIONS.find((option) => option.value === status)?.label ?? null;
+}
+
+function hasJournal(journal: ReadingJournal | undefined): journal is ReadingJournal {
+  return (
+    !!journal &&
+    (journal.entries.length > 0 || !!journal.outcome || !!journal.followUpAtIso)
+  );
+}
+
+function markdownReading(
+  reading: ReadingResultLocal,
+  images: CardImageUris
+): string {
+  const details = spreadDetails(reading);
+  const lines: string[] = [
+    `# ${details.name}`,
+    "",
+    `*${formatDate(reading.createdAtIso)}*`,
+    "",
+  ];
+  if (reading.question) {
+    lines.push(`> ${reading.question}`, "");
+  }
+  if (reading.significatorCardId) {
+    lines.push(
+      `**${details.significatorLabel}:** ${getCard(reading.significatorCardId).name}`,
+      ""
+    );
+  }
+
+  for (const card of exportedCards(reading)) {
+    const heading = `${card.positionLabel}: ${card.cardName}${card.isReversed ? " (reversed)" : ""}`;
+    lines.push(`## ${heading}`, "");
+    const image = images.get(card.cardId);
+    if (image) {
+      lines.push(`![${card.cardName}](${image})`, "");
+    }
+    lines.push(card.meaning, "", card.description, "");
+    if (card.categoryMeanings) {
+      for (const [key, label] of CARD_CATEGORY_LABELS) {
+        lines.push(`- **${label}:** ${card.categoryMeanings[key]}`);
+      }
+      lines.push("");
+    }
+    if (card.clarifierNames.length > 0) {
+      lines.push(`*Clarified by ${card.clarifierNames.join(", ")}*`, "");
+    }
+  }
+
+  if (reading.aiNarrative) {
+    lines.push("## AI Narrative", "", reading.aiNarrative, "");
+  }
+
+  if (hasJournal(reading.journal)) {
+    const journal = reading.journal;
+    lines.push("## Journal", "");
+    for (const entry of journal.entries) {
+      const mood = entry.mood ? ` — ${JOURNAL_MOOD_LABELS[entry.mood]}` : "";
+      lines.push(`**${formatDate(entry.createdAtIso)}${mood}**`, "", entry.text, "");
+      if (entry.tags.length > 0) {
+        lines.push(entry.tags.map((tag) => `#${tag}`).join(" "), "");
+      }
+    }
+    const outcome = outcomeLabel(journal);
+    if (outcome) {
+      const note = journal.outcome?.note ? ` — ${journal.outcome.note}` : "";
+      lines.push(`**Outcome:** ${outcome}${note}`, "");
+    }
+    if (journal.followUpAtIso) {
+      lines.push(
+        `**Follow up:** ${new Date(journal.followUpAtIso).toLocaleDateString()}`,
+        ""
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render readings as one Markdown document, separated by rules
+ */
+export function renderReadingsMarkdown(
+  readings: ReadingResultLocal[],
+  images: CardImageUris = new Map()
+): string {
+  const body = [
+    ...readings.map((reading) => markdownReading(reading, images)),
+    `*${DISCLAIMER}*`,
+  ].join("\n---\n\n");
+  return `${body}\n`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function paragraphs(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("");
+}
+
+function htmlReading(reading: ReadingResultLocal, images: CardImageUris): string {
+  const details = spreadDetails(reading);
+  const parts: string[] = [
+    `<section class="reading">`,
+    `<h1>${escapeHtml(details.name)}</h1>`,
+    `<p class="date">${escapeHtml(formatDate(reading.createdAtIso))}</p>`,
+  ];
+  if (reading.question) {
+    parts.push(`<blockquote>${escapeHtml(reading.question)}</blockquote>`);
+  }
+  if (reading.significatorCardId) {
+    parts.push(
+      `<p><strong>${escapeHtml(details.significatorLabel)}:</strong> ${escapeHtml(getCard(reading.significatorCardId).name)}</p>`
+    );
+  }
+
+  for (const card of exportedCards(reading)) {
+    const image = images.get(card.cardId);
+    parts.push(`<div class="card">`);
+    if (image) {
+      parts.push(
+        `<img src="${escapeHtml(image)}" class="${card.isReversed ? "reversed" : ""}" alt="${escapeHtml(card.cardName)}">`
+      );
+    }
+    parts.push(
+      `<div class="card-text">`,
+      `<p class="position">${escapeHtml(card.positionLabel)}</p>`,
+      `<h2>${escapeHtml(card.cardName)}${card.isReversed ? " (reversed)" : ""}</h2>`,
+      paragraphs(card.meaning),
+      paragraphs(card.description)
+    );
+    if (card.categoryMeanings) {
+      const meanings = card.categoryMeanings;
+      parts.push(
+        `<ul>${CARD_CATEGORY_LABELS.map(
+          ([key, label]) =>
+            `<li><strong>${label}:</strong> ${escapeHtml(meanings[key])}</li>`
+        ).join("")}</ul>`
+      );
+    }
+    if (card.clarifierNames.length > 0) {
+      parts.push(
+        `<p class="note">Clarified by ${escapeHtml(card.clarifierNames.join(", "))}</p>`
+      );
+    }
+    parts.push(`</div></div>`);
+  }
+
+  if (reading.aiNarrative) {
+    parts.push(`<h2>AI Narrative</h2>`, paragraphs(reading.aiNarrative));
+  }
+
+  if (hasJournal(reading.journal)) {
+    const journal = reading.journal;
+    parts.push(`<h2>Journal</h2>`);
+    for (const entry of journal.entries) {
+      const mood = entry.mood ? ` — ${JOURNAL_MOOD_LABELS[entry.mood]}` : "";
+      parts.push(
+        `<p class="date">${escapeHtml(formatDate(entry.createdAtIso) + mood)}</p>`,
+        paragraphs(entry.text)
+      );
+      if (entry.tags.length > 0) {
+        parts.push(
+          `<p class="note">${escapeHtml(entry.tags.map((tag) => `#${tag}`).join(" "))}</p>`
+        );
+      }
+    }
+    const outcome = outcomeLabel(journal);
+    if (outcome) {
+      const note = journal.outcome?.note ? ` — ${journal.outcome.note}` : "";
+      parts.push(`<p><strong>Outcome:</strong> ${escapeHtml(outcome + note)}</p>`);
+    }
+    if (journal.followUpAtIso) {
+      parts.push(
+        `<p><strong>Follow up:</strong> ${escapeHtml(new Date(journal.followUpAtIso).toLocaleDateString())}</p>`
+      );
+    }
+  }
+
+  parts.push(`</section>`);
+  return parts.join("\n");
+}
+
+const PRINT_STYLES = `
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1b2b2b; margin: 32px; }
+  h1 { color: #0f5c4d; margin-bottom: 4px; }
+  h2 { color: #137a66; margin: 16px 0 8px; }
+  .date { color: #5f7373; font-size: 12px; }
+  blockquote { font-style: italic; border-left: 3px solid #2fb89a; margin: 12px 0; padding-left: 12px; }
+  .card { display: flex; gap: 16px; margin: 16px 0; page-break-inside: avoid; }
+  .card img { width: 120px; height: 200px; object-fit: contain; flex-shrink: 0; }
+  .card img.reversed { transform: rotate(180deg); }
+  .card-text { flex: 1; }
+  .position { color: #2fb89a; font-weight: 600; margin: 0; }
+  .note { color: #5f7373; font-size: 12px; }
+  .reading + .reading { page-break-before: always; }
+  .disclaimer { color: #5f7373; font-size: 11px; font-style: italic; }
+`;
+
+/**
+ * Render readings as a printable HTML page, one reading per page
+ */
+export function renderReadingsHtml(
+  readings: ReadingResultLocal[],
+  images: CardImageUris = new Map()
+): string {
+  return [
+    `<!DOCTYPE html><html><head><meta charset="utf-8">`,
+    `<meta name="viewport" content="width=device-width, initial-scale=1">`,
+    `<style>${PRINT_STYLES}</style></head><body>`,
+    ...readings.map((reading) => htmlReading(reading, images)),
+    `<p class="disclaimer">${escapeHtml(DISCLAIMER)}</p>`,
+    `</body></html>`,
+  ].join("\n");
+}
@@ -0,0 +1,137 @@
+/**
+ * Reading options
+ * Display labels for user-selectable reading settings and helpers to map them to engine types
+ */
+
+import type { ChipOption } from "../theme/components";
+import type {
+  ReversalMode,
+  ReversalStrategy,
+  SignificatorPool,
+  CreditCostRule,
+  ReadingCategory,
+  NarrativeTone,
+} from "../types/tarot";
+
+/**
+ * Reversal modes shown in pickers, in display order
+ */
+export const REVERSAL_MODE_OPTIONS: ChipOption<ReversalMode>[] = [
+  { value: "independent", label: "Natural" },
+  { value: "balanced", label: "Balanced" },
+  { value: "half_turned", label: "Half-turned deck" },
+  { value: "none", label: "Upright only" },
+];
+
+/**
+ * One-line explanation for each reversal mode
+ */
+export const REVERSAL_MODE_DESCRIPTIONS: Record<ReversalMode, string> = {
+  independent: "Each card has its own chance of appearing reversed.",
+  balanced: "About half of the cards in the spread appear reversed.",
+  half_turned:
+    "Half the deck is turned around before shuffling, like a physical deck.",
+  none: "All cards appear upright.",
+};
+
+/**
+ * Build a strategy for a picked mode
+ * Keeps the current probability when switching back to independent
+ */
+export function strategyForMode(
+  mode: ReversalMode,
+  current: ReversalStrategy
+): ReversalStrategy {
+  if (mode === "independent") {
+    return {
+      mode,
+      probability: current.mode === "independent" ? current.probability : 0.5,
+    };
+  }
+  return { mode };
+}
+
+/**
+ * Deck cut choices (number of piles, as strings for chip values)
+ */
+export const CUT_PILE_OPTIONS: ChipOption<"1" | "2" | "3">[] = [
+  { value: "1", label: "No cut" },
+  { value: "2", label: "Two piles" },
+  { value: "3", label: "Three piles" },
+];
+
+/**
+ * Restack choices for a cut into pileCount piles
+ * Values are pile indices top first, joined with commas; labels number the piles
+ * from 1 in the order they were cut, top first
+ */
+export function restackOrderOptions(pileCount: number): ChipOption<string>[] {
+  const permutations = (items: number[]): number[][] =>
+    items.length <= 1
+      ? [items]
+      : items.flatMap((item) =>
+          permutations(items.filter((other) => other !== item)).map((rest) => [
+            item,
+            ...rest,
+          ])
+        );
+  const piles = Array.from({ length: pileCount }, (_, idx) => pileCount - 1 - idx);
+  return permutations(piles).map((order) => ({
+    value: order.join(","),
+    label: order.map((pile) => pile + 1).join(" · "),
+  }));
+}
+
+/**
+ * Significator card pools shown in the picker
+ */
+export const SIGNIFICATOR_POOL_OPTIONS: ChipOption<SignificatorPool>[] = [
+  { value: "court", label: "Court cards" },
+  { value: "any", label: "Any card" },
+];
+
+/**
+ * Credit cost rules offered in the spread designer
+ */
+export const CREDIT_COST_RULE_OPTIONS: ChipOption<CreditCostRule>[] = [
+  { value: "tiered", label: "Standard pricing" },
+  { value: "per_card", label: "1 credit per card" },
+];
+
+/** Focus chip value meaning "no focus category" */
+export const GENERAL_FOCUS = "general";
+
+/**
+ * Focus categories offered before a reading, general first
+ */
+export const FOCUS_CATEGORY_OPTIONS: ChipOption<ReadingCategory | typeof GENERAL_FOCUS>[] = [
+  { value: GENERAL_FOCUS, label: "General" },
+  { value: "love", label: "Love" },
+  { value: "health", label: "Health" },
+  { value: "moneyCareer", label: "Money & Career" },
+  { value: "spirituality", label: "Spirituality" },
+];
+
+/**
+ * Narrative voices offered before a reading, default first
+ */
+export const NARRATIVE_TONE_OPTIONS: ChipOption<NarrativeTone>[] = [
+  { value: "heavenly_clean", label: "Heavenly" },
+  { value: "practical_coach", label: "Practical Coach" },
+  { value: "poetic_mystic", label: "Poetic Mystic" },
+  { value: "blunt_direct", label: "Blunt & Direct" },
+  { value: "jungian", label: "Jungian" },
+  { value: "kid_friendly", label: "Kid-Friendly" },
+];
+
+/**
+ * One-line description of each voice, shown under the picker
+ */
+export const NARRATIVE_TONE_DESCRIPTIONS: Record<NarrativeTone, string> = {
+  heavenly_clean: "Calm, gentle and supportive.",
+  practical_coach: "Grounded advice and concrete next steps.",
+  poetic_mystic: "Lyrical imagery and metaphor.",
+  blunt_direct: "Short, honest, no sugar-coating.",
+  jungian: "Archetypes, shadow and inner patterns.",
+  kid_friendly: "Simple, cheerful words for young readers.",
+};
@@ -0,0 +1,111 @@
+/**
+ * Reading patterns
+ * Display labels and row formatting for ReadingAnalysis
+ */
+
+import type {
+  CardId,
+  ElementalDignity,
+  ReadingAnalysis,
+  Suit,
+  TarotElement,
+  TarotSpread,
+} from "../types/tarot";
+
+export const SUIT_LABELS: Record<Suit, string> = {
+  major: "Major Arcana",
+  wands: "Wands",
+  cups: "Cups",
+  swords: "Swords",
+  pentacles: "Pentacles",
+};
+
+export const ELEMENT_LABELS: Record<TarotElement, string> = {
+  fire: "Fire",
+  water: "Water",
+  air: "Air",
+  earth: "Earth",
+};
+
+export const DIGNITY_LABELS: Record<ElementalDignity, string> = {
+  strengthening: "strengthen each other",
+  friendly: "support each other",
+  neutral: "sit neutrally",
+  weakening: "weaken each other",
+};
+
+/**
+ * One labelled line of the "Reading patterns" section
+ */
+export interface PatternRow {
+  label: string;
+  value: string;
+}
+
+/**
+ * Turn an analysis into display rows
+ * Counts list only what is present, in a fixed suit/element order
+ */
+export function formatReadingPatterns(
+  analysis: ReadingAnalysis,
+  spread: TarotSpread,
+  getCardName: (cardId: CardId) => string
+): PatternRow[] {
+  const counts = <K extends string>(
+    values: Record<K, number>,
+    labels: Record<K, string>
+  ) =>
+    (Object.keys(labels) as K[])
+      .filter((key) => values[key] > 0)
+      .map((key) => `${labels[key]} ${values[key]}`)
+      .join(" · ");
+
+  const positionLabel = (index: number) =>
+    spread.positions[index]?.label ?? `Position ${index + 1}`;
+
+  const rows: PatternRow[] = [
+    { label: "Suits", value: counts(analysis.suits, SUIT_LABELS) },
+    {
+      label: "Elements",
+      value: counts(analysis.elements, ELEMENT_LABELS) || "None",
+    },
+    {
+      label: "Major vs Minor",
+      value: `${analysis.majorCount} Major · ${analysis.minorCount} Minor`,
+    },
+    {
+      label: "Court cards",
+      value: analysis.courtCardIds.length
+        ? analysis.courtCardIds.map(getCardName).join(", ")
+        : "None",
+    },
+  ];
+
+  if (analysis.repeatedNumbers.length > 0) {
+    rows.push({
+      label: "Repeated numbers",
+      value: analysis.repeatedNumbers
+        .map(
+          ({ number, cardIds }) =>
+            `${number} ×${cardIds.length} (${cardIds.map(getCardName).join(", ")})`
+        )
+        .join("; "),
+    });
+  }
+
+  rows.push({
+    label: "Numerology",
+    value: analysis.numerology.cardId
+      ? `${analysis.numerology.total} → ${analysis.numerology.reduced} (${getCardName(analysis.numerology.cardId)})`
+      : `${analysis.numerology.total} → ${analysis.numerology.reduced}`,
+  });
+
+  for (const pair of analysis.dignities) {
+    rows.push({
+      label: `${positionLabel(pair.fromPositionIndex)} → ${positionLabel(pair.toPositionIndex)}`,
+      value: `${ELEMENT_LABELS[pair.elements[0]]} and ${ELEMENT_LABELS[pair.elements[1]]} ${DIGNITY_LABELS[pair.dignity]}`,
+    });
+  }
+
+  return rows;
+}
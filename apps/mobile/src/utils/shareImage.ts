@@ -0,0 +1,78 @@
+/**
+ * Share image
+ * Templates and text helpers for the "Share as image" reading cards
+ */
+
+import type { ChipOption } from "../theme/components";
+
+export type ShareImageTemplate = "story" | "square" | "wide";
+
+export interface ShareImageTemplateSpec {
+  /** Size the card is laid out at, in points */
+  width: number;
+  height: number;
+  /** Size of the exported image, in pixels */
+  exportWidth: number;
+  exportHeight: number;
+  /** Longest narrative excerpt shown; 0 leaves the narrative out */
+  excerptLength: number;
+  /** Lines of the question shown before it is cut off */
+  questionLines: number;
+}
+
+export const SHARE_IMAGE_TEMPLATES: Record<ShareImageTemplate, ShareImageTemplateSpec> = {
+  // 9:16 for stories and status updates
+  story: {
+    width: 360,
+    height: 640,
+    exportWidth: 1080,
+    exportHeight: 1920,
+    excerptLength: 280,
+    questionLines: 3,
+  },
+  // 1:1 for feeds
+  square: {
+    width: 360,
+    height: 360,
+    exportWidth: 1080,
+    exportHeight: 1080,
+    excerptLength: 120,
+    questionLines: 2,
+  },
+  // 1.91:1 for link previews and chats
+  wide: {
+    width: 480,
+    height: 252,
+    exportWidth: 1200,
+    exportHeight: 630,
+    excerptLength: 0,
+    questionLines: 1,
+  },
+};
+
+export const SHARE_IMAGE_TEMPLATE_OPTIONS: ChipOption<ShareImageTemplate>[] = [
+  { value: "story", label: "Story 9:16" },
+  { value: "square", label: "Square" },
+  { value: "wide", label: "Wide" },
+];
+
+/**
+ * Opening of a narrative, cut at a sentence end where possible, else at a word
+ */
+export function narrativeExcerpt(text: string, maxLength: number): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= maxLength) {
+    return clean;
+  }
+  const cut = clean.slice(0, maxLength);
+  const sentenceEnd = Math.max(
+    cut.lastIndexOf(". "),
+    cut.lastIndexOf("! "),
+    cut.lastIndexOf("? ")
+  );
+  if (sentenceEnd >= maxLength / 2) {
+    return cut.slice(0, sentenceEnd + 1);
+  }
+  const wordEnd = cut.lastIndexOf(" ");
+  return `${cut.slice(0, wordEnd > 0 ? wordEnd : maxLength).replace(/[,;:]$/, "")}…`;
+}
@@ -0,0 +1,58 @@
+/**
+ * Stats format
+ * Display text for the reading statistics screen
+ */
+
+import type { ChiSquareResult } from "../types/stats";
+
+/** Below this p-value a deviation is called out as unusual */
+const SIGNIFICANCE_LEVEL = 0.05;
+
+/** Below this p-value a deviation is called out as strong */
+const STRONG_SIGNIFICANCE_LEVEL = 0.01;
+
+const MONTH_NAMES = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+
+/**
+ * Whole-number percentage, or a dash when there's nothing to show
+ */
+export function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Short month label for a YYYY-MM key, e.g. "Oct 26"
+ */
+export function formatMonth(month: string): string {
+  const [year, monthNumber] = month.split("-");
+  return `${MONTH_NAMES[Number(monthNumber) - 1]} ${year.slice(2)}`;
+}
+
+function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? "p < 0.001" : `p = ${pValue.toFixed(3)}`;
+}
+
+/**
+ * Plain-language verdict on a chi-square check against a fair shuffle
+ */
+export function describeFairness(result: ChiSquareResult | null): string {
+  if (!result) {
+    return "Not enough draws yet.";
+  }
+  const figures = `χ² = ${result.statistic.toFixed(1)}, df = ${result.degreesOfFreedom}, ${formatPValue(result.pValue)}`;
+  let verdict: string;
+  if (result.pValue < STRONG_SIGNIFICANCE_LEVEL) {
+    verdict = "Clearly uneven — more than chance usually explains.";
+  } else if (result.pValue < SIGNIFICANCE_LEVEL) {
+    verdict = "Somewhat uneven, though chance can still produce this.";
+  } else {
+    verdict = "Consistent with a fair shuffle.";
+  }
+  const caveat = result.reliable
+    ? ""
+    : " Keep drawing: there are too few cards yet for a dependable check.";
+  return `${verdict} (${figures})${caveat}`;
+}
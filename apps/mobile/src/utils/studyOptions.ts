@@ -0,0 +1,29 @@
+/**
+ * Study options
+ * Display labels for learning-mode grades and suit focus
+ */
+
+import { SUIT_LABELS } from "./readingPatterns";
+import type { ChipOption } from "../theme/components";
+import type { StudyGrade } from "../types/learning";
+import type { Suit } from "../types/tarot";
+
+export const STUDY_GRADE_OPTIONS: ChipOption<StudyGrade>[] = [
+  { value: "again", label: "Forgot" },
+  { value: "hard", label: "Hard" },
+  { value: "good", label: "Good" },
+  { value: "easy", label: "Easy" },
+];
+
+/** Focus chip value meaning "study the whole deck" */
+export const ALL_SUITS = "all";
+
+export type StudyFocus = Suit | typeof ALL_SUITS;
+
+export const STUDY_FOCUS_OPTIONS: ChipOption<StudyFocus>[] = [
+  { value: ALL_SUITS, label: "Whole deck" },
+  ...(Object.entries(SUIT_LABELS) as Array<[Suit, string]>).map(([value, label]) => ({
+    value,
+    label,
+  })),
+];
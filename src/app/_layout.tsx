@@ -6,6 +6,8 @@ import { initializeTarotData } from "../../apps/mobile/src/data/tarot/loader";
 import { initializeAiService, initializeSolanaService } from "../../apps/mobile/src/services";
 import { initializeIap } from "../../apps/mobile/src/services/iapService";
 import { getAppConfig } from "../../apps/mobile/src/config/appConfig";
+import { useReadingSettingsStore } from "../../apps/mobile/src/state/readingSettingsStore";
+import { useCustomSpreadStore } from "../../apps/mobile/src/state/customSpreadStore";
 import { logger } from "../../apps/mobile/src/core/logger";
 
 /**
@@ -19,6 +21,12 @@ async function initializeApp() {
     await initializeTarotData();
     logger.info("app.init.tarot.loaded");
 
+    // Load saved reading preferences
+    await useReadingSettingsStore.getState().hydrate();
+
+    // Load user-designed spreads
+    await useCustomSpreadStore.getState().hydrate();
+
     // Load app configuration
     const config = getAppConfig();
 